@@ -1,6 +1,7 @@
 import "dotenv/config";
-import { PrismaClient, UserRole } from "@prisma/client";
+import { IngredientUnit, InventoryMovementType, PrepStation, PrismaClient, PromotionType, UserRole } from "@prisma/client";
 import { PrismaPg } from "@prisma/adapter-pg";
+import { hashPin } from "../src/lib/pin";
 
 const connectionString = process.env.DATABASE_URL;
 
@@ -15,41 +16,88 @@ async function main() {
   console.log("Seeding database...");
 
   // ----- USERS -----
-  await prisma.user.create({
+  // Demo PINs: admin 1111, waiter 2222, cook 3333.
+  await prisma.user.createMany({
+    data: [
+      {
+        phoneNumber: "+10000000001",
+        fullName: "Cafe Admin",
+        role: UserRole.ADMIN,
+        pinHash: hashPin("1111"),
+      },
+      {
+        phoneNumber: "+10000000002",
+        fullName: "Waiter One",
+        role: UserRole.WAITER,
+        pinHash: hashPin("2222"),
+      },
+      {
+        phoneNumber: "+10000000003",
+        fullName: "Cook One",
+        role: UserRole.COOK,
+        pinHash: hashPin("3333"),
+      },
+    ],
+  });
+
+  // ----- TAX -----
+  // Drinks pay the standard rate; food to go is taxed at a reduced rate.
+  const standardTax = await prisma.taxProfile.create({
+    data: { name: "Standard", rateBasisPoints: 825 },
+  });
+  const foodTax = await prisma.taxProfile.create({
+    data: { name: "Food", rateBasisPoints: 825, takeoutBasisPoints: 500, deliveryBasisPoints: 500 },
+  });
+
+  // ----- STORE -----
+  await prisma.storeSettings.create({
     data: {
-      email: "admin@cafe.com",
-      fullName: "Cafe Admin",
-      role: UserRole.ADMIN,
+      displayName: "MAASH ALLAH CAFE",
+      timeZone: "America/New_York",
+      businessDayCutoffHour: 4,
+      receiptFooter: "Thank you for visiting!",
+      defaultTaxProfileId: standardTax.id,
     },
   });
 
   // ----- CATEGORIES -----
   const drinks = await prisma.category.create({
-    data: { name: "Drinks", sortOrder: 1 },
+    data: { name: "Drinks", sortOrder: 1, taxProfileId: standardTax.id },
   });
 
   const food = await prisma.category.create({
-    data: { name: "Food", sortOrder: 2 },
+    data: { name: "Food", sortOrder: 2, taxProfileId: foodTax.id },
   });
 
   // ----- PRODUCTS -----
-  await prisma.product.createMany({
+  const products = await prisma.product.createManyAndReturn({
     data: [
-      { name: "Coffee", priceCents: 350, categoryId: drinks.id },
-      { name: "Latte", priceCents: 450, categoryId: drinks.id },
-      { name: "Cappuccino", priceCents: 500, categoryId: drinks.id },
-      { name: "Croissant", priceCents: 400, categoryId: food.id },
-      { name: "Sandwich", priceCents: 850, categoryId: food.id },
-      { name: "Cheesecake", priceCents: 600, categoryId: food.id },
+      { name: "Coffee", priceCents: 350, categoryId: drinks.id, prepStation: PrepStation.BAR },
+      { name: "Latte", priceCents: 450, categoryId: drinks.id, prepStation: PrepStation.BAR },
+      { name: "Cappuccino", priceCents: 500, categoryId: drinks.id, prepStation: PrepStation.BAR },
+      { name: "Croissant", priceCents: 400, categoryId: food.id, trackStock: true, stockQty: 24, reorderLevel: 6 },
+      { name: "Sandwich", priceCents: 850, categoryId: food.id, trackStock: true, stockQty: 12, reorderLevel: 3 },
+      { name: "Cheesecake", priceCents: 600, categoryId: food.id, trackStock: true, stockQty: 8, reorderLevel: 2 },
     ],
   });
 
-  // ----- TAX -----
-  await prisma.taxRate.create({
-    data: {
-      name: "Standard Tax",
-      percent: 8,
-    },
+  // ----- OPENING STOCK -----
+  // Tracked products start with a ledger entry so stockQty reconciles.
+  await prisma.inventoryMovement.createMany({
+    data: products
+      .filter((product) => product.trackStock)
+      .map((product) => ({
+        productId: product.id,
+        type: InventoryMovementType.DELIVERY,
+        quantity: product.stockQty,
+        stockAfter: product.stockQty,
+        reason: "Opening stock",
+      })),
+  });
+
+  // ----- TABLES -----
+  await prisma.table.createMany({
+    data: ["T1", "T2", "T3", "T4", "T5", "T6"].map((name) => ({ name })),
   });
 
   // ----- DISCOUNT -----
@@ -61,6 +109,42 @@ async function main() {
     },
   });
 
+  // ----- PROMOTIONS -----
+  const byName = (name: string) => products.find((product) => product.name === name)!.id;
+  await prisma.promotion.create({
+    data: {
+      name: "Breakfast Combo",
+      type: PromotionType.COMBO_PRICE,
+      startMinute: 7 * 60,
+      endMinute: 11 * 60,
+      comboPriceCents: 650,
+      priority: 10,
+      scope: {
+        create: [{ categoryId: drinks.id }, { productId: byName("Croissant") }],
+      },
+    },
+  });
+  await prisma.promotion.create({
+    data: {
+      name: "Happy Hour",
+      type: PromotionType.CATEGORY_PERCENT,
+      daysOfWeek: [1, 2, 3, 4, 5],
+      startMinute: 15 * 60,
+      endMinute: 17 * 60,
+      percentOff: 20,
+      scope: { create: [{ categoryId: drinks.id }] },
+    },
+  });
+  await prisma.promotion.create({
+    data: {
+      name: "Pastry 2+1",
+      type: PromotionType.BUY_X_GET_Y,
+      buyQty: 2,
+      getQty: 1,
+      scope: { create: [{ productId: byName("Croissant") }, { productId: byName("Cheesecake") }] },
+    },
+  });
+
   // ----- MODIFIER GROUP -----
   const milkGroup = await prisma.modifierGroup.create({
     data: {
@@ -71,14 +155,71 @@ async function main() {
     },
   });
 
-  await prisma.modifier.createMany({
+  const milkDrinks = products.filter((product) =>
+    ["Latte", "Cappuccino"].includes(product.name),
+  );
+  const milkModifiers = await prisma.modifier.createManyAndReturn({
+    data: milkDrinks.flatMap((product) =>
+      [
+        { name: "Whole Milk", priceCents: 0 },
+        { name: "Oat Milk", priceCents: 50 },
+        { name: "Almond Milk", priceCents: 50 },
+      ].map((option) => ({
+        ...option,
+        productId: product.id,
+        modifierGroupId: milkGroup.id,
+        groupName: milkGroup.name,
+      })),
+    ),
+  });
+
+  // ----- INGREDIENTS & RECIPES -----
+  const [beans, wholeMilk, oatMilk, almondMilk] = await prisma.ingredient.createManyAndReturn({
     data: [
-      { name: "Whole Milk", modifierGroupId: milkGroup.id },
-      { name: "Oat Milk", modifierGroupId: milkGroup.id, priceCents: 50 },
-      { name: "Almond Milk", modifierGroupId: milkGroup.id, priceCents: 50 },
+      { name: "Espresso Beans", unit: IngredientUnit.GRAM, stockQty: 5000 },
+      { name: "Whole Milk", unit: IngredientUnit.MILLILITER, stockQty: 20000 },
+      { name: "Oat Milk", unit: IngredientUnit.MILLILITER, stockQty: 6000 },
+      { name: "Almond Milk", unit: IngredientUnit.MILLILITER, stockQty: 6000 },
     ],
   });
 
+  await prisma.ingredientMovement.createMany({
+    data: [beans, wholeMilk, oatMilk, almondMilk].map((ingredient) => ({
+      ingredientId: ingredient.id,
+      type: InventoryMovementType.DELIVERY,
+      quantity: ingredient.stockQty,
+      stockAfter: ingredient.stockQty,
+      reason: "Opening stock",
+    })),
+  });
+
+  const milkMl: Record<string, number> = { Latte: 200, Cappuccino: 150 };
+  await prisma.productRecipeItem.createMany({
+    data: products
+      .filter((product) => ["Coffee", "Latte", "Cappuccino"].includes(product.name))
+      .flatMap((product) => [
+        { productId: product.id, ingredientId: beans.id, quantity: 18 },
+        ...(milkMl[product.name]
+          ? [{ productId: product.id, ingredientId: wholeMilk.id, quantity: milkMl[product.name] }]
+          : []),
+      ]),
+  });
+
+  // Alternative milks swap out the dairy in the base recipe.
+  const alternatives: Record<string, string> = { "Oat Milk": oatMilk.id, "Almond Milk": almondMilk.id };
+  await prisma.modifierRecipeItem.createMany({
+    data: milkModifiers
+      .filter((modifier) => alternatives[modifier.name])
+      .flatMap((modifier) => {
+        const product = milkDrinks.find((drink) => drink.id === modifier.productId);
+        const quantity = product ? milkMl[product.name] : 0;
+        return [
+          { modifierId: modifier.id, ingredientId: wholeMilk.id, quantity: -quantity },
+          { modifierId: modifier.id, ingredientId: alternatives[modifier.name], quantity },
+        ];
+      }),
+  });
+
   console.log("Seeding finished.");
 }
 
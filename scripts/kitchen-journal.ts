@@ -0,0 +1,54 @@
+import fs from "fs";
+import path from "path";
+
+export type Journal<E> = {
+  append(event: E): void;
+  /** Feeds every readable line to `apply` as parsed JSON and returns how many there were. */
+  replay(apply: (event: unknown) => void): number;
+  compact(events: E[]): void;
+};
+
+// Append-only JSON-lines journal. Every state change the socket server makes
+// is written here before it is broadcast, and replayed on startup.
+export function createJournal<E>(filePath: string): Journal<E> {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+  function append(event: E) {
+    fs.appendFileSync(filePath, `${JSON.stringify(event)}\n`);
+  }
+
+  function replay(apply: (event: unknown) => void) {
+    if (!fs.existsSync(filePath)) {
+      return 0;
+    }
+    const lines = fs.readFileSync(filePath, "utf8").split("\n");
+    let applied = 0;
+    lines.forEach((line, index) => {
+      if (!line.trim()) {
+        return;
+      }
+      let event: unknown;
+      try {
+        event = JSON.parse(line);
+      } catch {
+        // A crash mid-write can leave a truncated last line; skip it.
+        console.warn(`Skipping unreadable journal line ${index + 1} in ${filePath}`);
+        return;
+      }
+      apply(event);
+      applied += 1;
+    });
+    return applied;
+  }
+
+  // Rewrites the journal as the minimal set of events that rebuild the
+  // current state. Written to a temp file first so a crash cannot lose data.
+  function compact(events: E[]) {
+    const tempPath = `${filePath}.tmp`;
+    const body = events.map((event) => JSON.stringify(event)).join("\n");
+    fs.writeFileSync(tempPath, body.length > 0 ? `${body}\n` : "");
+    fs.renameSync(tempPath, filePath);
+  }
+
+  return { append, replay, compact };
+}
@@ -0,0 +1,640 @@
+// Run through tsx (see package.json) so the shared TypeScript modules in
+// src/lib can be imported directly.
+import "dotenv/config";
+import path from "path";
+import { WebSocket, WebSocketServer, type RawData } from "ws";
+import { createJournal } from "./kitchen-journal";
+import { businessDayKey, type BusinessDayClock } from "../src/lib/business-day";
+import {
+  bumpTicketItem,
+  canReceive,
+  canSend,
+  recallTicket,
+  SOCKET_UNAUTHORIZED_CODE,
+  splitTicketByStation,
+  withTicketStatus,
+  type KitchenSocketMessage,
+  type KitchenTicket,
+  type KitchenTicketStatus,
+  type SaleRecord,
+  type SocketRole,
+} from "../src/lib/kitchen-socket";
+import { loadLowStockAlert, loadSaleRecords } from "../src/lib/live-sales";
+import { buildPickupBoard, PICKUP_DISPLAY_ROLE } from "../src/lib/pickup";
+import { forgetPrepTimes, recordPrepTimes } from "../src/lib/prep-times";
+import { isVoidedOrder } from "../src/lib/refunds";
+import { isStaffRole } from "../src/lib/roles";
+import { verifyToken } from "../src/lib/signed-token";
+import {
+  decodeFrame,
+  encodeFrame,
+  readSale,
+  readTicket,
+  SocketProtocolError,
+  type DecodedFrame,
+} from "../src/lib/socket-protocol";
+import { loadStoreProfile } from "../src/lib/store-config";
+
+type Staff = {
+  id: string;
+  name: string;
+  role: SocketRole;
+};
+
+// What the journal holds; every line is checked with the protocol's readers on replay.
+type JournalEvent =
+  | { type: "ticket"; ticket: KitchenTicket }
+  | { type: "completed"; ticket: KitchenTicket }
+  | { type: "status"; id: string; status: KitchenTicketStatus; at?: string }
+  | { type: "bump"; ticketId: string; itemId: string; done: boolean; at?: string }
+  | { type: "recall"; id: string }
+  | { type: "void"; receiptNo: number }
+  | { type: "sale"; sale: SaleRecord };
+
+const port = Number(process.env.KITCHEN_WS_PORT || 8080);
+const host = process.env.KITCHEN_WS_HOST || "0.0.0.0";
+const journalPath =
+  process.env.KITCHEN_WS_JOURNAL || path.join(process.cwd(), "data", "kitchen-journal.jsonl");
+const salesRetentionDays = Math.max(1, Number(process.env.KITCHEN_SALES_RETENTION_DAYS) || 30);
+const RETENTION_SWEEP_MS = 60 * 60 * 1000;
+const COMPLETED_HISTORY_LIMIT = 200;
+// Only hear ORDER_READY for orders they sent; cooks and managers hear every one.
+const SELLER_ROLES: readonly SocketRole[] = ["WAITER", "CASHIER"];
+
+const activeTickets = new Map<string, KitchenTicket>();
+// Tickets finished this business day, oldest first, so cooks can recall a
+// mistaken "done".
+const completedTickets = new Map<string, KitchenTicket>();
+const salesByDay = new Map<string, SaleRecord[]>();
+const journal = createJournal<JournalEvent>(journalPath);
+
+// Each authenticated socket is tagged with the staff claims from its token.
+const staffBySocket = new WeakMap<WebSocket, Staff>();
+
+function authenticate(url: string | undefined): Staff | null {
+  const { searchParams } = new URL(url || "/", "http://localhost");
+  const claims = verifyToken<{ sub: unknown; name?: unknown; role: unknown }>(
+    searchParams.get("token"),
+    "kitchen-ws",
+  );
+  if (!claims) {
+    return null;
+  }
+  if (claims.role === PICKUP_DISPLAY_ROLE) {
+    return { id: String(claims.sub), name: String(claims.name || ""), role: PICKUP_DISPLAY_ROLE };
+  }
+  if (!isStaffRole(claims.role)) {
+    return null;
+  }
+  return { id: String(claims.sub), name: String(claims.name || ""), role: claims.role };
+}
+
+function send(client: WebSocket, message: KitchenSocketMessage) {
+  if (client.readyState !== WebSocket.OPEN) {
+    return;
+  }
+  const staff = staffBySocket.get(client);
+  if (!staff || !canReceive(staff.role, message.type)) {
+    return;
+  }
+  client.send(encodeFrame(message));
+}
+
+// `audience` narrows the message further than the role permissions do.
+function broadcast(message: KitchenSocketMessage, audience?: (staff: Staff) => boolean) {
+  const serialized = encodeFrame(message);
+  for (const client of wss.clients) {
+    const staff = staffBySocket.get(client);
+    if (
+      client.readyState === WebSocket.OPEN &&
+      staff &&
+      canReceive(staff.role, message.type) &&
+      (!audience || audience(staff))
+    ) {
+      client.send(serialized);
+    }
+  }
+}
+
+// Sales are grouped by the store's business day (see /admin/settings). The
+// host's timezone stands in until the settings have loaded.
+let storeClock: BusinessDayClock = {
+  timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  businessDayCutoffHour: 0,
+};
+
+function toDayKey(dateInput: Date | string) {
+  return businessDayKey(dateInput, storeClock) || businessDayKey(new Date(), storeClock);
+}
+
+function optionalTime(value: unknown) {
+  const date = typeof value === "string" ? new Date(value) : null;
+  return date && !Number.isNaN(date.getTime()) ? date.toISOString() : undefined;
+}
+
+// Refunds are stored negative so daily totals are a plain sum; journals from
+// before sales were read back from the database may hold them positive.
+function signedSale(sale: SaleRecord): SaleRecord {
+  const amount = Math.abs(sale.totalCents);
+  return { ...sale, kind: sale.kind ?? "sale", totalCents: sale.kind === "refund" ? -amount : amount };
+}
+
+// Journals written before totals moved to minor units carry a float `total`.
+function migrateSale(value: unknown) {
+  if (!value || typeof value !== "object") {
+    return value;
+  }
+  const sale = value as { total?: unknown; totalCents?: unknown };
+  if (sale.totalCents === undefined && sale.total !== undefined) {
+    return { ...sale, totalCents: Math.round((Number(sale.total) || 0) * 100) };
+  }
+  return value;
+}
+
+function applyTicket(ticket: KitchenTicket) {
+  activeTickets.set(ticket.id, ticket);
+}
+
+function rememberCompleted(ticket: KitchenTicket) {
+  completedTickets.delete(ticket.id);
+  completedTickets.set(ticket.id, ticket);
+  for (const id of completedTickets.keys()) {
+    if (completedTickets.size <= COMPLETED_HISTORY_LIMIT) {
+      break;
+    }
+    completedTickets.delete(id);
+  }
+}
+
+// Returns the ticket with its new status and timestamps.
+function applyStatus(id: string, status: KitchenTicketStatus, at?: string) {
+  const existing = activeTickets.get(id);
+  if (!existing) {
+    return null;
+  }
+  const updated = withTicketStatus(existing, status, at);
+  if (status === "done") {
+    activeTickets.delete(id);
+    rememberCompleted(updated);
+  } else {
+    activeTickets.set(id, updated);
+  }
+  return updated;
+}
+
+function findItem(ticketId: string, itemId: string) {
+  const ticket = activeTickets.get(ticketId);
+  return ticket && ticket.items.some((item) => item.id === itemId) ? ticket : null;
+}
+
+// Returns the ticket as it was and as it is after the bump.
+function applyBump(ticketId: string, itemId: string, done: boolean, at?: string) {
+  const existing = findItem(ticketId, itemId);
+  if (!existing) {
+    return null;
+  }
+  const bumped = bumpTicketItem(existing, itemId, done, at);
+  if (bumped.status === "done") {
+    activeTickets.delete(ticketId);
+    rememberCompleted(bumped);
+  } else {
+    activeTickets.set(ticketId, bumped);
+  }
+  return { before: existing, after: bumped };
+}
+
+// Returns the restored ticket, back in progress.
+function applyRecall(id: string) {
+  const completed = completedTickets.get(id);
+  if (!completed) {
+    return null;
+  }
+  completedTickets.delete(id);
+  const restored = recallTicket(completed);
+  activeTickets.set(id, restored);
+  return restored;
+}
+
+// Live-only, never on replay: a finished ticket's item times go to the
+// prep-time reports. A database hiccup costs the stats, not the board.
+function savePrepTimes(ticket: KitchenTicket) {
+  void recordPrepTimes(ticket).catch((error: Error) => {
+    console.error(`Unable to record prep times for ticket ${ticket.id}:`, error.message);
+  });
+}
+
+function dropPrepTimes(ticketId: string) {
+  void forgetPrepTimes(ticketId).catch((error: Error) => {
+    console.error(`Unable to clear prep times for ticket ${ticketId}:`, error.message);
+  });
+}
+
+// An order's round is ready once none of its station tickets is left.
+// Live-only: a waiter who misses it sees the food arrive anyway.
+function announceReady(ticket: KitchenTicket) {
+  for (const other of activeTickets.values()) {
+    if (other.receiptNo === ticket.receiptNo && other.round === ticket.round) {
+      return;
+    }
+  }
+  const notice: KitchenSocketMessage = {
+    type: "ORDER_READY",
+    payload: {
+      receiptNo: ticket.receiptNo,
+      round: ticket.round ?? 1,
+      orderType: ticket.orderType,
+      tableName: ticket.tableName,
+      readyAt: new Date().toISOString(),
+    },
+  };
+  // Tickets journaled before senders were stamped go to every seller.
+  broadcast(notice, (staff) => !SELLER_ROLES.includes(staff.role) || !ticket.sentBy || staff.id === ticket.sentBy);
+}
+
+function pickupBoard(): KitchenSocketMessage {
+  return { type: "PICKUP_BOARD", payload: buildPickupBoard(activeTickets.values(), completedTickets.values()) };
+}
+
+function applyVoid(receiptNo: number) {
+  const removed: string[] = [];
+  for (const ticket of activeTickets.values()) {
+    if (ticket.receiptNo === receiptNo) {
+      activeTickets.delete(ticket.id);
+      removed.push(ticket.id);
+    }
+  }
+  // A voided order cannot be recalled either.
+  for (const ticket of completedTickets.values()) {
+    if (ticket.receiptNo === receiptNo) {
+      completedTickets.delete(ticket.id);
+    }
+  }
+  return removed;
+}
+
+function hasSale(sale: SaleRecord) {
+  return (salesByDay.get(toDayKey(sale.createdAt)) || []).some((existing) => existing.id === sale.id);
+}
+
+function applySale(sale: SaleRecord) {
+  const day = toDayKey(sale.createdAt);
+  const daySales = salesByDay.get(day) || [];
+  if (daySales.some((existing) => existing.id === sale.id)) {
+    return false;
+  }
+  daySales.push(sale);
+  salesByDay.set(day, daySales);
+  return true;
+}
+
+function applyJournalEvent(raw: unknown) {
+  if (!raw || typeof raw !== "object") {
+    return;
+  }
+  const event = raw as Record<string, unknown>;
+  try {
+    if (event.type === "ticket") {
+      applyTicket(readTicket(event.ticket));
+    } else if (event.type === "completed") {
+      rememberCompleted({ ...readTicket(event.ticket), status: "done" });
+    } else if (event.type === "status") {
+      const status = event.status;
+      if (status === "new" || status === "in_progress" || status === "done") {
+        applyStatus(String(event.id), status, optionalTime(event.at));
+      }
+    } else if (event.type === "bump") {
+      applyBump(String(event.ticketId), String(event.itemId), event.done === true, optionalTime(event.at));
+    } else if (event.type === "recall") {
+      applyRecall(String(event.id));
+    } else if (event.type === "void") {
+      applyVoid(Number(event.receiptNo));
+    } else if (event.type === "sale") {
+      applySale(signedSale(readSale(migrateSale(event.sale))));
+    }
+  } catch (error) {
+    if (!(error instanceof SocketProtocolError)) {
+      throw error;
+    }
+    console.warn(`Skipping unusable ${String(event.type)} journal event: ${error.message}`);
+  }
+}
+
+// Regroups every kept sale after the timezone or cutoff changes.
+function regroupSales() {
+  const sales = Array.from(salesByDay.values()).flat();
+  salesByDay.clear();
+  for (const sale of sales) {
+    applySale(sale);
+  }
+}
+
+async function reloadStoreClock() {
+  try {
+    const profile = await loadStoreProfile();
+    storeClock = { timeZone: profile.timeZone, businessDayCutoffHour: profile.businessDayCutoffHour };
+    regroupSales();
+    return true;
+  } catch (error) {
+    console.error("Unable to load store settings:", error instanceof Error ? error.message : error);
+    return false;
+  }
+}
+
+function pruneSales() {
+  const cutoff = new Date();
+  cutoff.setDate(cutoff.getDate() - (salesRetentionDays - 1));
+  const cutoffKey = toDayKey(cutoff);
+  let removed = 0;
+  for (const day of salesByDay.keys()) {
+    if (day < cutoffKey) {
+      salesByDay.delete(day);
+      removed += 1;
+    }
+  }
+  return removed;
+}
+
+// Yesterday's tickets leave the recall history once the business day turns.
+function pruneCompleted() {
+  const today = toDayKey(new Date());
+  let removed = 0;
+  for (const ticket of completedTickets.values()) {
+    // Tickets finished before the server stamped times have no completedAt.
+    if (!ticket.completedAt || toDayKey(ticket.completedAt) !== today) {
+      completedTickets.delete(ticket.id);
+      removed += 1;
+    }
+  }
+  return removed;
+}
+
+function compactJournal() {
+  const events: JournalEvent[] = [];
+  for (const ticket of activeTickets.values()) {
+    events.push({ type: "ticket", ticket });
+  }
+  for (const ticket of completedTickets.values()) {
+    events.push({ type: "completed", ticket });
+  }
+  for (const daySales of salesByDay.values()) {
+    for (const sale of daySales) {
+      events.push({ type: "sale", sale });
+    }
+  }
+  journal.compact(events);
+}
+
+const replayed = journal.replay(applyJournalEvent);
+pruneSales();
+pruneCompleted();
+compactJournal();
+console.log(
+  `Restored ${activeTickets.size} ticket(s), ${completedTickets.size} completed ticket(s) and ${salesByDay.size} sales day(s) from ${replayed} journal event(s).`,
+);
+
+setInterval(() => {
+  // Both run every sweep; `||` would skip the second.
+  const pruned = pruneSales() + pruneCompleted();
+  if (pruned > 0) {
+    compactJournal();
+  }
+}, RETENTION_SWEEP_MS).unref();
+
+void reloadStoreClock().then((loaded) => {
+  if (loaded) {
+    console.log(`Business days run in ${storeClock.timeZone} from ${storeClock.businessDayCutoffHour}:00.`);
+  }
+});
+
+const wss = new WebSocketServer({ port, host });
+
+function completedSnapshot(): KitchenSocketMessage {
+  const today = toDayKey(new Date());
+  return {
+    type: "COMPLETED_SNAPSHOT",
+    payload: Array.from(completedTickets.values())
+      .filter((ticket) => ticket.completedAt && toDayKey(ticket.completedAt) === today)
+      .reverse(),
+  };
+}
+
+function salesSnapshot(): KitchenSocketMessage {
+  const day = toDayKey(new Date());
+  return {
+    type: "SALES_SNAPSHOT",
+    payload: {
+      day,
+      sales: salesByDay.get(day) || [],
+    },
+  };
+}
+
+function notFound(message: string): never {
+  throw new SocketProtocolError(message, "not_found");
+}
+
+// Applies a frame the sender may send. Refusals throw a SocketProtocolError,
+// which the caller turns into an ERROR reply; anything else gets an ACK.
+async function handleMessage(staff: Staff, message: KitchenSocketMessage) {
+  switch (message.type) {
+    case "NEW_ORDER": {
+      // Each station only sees its own items, e.g. drinks on the bar. Waiters
+      // resend queued tickets after a reconnect, so one already on the board or
+      // done today is acknowledged but not fired again.
+      const stationTickets = splitTicketByStation({ ...message.payload, sentBy: staff.id }).filter(
+        (ticket) => !activeTickets.has(ticket.id) && !completedTickets.has(ticket.id),
+      );
+      if (stationTickets.length === 0) {
+        return;
+      }
+      for (const stationTicket of stationTickets) {
+        journal.append({ type: "ticket", ticket: stationTicket });
+        applyTicket(stationTicket);
+        broadcast({ type: "NEW_ORDER", payload: stationTicket });
+      }
+      broadcast(pickupBoard());
+      return;
+    }
+
+    case "UPDATE_ORDER_STATUS": {
+      const { id, status } = message.payload;
+      if (!activeTickets.has(id)) {
+        notFound(`Ticket ${id} is not on the board.`);
+      }
+      // The server's clock stamps transitions so every tablet agrees on them.
+      const at = new Date().toISOString();
+      journal.append({ type: "status", id, status, at });
+      const updated = applyStatus(id, status, at)!;
+      broadcast({ type: "UPDATE_ORDER_STATUS", payload: { id, status, at } });
+      if (status === "done") {
+        savePrepTimes(updated);
+        announceReady(updated);
+        broadcast(pickupBoard());
+      }
+      return;
+    }
+
+    case "BUMP_ITEM": {
+      const { ticketId, itemId, done } = message.payload;
+      if (!findItem(ticketId, itemId)) {
+        notFound(`Item ${itemId} is not on ticket ${ticketId}.`);
+      }
+      const at = new Date().toISOString();
+      journal.append({ type: "bump", ticketId, itemId, done, at });
+      const { before, after } = applyBump(ticketId, itemId, done, at)!;
+      broadcast({ type: "BUMP_ITEM", payload: { ticketId, itemId, done, at } });
+      if (after.status !== before.status) {
+        broadcast({ type: "UPDATE_ORDER_STATUS", payload: { id: ticketId, status: after.status, at } });
+      }
+      if (after.status === "done") {
+        savePrepTimes(after);
+        announceReady(after);
+        broadcast(pickupBoard());
+      }
+      return;
+    }
+
+    case "RECALL_ORDER": {
+      const { id } = message.payload;
+      if (!completedTickets.has(id)) {
+        notFound(`Ticket ${id} is not among today's completed tickets.`);
+      }
+      journal.append({ type: "recall", id });
+      const ticket = applyRecall(id)!;
+      dropPrepTimes(id);
+      broadcast({ type: "RECALL_ORDER", payload: { id, ticket } });
+      broadcast(pickupBoard());
+      return;
+    }
+
+    case "ORDER_VOIDED": {
+      const { receiptNo } = message.payload;
+      // Voids need a manager's approval, which only the database can vouch for.
+      if (!(await isVoidedOrder(receiptNo))) {
+        throw new SocketProtocolError(`Order #${receiptNo} has not been voided.`, "forbidden");
+      }
+      journal.append({ type: "void", receiptNo });
+      applyVoid(receiptNo);
+      broadcast({ type: "ORDER_VOIDED", payload: { receiptNo } });
+      broadcast(pickupBoard());
+      return;
+    }
+
+    case "LOW_STOCK": {
+      // Alerts are live-only, but rebuilt from the product row so a tablet
+      // cannot raise one for stock the database does not show as low.
+      const { productId } = message.payload;
+      const alert = await loadLowStockAlert(productId);
+      if (!alert) {
+        notFound(`Product ${productId} is not at or below its reorder level.`);
+      }
+      broadcast({ type: "LOW_STOCK", payload: alert });
+      return;
+    }
+
+    case "CATALOG_CHANGED":
+      // Live-only like LOW_STOCK: tablets that miss it refetch on reconnect.
+      broadcast({ type: "CATALOG_CHANGED", payload: message.payload });
+      return;
+
+    case "STORE_SETTINGS_CHANGED":
+      // Today's sales may fall on a different business day now, so dashboards
+      // get a fresh snapshot once the new settings are in.
+      void reloadStoreClock().then(() => {
+        broadcast({ type: "STORE_SETTINGS_CHANGED", payload: { updatedAt: new Date().toISOString() } });
+        broadcast(salesSnapshot());
+      });
+      return;
+
+    case "NEW_SALE":
+    case "NEW_REFUND": {
+      // The frame only names the order: totals, refunds and sellers are read
+      // back from its committed payments, never taken from the tablet.
+      const { receiptNo } = message.payload;
+      const kind = message.type === "NEW_REFUND" ? "refund" : "sale";
+      const records = await loadSaleRecords(receiptNo);
+      if (!records.some((sale) => sale.kind === kind)) {
+        notFound(`Order #${receiptNo} has no recorded ${kind}.`);
+      }
+      // Waiters resend queued sales after a reconnect; a repeat is acknowledged but not recorded twice.
+      for (const sale of records.filter((record) => !hasSale(record))) {
+        journal.append({ type: "sale", sale });
+        applySale(sale);
+        broadcast({ type: sale.kind === "refund" ? "NEW_REFUND" : "NEW_SALE", payload: sale });
+      }
+      return;
+    }
+
+    default:
+      // Server-only types never pass canSend.
+      throw new SocketProtocolError(`${message.type} is sent by the server only.`, "forbidden");
+  }
+}
+
+wss.on("error", (error) => {
+  console.error("Kitchen WebSocket server error:", error.message);
+});
+
+wss.on("connection", (socket, request) => {
+  const staff = authenticate(request.url);
+  if (!staff) {
+    socket.close(SOCKET_UNAUTHORIZED_CODE, "Unauthorized");
+    return;
+  }
+  staffBySocket.set(socket, staff);
+
+  send(socket, { type: "ORDER_SNAPSHOT", payload: Array.from(activeTickets.values()) });
+  send(socket, completedSnapshot());
+  send(socket, pickupBoard());
+  send(socket, salesSnapshot());
+
+  // Frames are handled one at a time, in the order they arrived, even when
+  // one waits on the database.
+  let handling = Promise.resolve();
+  const handleFrame = async (rawMessage: RawData) => {
+    let decoded: DecodedFrame;
+    try {
+      decoded = decodeFrame(rawMessage.toString());
+    } catch (error) {
+      console.error(`Unable to decode a frame from ${staff.role} ${staff.id}:`, error);
+      send(socket, { type: "ERROR", payload: { code: "internal", message: "The frame could not be read." } });
+      return;
+    }
+    if (!decoded.ok) {
+      send(socket, { type: "ERROR", payload: decoded.error });
+      return;
+    }
+    const { message, ref } = decoded;
+    if (!canSend(staff.role, message.type)) {
+      console.warn(`Rejected ${message.type} from ${staff.role} ${staff.id}`);
+      send(socket, {
+        type: "ERROR",
+        payload: { ref, type: message.type, code: "forbidden", message: `${staff.role} may not send ${message.type}.` },
+      });
+      return;
+    }
+
+    try {
+      await handleMessage(staff, message);
+    } catch (error) {
+      if (error instanceof SocketProtocolError) {
+        send(socket, { type: "ERROR", payload: { ref, type: message.type, code: error.code, message: error.message } });
+        return;
+      }
+      // One bad frame or a full disk must not take the board down for every station.
+      console.error(`Unable to apply ${message.type} from ${staff.role} ${staff.id}:`, error);
+      send(socket, {
+        type: "ERROR",
+        payload: { ref, type: message.type, code: "internal", message: "The server hit an error; try again." },
+      });
+      return;
+    }
+    send(socket, { type: "ACK", payload: { ref, type: message.type } });
+  };
+
+  socket.on("message", (rawMessage) => {
+    handling = handling.then(() => handleFrame(rawMessage));
+  });
+});
+
+console.log(`Kitchen WebSocket server running on ws://${host}:${port}`);
@@ -0,0 +1,75 @@
+// Renders a sample receipt in every format and prints it to the in-memory
+// printer, so receipt layout can be checked without a database or printer.
+// Exits non-zero when a rendering is missing something it must contain.
+import { formatMoney } from "../src/lib/money";
+import { createMemoryPrinter } from "../src/lib/printers";
+import { renderReceiptEscPos, renderReceiptHtml, renderReceiptText, type ReceiptDocument } from "../src/lib/receipts";
+import { DEFAULT_STORE_PROFILE } from "../src/lib/store-settings";
+
+const sample: ReceiptDocument = {
+  store: {
+    ...DEFAULT_STORE_PROFILE,
+    displayName: "Sample Cafe",
+    address: "12 Market Street\nSpringfield",
+    receiptHeader: "Thank you for visiting!",
+    receiptFooter: "Wi-Fi: samplecafe",
+  },
+  orderNumber: 1042,
+  orderType: "DINE_IN",
+  tableName: "T4",
+  status: "PAID",
+  cashierName: "Sam Seller",
+  notes: "No onions on the sandwich",
+  createdAt: "2026-01-15T12:30:00.000Z",
+  lines: [
+    { name: "Latte", quantity: 2, modifiers: ["Oat milk"], notes: null, lineTotalCents: 1000, promotionCents: 0 },
+    { name: "Club Sandwich", quantity: 1, modifiers: [], notes: "No onions", lineTotalCents: 895, promotionCents: 100 },
+  ],
+  subtotalCents: 1895,
+  promotionCents: 100,
+  discountName: "Staff 10%",
+  discountCents: 180,
+  taxInclusive: false,
+  taxLines: [{ name: "Sales tax", rateBasisPoints: 825, taxableCents: 1615, taxCents: 133 }],
+  totalCents: 1748,
+  payments: [{ method: "CARD", amountCents: 1748 }],
+  refundedCents: 0,
+  reprintedAt: null,
+};
+
+async function main() {
+  const total = formatMoney(sample.totalCents, sample.store.money);
+  const text = renderReceiptText(sample);
+  const html = renderReceiptHtml(sample);
+  const printer = createMemoryPrinter();
+  await printer.print(renderReceiptEscPos(sample));
+  const [job] = printer.jobs;
+
+  console.log(text);
+  console.log(`ESC/POS job: ${job.length} bytes sent to the ${printer.name} printer.`);
+
+  const problems: string[] = [];
+  if (!text.includes(total) || !html.includes(total)) {
+    problems.push(`the total ${total} is missing from the text or HTML receipt`);
+  }
+  if (!html.includes(sample.store.displayName)) {
+    problems.push("the HTML receipt has no store name");
+  }
+  if (job[0] !== 0x1b || job[1] !== 0x40) {
+    problems.push("the ESC/POS job does not start by initializing the printer");
+  }
+  if (!Buffer.from(job).toString("latin1").includes(total)) {
+    problems.push("the ESC/POS job does not print the total");
+  }
+  if (job[job.length - 4] !== 0x1d || job[job.length - 3] !== 0x56) {
+    problems.push("the ESC/POS job does not end with a cut");
+  }
+
+  if (problems.length > 0) {
+    console.error(`Sample receipt check failed: ${problems.join("; ")}.`);
+    process.exit(1);
+  }
+  console.log("Sample receipt rendered in every format.");
+}
+
+void main();
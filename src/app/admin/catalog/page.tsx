@@ -0,0 +1,1046 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  fetchKitchenSocketGrant,
+  getKitchenSocketUrl,
+  withSocketToken,
+  type KitchenSocketMessage,
+} from "../../../lib/kitchen-socket";
+import {
+  DEFAULT_MONEY_FORMAT,
+  fetchMoneyFormat,
+  formatMoney,
+  formatMoneyInput,
+  parseMoney,
+  type MoneyFormat,
+} from "../../../lib/money";
+import { DEFAULT_PREP_STATION, PREP_STATION_LABELS, PREP_STATIONS, type PrepStation } from "../../../lib/prep-stations";
+import { formatMinute, PROMOTION_TYPES, type PromotionType } from "../../../lib/promotions";
+import { encodeFrame } from "../../../lib/socket-protocol";
+import { formatTaxRate } from "../../../lib/tax";
+
+type Entity =
+  | "categories"
+  | "products"
+  | "modifier-groups"
+  | "modifiers"
+  | "discounts"
+  | "promotions"
+  | "tax-profiles"
+  | "tables";
+
+type Tab = "categories" | "products" | "modifiers" | "discounts" | "promotions" | "tax" | "tables";
+
+type Row = { id: string; name: string; isActive: boolean } & Record<string, unknown>;
+
+type AdminCatalog = {
+  categories: Row[];
+  products: Row[];
+  modifierGroups: Row[];
+  modifiers: Row[];
+  discounts: Row[];
+  promotions: Row[];
+  taxProfiles: Row[];
+  tables: Row[];
+};
+
+type FieldKind =
+  | "text"
+  | "money"
+  | "optionalMoney"
+  | "count"
+  | "flag"
+  | "category"
+  | "product"
+  | "group"
+  | "taxProfile"
+  | "discountValue"
+  | "rate"
+  | "optionalRate"
+  | "optionalCount"
+  | "promotionType"
+  | "prepStation"
+  | "days"
+  | "time"
+  | "scope";
+
+type FieldSpec = {
+  key: string;
+  label: string;
+  kind: FieldKind;
+  placeholder?: string;
+  fallback?: string | boolean;
+  /** Only shown while the draft's promotion type matches. */
+  forType?: PromotionType;
+};
+
+/** One "Applies to" row of a promotion draft; target is "product:<id>" or "category:<id>". */
+type ScopeDraft = { target: string; quantity: string };
+
+type Draft = Record<string, string | boolean>;
+
+type Editor = { entity: Entity; id: string | null; draft: Draft };
+
+const TABS: Array<{ id: Tab; label: string }> = [
+  { id: "categories", label: "Categories" },
+  { id: "products", label: "Products" },
+  { id: "modifiers", label: "Modifiers" },
+  { id: "discounts", label: "Discounts" },
+  { id: "promotions", label: "Promotions" },
+  { id: "tax", label: "Tax" },
+  { id: "tables", label: "Tables" },
+];
+
+const ENTITY_LABELS: Record<Entity, string> = {
+  categories: "category",
+  products: "product",
+  "modifier-groups": "modifier group",
+  modifiers: "modifier",
+  discounts: "discount",
+  promotions: "promotion",
+  "tax-profiles": "tax profile",
+  tables: "table",
+};
+
+const PROMOTION_TYPE_LABELS: Record<PromotionType, string> = {
+  COMBO_PRICE: "Combo price",
+  CATEGORY_PERCENT: "Percent off",
+  BUY_X_GET_Y: "Buy X get Y free",
+};
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const FIELDS: Record<Entity, FieldSpec[]> = {
+  categories: [
+    { key: "name", label: "Name", kind: "text" },
+    { key: "taxProfileId", label: "Tax profile", kind: "taxProfile" },
+    { key: "prepWarnMinutes", label: "Ticket amber after (min)", kind: "optionalCount", placeholder: "5" },
+    { key: "prepLateMinutes", label: "Ticket red after (min)", kind: "optionalCount", placeholder: "10" },
+    { key: "isActive", label: "Active", kind: "flag", fallback: true },
+  ],
+  products: [
+    { key: "name", label: "Name", kind: "text" },
+    { key: "categoryId", label: "Category", kind: "category" },
+    { key: "taxProfileId", label: "Tax profile", kind: "taxProfile" },
+    { key: "prepStation", label: "Prep station", kind: "prepStation", fallback: DEFAULT_PREP_STATION },
+    { key: "priceCents", label: "Price", kind: "money", placeholder: "4.50" },
+    { key: "costCents", label: "Cost", kind: "optionalMoney", placeholder: "Optional" },
+    { key: "sku", label: "SKU", kind: "text", placeholder: "Optional, must be unique" },
+    { key: "imageUrl", label: "Image URL", kind: "text", placeholder: "https://... or /images/..." },
+    { key: "description", label: "Description", kind: "text" },
+    { key: "trackStock", label: "Track stock", kind: "flag", fallback: false },
+    { key: "reorderLevel", label: "Reorder at", kind: "count", fallback: "0" },
+    { key: "isActive", label: "Active", kind: "flag", fallback: true },
+  ],
+  "modifier-groups": [
+    { key: "name", label: "Name", kind: "text", placeholder: "e.g. Milk Options" },
+    { key: "isRequired", label: "Required", kind: "flag", fallback: false },
+    { key: "minSelect", label: "Min picks", kind: "count", fallback: "0" },
+    { key: "maxSelect", label: "Max picks", kind: "count", fallback: "1" },
+    { key: "isActive", label: "Active", kind: "flag", fallback: true },
+  ],
+  modifiers: [
+    { key: "name", label: "Name", kind: "text", placeholder: "e.g. Oat Milk" },
+    { key: "productId", label: "Product", kind: "product" },
+    { key: "modifierGroupId", label: "Group", kind: "group" },
+    { key: "groupName", label: "Group name (if no group)", kind: "text" },
+    { key: "isRequired", label: "Required (if no group)", kind: "flag", fallback: false },
+    { key: "minSelect", label: "Min picks (if no group)", kind: "count", fallback: "0" },
+    { key: "maxSelect", label: "Max picks (if no group)", kind: "count", fallback: "1" },
+    { key: "priceCents", label: "Price", kind: "money", fallback: "0.00" },
+    { key: "isActive", label: "Active", kind: "flag", fallback: true },
+  ],
+  discounts: [
+    { key: "name", label: "Name", kind: "text", placeholder: "e.g. Staff 20%" },
+    { key: "isPercent", label: "Percent off", kind: "flag", fallback: true },
+    { key: "value", label: "Value", kind: "discountValue" },
+    { key: "isActive", label: "Active", kind: "flag", fallback: true },
+  ],
+  promotions: [
+    { key: "name", label: "Name", kind: "text", placeholder: "e.g. Happy Hour" },
+    { key: "type", label: "Rule", kind: "promotionType", fallback: "CATEGORY_PERCENT" },
+    { key: "percentOff", label: "Percent off", kind: "optionalCount", forType: "CATEGORY_PERCENT" },
+    { key: "comboPriceCents", label: "Combo price", kind: "optionalMoney", forType: "COMBO_PRICE" },
+    { key: "buyQty", label: "Buy", kind: "optionalCount", forType: "BUY_X_GET_Y", placeholder: "2" },
+    { key: "getQty", label: "Get free", kind: "optionalCount", forType: "BUY_X_GET_Y", placeholder: "1" },
+    { key: "scope", label: "Applies to", kind: "scope" },
+    { key: "daysOfWeek", label: "Days (none = every day)", kind: "days" },
+    { key: "startMinute", label: "From (blank = all day)", kind: "time" },
+    { key: "endMinute", label: "Until", kind: "time" },
+    { key: "priority", label: "Priority (higher first)", kind: "count", fallback: "0" },
+    { key: "isActive", label: "Active", kind: "flag", fallback: true },
+  ],
+  "tax-profiles": [
+    { key: "name", label: "Name", kind: "text", placeholder: "e.g. Reduced food" },
+    { key: "rateBasisPoints", label: "Rate (%)", kind: "rate", placeholder: "8.25" },
+    { key: "takeoutBasisPoints", label: "Takeout rate (%)", kind: "optionalRate", placeholder: "Same as rate" },
+    { key: "deliveryBasisPoints", label: "Delivery rate (%)", kind: "optionalRate", placeholder: "Same as rate" },
+    { key: "isActive", label: "Active", kind: "flag", fallback: true },
+  ],
+  tables: [
+    { key: "name", label: "Name", kind: "text", placeholder: "e.g. T7" },
+    { key: "isActive", label: "Active", kind: "flag", fallback: true },
+  ],
+};
+
+function money(cents: unknown, format: MoneyFormat) {
+  return formatMoney(Number(cents), format);
+}
+
+function readScopeDraft(draft: Draft): ScopeDraft[] {
+  try {
+    const rows = JSON.parse(String(draft.scope || "[]")) as ScopeDraft[];
+    return Array.isArray(rows) ? rows : [];
+  } catch {
+    return [];
+  }
+}
+
+function describePromotion(row: Row, format: MoneyFormat) {
+  const days = Array.isArray(row.daysOfWeek) && row.daysOfWeek.length > 0
+    ? row.daysOfWeek.map((day) => WEEKDAYS[Number(day)]).join(", ")
+    : "Every day";
+  const hours =
+    typeof row.startMinute === "number" && typeof row.endMinute === "number"
+      ? `${formatMinute(row.startMinute)}-${formatMinute(row.endMinute)}`
+      : "all day";
+  const rule =
+    row.type === "COMBO_PRICE"
+      ? `combo for ${money(row.comboPriceCents, format)}`
+      : row.type === "BUY_X_GET_Y"
+        ? `buy ${row.buyQty} get ${row.getQty} free`
+        : `${row.percentOff}% off`;
+  return `${rule}, ${days} ${hours}`;
+}
+
+// Money fields are edited as major-unit text in the store currency and sent
+// back as integer minor units.
+function toDraft(entity: Entity, row: Row | null, format: MoneyFormat): Draft {
+  const draft: Draft = {};
+  for (const field of FIELDS[entity]) {
+    const value = row?.[field.key];
+    if (field.kind === "days") {
+      draft[field.key] = Array.isArray(value) ? value.join(",") : "";
+    } else if (field.kind === "time") {
+      draft[field.key] = typeof value === "number" ? formatMinute(value) : "";
+    } else if (field.kind === "scope") {
+      const scope = Array.isArray(value) ? (value as Array<Record<string, unknown>>) : [];
+      draft[field.key] = JSON.stringify(
+        scope.map((entry) => ({
+          target: entry.productId ? `product:${entry.productId}` : `category:${entry.categoryId}`,
+          quantity: String(entry.quantity ?? 1),
+        })),
+      );
+    } else if (field.kind === "flag") {
+      draft[field.key] = typeof value === "boolean" ? value : Boolean(field.fallback);
+    } else if (field.kind === "money" || field.kind === "optionalMoney") {
+      draft[field.key] =
+        typeof value === "number" ? formatMoneyInput(value, format) : String(field.fallback ?? "");
+    } else if (field.kind === "rate" || field.kind === "optionalRate") {
+      draft[field.key] = typeof value === "number" ? String(value / 100) : "";
+    } else if (field.kind === "discountValue") {
+      const isPercent = row ? row.isPercent === true : true;
+      draft[field.key] = typeof value === "number" ? (isPercent ? String(value) : formatMoneyInput(value, format)) : "";
+    } else {
+      draft[field.key] = value === null || value === undefined ? String(field.fallback ?? "") : String(value);
+    }
+  }
+  return draft;
+}
+
+function toBody(entity: Entity, draft: Draft, format: MoneyFormat) {
+  const body: Record<string, unknown> = {};
+  for (const field of FIELDS[entity]) {
+    const value = draft[field.key];
+    const text = typeof value === "string" ? value.trim() : "";
+    if (field.kind === "flag") {
+      body[field.key] = value === true;
+    } else if (field.kind === "money") {
+      body[field.key] = parseMoney(text, format);
+    } else if (field.kind === "optionalMoney") {
+      body[field.key] = text ? parseMoney(text, format) : null;
+    } else if (field.kind === "optionalRate") {
+      body[field.key] = text ? Math.round(Number(text) * 100) : null;
+    } else if (field.kind === "rate") {
+      body[field.key] = Math.round(Number(text) * 100);
+    } else if (field.kind === "count") {
+      body[field.key] = Number(text);
+    } else if (field.kind === "optionalCount") {
+      body[field.key] = text ? Number(text) : null;
+    } else if (field.kind === "days") {
+      body[field.key] = text ? text.split(",").map(Number) : [];
+    } else if (field.kind === "time") {
+      const [hours, minutes] = text.split(":").map(Number);
+      body[field.key] = text ? hours * 60 + minutes : null;
+    } else if (field.kind === "scope") {
+      body[field.key] = readScopeDraft(draft).map((entry) => {
+        const [kind, id] = entry.target.split(":");
+        return {
+          productId: kind === "product" ? id : null,
+          categoryId: kind === "category" ? id : null,
+          quantity: Number(entry.quantity) || 1,
+        };
+      });
+    } else if (field.kind === "discountValue") {
+      body[field.key] = draft.isPercent === true ? Number(text) : parseMoney(text, format);
+    } else {
+      body[field.key] = text || null;
+    }
+  }
+  return body;
+}
+
+function sendAnnouncement(ws: WebSocket) {
+  const message: KitchenSocketMessage = {
+    type: "CATALOG_CHANGED",
+    payload: { updatedAt: new Date().toISOString() },
+  };
+  ws.send(encodeFrame(message));
+}
+
+export default function CatalogPage() {
+  const [catalog, setCatalog] = useState<AdminCatalog | null>(null);
+  const [tab, setTab] = useState<Tab>("categories");
+  const [editor, setEditor] = useState<Editor | null>(null);
+  const [statusMessage, setStatusMessage] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [categoryOrder, setCategoryOrder] = useState<string[]>([]);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [moneyFormat, setMoneyFormat] = useState<MoneyFormat>(DEFAULT_MONEY_FORMAT);
+
+  const socketRef = useRef<WebSocket | null>(null);
+  const reconnectTimerRef = useRef<number | null>(null);
+  // Set when a change was saved while the socket was down; announced on reconnect.
+  const pendingAnnouncementRef = useRef(false);
+
+  const refreshCatalog = useCallback(async () => {
+    try {
+      const response = await fetch("/api/admin/catalog", { cache: "no-store" });
+      const payload = (await response.json()) as AdminCatalog & { error?: string };
+      if (!response.ok || !payload.categories) {
+        setStatusMessage(payload.error || "Unable to load the catalog.");
+        return;
+      }
+      setCatalog(payload);
+      setCategoryOrder(payload.categories.map((category) => category.id));
+    } catch {
+      setStatusMessage("Unable to reach the server.");
+    }
+  }, []);
+
+  useEffect(() => {
+    void refreshCatalog();
+  }, [refreshCatalog]);
+
+  useEffect(() => {
+    void fetchMoneyFormat().then(setMoneyFormat);
+  }, []);
+
+  useEffect(() => {
+    let disposed = false;
+
+    const connect = async () => {
+      if (disposed) {
+        return;
+      }
+      const grant = await fetchKitchenSocketGrant();
+      if (disposed) {
+        return;
+      }
+      if (!grant) {
+        reconnectTimerRef.current = window.setTimeout(() => void connect(), 5000);
+        return;
+      }
+
+      const ws = new WebSocket(withSocketToken(getKitchenSocketUrl(), grant.token));
+      socketRef.current = ws;
+
+      ws.onopen = () => {
+        if (disposed) {
+          ws.close();
+          return;
+        }
+        if (pendingAnnouncementRef.current) {
+          pendingAnnouncementRef.current = false;
+          sendAnnouncement(ws);
+        }
+      };
+
+      ws.onclose = () => {
+        if (!disposed) {
+          reconnectTimerRef.current = window.setTimeout(() => void connect(), 1500);
+        }
+      };
+    };
+
+    void connect();
+    return () => {
+      disposed = true;
+      if (reconnectTimerRef.current) {
+        window.clearTimeout(reconnectTimerRef.current);
+      }
+      if (socketRef.current) {
+        socketRef.current.close();
+      }
+    };
+  }, []);
+
+  // Tablets refetch the menu when told; an offline editor tells them on reconnect.
+  const announceCatalogChange = () => {
+    const socket = socketRef.current;
+    if (!socket || socket.readyState !== WebSocket.OPEN) {
+      pendingAnnouncementRef.current = true;
+      return false;
+    }
+    sendAnnouncement(socket);
+    return true;
+  };
+
+  const save = async (entity: Entity, id: string | null, body: Record<string, unknown>, done: string) => {
+    if (isSubmitting) {
+      return false;
+    }
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(id ? `/api/admin/catalog/${entity}/${id}` : `/api/admin/catalog/${entity}`, {
+        method: id ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const payload = (await response.json()) as { error?: string };
+      if (!response.ok) {
+        setStatusMessage(payload.error || `Unable to save the ${ENTITY_LABELS[entity]}.`);
+        return false;
+      }
+      const announced = announceCatalogChange();
+      setStatusMessage(`${done}${announced ? "" : " Tablets will refresh when the socket reconnects."}`);
+      await refreshCatalog();
+      return true;
+    } catch {
+      setStatusMessage("Unable to reach the server. Nothing was saved.");
+      return false;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const submitEditor = async () => {
+    if (!editor) {
+      return;
+    }
+    const name = String(editor.draft.name ?? "").trim();
+    const saved = await save(
+      editor.entity,
+      editor.id,
+      toBody(editor.entity, editor.draft, moneyFormat),
+      `${editor.id ? "Saved" : "Added"} ${name}.`,
+    );
+    if (saved) {
+      setEditor(null);
+    }
+  };
+
+  const toggleActive = (entity: Entity, row: Row) => {
+    const body = toBody(entity, toDraft(entity, row, moneyFormat), moneyFormat);
+    body.isActive = !row.isActive;
+    void save(entity, row.id, body, `${row.name} ${row.isActive ? "retired" : "restored"}.`);
+  };
+
+  const dropCategory = async (targetId: string) => {
+    if (!draggedId || draggedId === targetId) {
+      setDraggedId(null);
+      return;
+    }
+    const next = categoryOrder.filter((id) => id !== draggedId);
+    next.splice(next.indexOf(targetId), 0, draggedId);
+    setCategoryOrder(next);
+    setDraggedId(null);
+    try {
+      const response = await fetch("/api/admin/catalog/category-order", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ categoryIds: next }),
+      });
+      const payload = (await response.json()) as { error?: string };
+      if (!response.ok) {
+        setStatusMessage(payload.error || "Unable to reorder categories.");
+        await refreshCatalog();
+        return;
+      }
+      const announced = announceCatalogChange();
+      setStatusMessage(`Category order saved.${announced ? "" : " Tablets will refresh when the socket reconnects."}`);
+      await refreshCatalog();
+    } catch {
+      setStatusMessage("Unable to reach the server. The order was not saved.");
+      await refreshCatalog();
+    }
+  };
+
+  const nameOf = (rows: Row[] | undefined, id: unknown) =>
+    rows?.find((row) => row.id === id)?.name ?? "-";
+
+  const openEditor = (entity: Entity, row: Row | null) =>
+    setEditor({ entity, id: row?.id ?? null, draft: toDraft(entity, row, moneyFormat) });
+
+  const setDraftValue = (key: string, value: string | boolean) =>
+    setEditor((current) => (current ? { ...current, draft: { ...current.draft, [key]: value } } : current));
+
+  const orderedCategories = categoryOrder
+    .map((id) => catalog?.categories.find((category) => category.id === id))
+    .filter((category): category is Row => Boolean(category));
+
+  const renderField = (field: FieldSpec) => {
+    if (!editor) {
+      return null;
+    }
+    if (field.forType && editor.draft.type !== field.forType) {
+      return null;
+    }
+    const value = editor.draft[field.key];
+    if (field.kind === "promotionType") {
+      return (
+        <label key={field.key} className="block text-xs font-semibold uppercase text-slate-500">
+          {field.label}
+          <select
+            value={String(value)}
+            onChange={(event) => setDraftValue(field.key, event.target.value)}
+            className="mt-1 h-10 w-full rounded-md border border-slate-300 px-2 text-sm font-normal normal-case text-slate-900 outline-none"
+          >
+            {PROMOTION_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {PROMOTION_TYPE_LABELS[type]}
+              </option>
+            ))}
+          </select>
+        </label>
+      );
+    }
+    if (field.kind === "prepStation") {
+      return (
+        <label key={field.key} className="block text-xs font-semibold uppercase text-slate-500">
+          {field.label}
+          <select
+            value={String(value)}
+            onChange={(event) => setDraftValue(field.key, event.target.value)}
+            className="mt-1 h-10 w-full rounded-md border border-slate-300 px-2 text-sm font-normal normal-case text-slate-900 outline-none"
+          >
+            {PREP_STATIONS.map((station) => (
+              <option key={station} value={station}>
+                {PREP_STATION_LABELS[station]}
+              </option>
+            ))}
+          </select>
+        </label>
+      );
+    }
+    if (field.kind === "days") {
+      const selected = String(value).split(",").filter(Boolean);
+      return (
+        <div key={field.key} className="text-xs font-semibold uppercase text-slate-500">
+          {field.label}
+          <div className="mt-1 flex flex-wrap gap-1">
+            {WEEKDAYS.map((label, day) => {
+              const isOn = selected.includes(String(day));
+              const next = isOn ? selected.filter((entry) => entry !== String(day)) : [...selected, String(day)];
+              return (
+                <button
+                  key={label}
+                  type="button"
+                  onClick={() => setDraftValue(field.key, next.sort().join(","))}
+                  className={`min-h-9 rounded-md px-2 text-xs font-semibold normal-case ${
+                    isOn ? "bg-[#4F7CFF] text-white" : "bg-slate-100 text-slate-700"
+                  }`}
+                >
+                  {label}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      );
+    }
+    if (field.kind === "time") {
+      return (
+        <label key={field.key} className="block text-xs font-semibold uppercase text-slate-500">
+          {field.label}
+          <input
+            type="time"
+            value={String(value)}
+            onChange={(event) => setDraftValue(field.key, event.target.value)}
+            className="mt-1 h-10 w-full rounded-md border border-slate-300 px-2 text-sm font-normal normal-case text-slate-900 outline-none"
+          />
+        </label>
+      );
+    }
+    if (field.kind === "scope") {
+      const rows = readScopeDraft(editor.draft);
+      const setRows = (next: ScopeDraft[]) => setDraftValue(field.key, JSON.stringify(next));
+      const isCombo = editor.draft.type === "COMBO_PRICE";
+      return (
+        <div key={field.key} className="space-y-1 text-xs font-semibold uppercase text-slate-500">
+          {field.label}
+          {rows.map((entry, index) => (
+            <div key={index} className="flex gap-1">
+              <select
+                value={entry.target}
+                onChange={(event) =>
+                  setRows(rows.map((row, at) => (at === index ? { ...row, target: event.target.value } : row)))
+                }
+                className="h-9 min-w-0 flex-1 rounded-md border border-slate-300 px-2 text-sm font-normal normal-case text-slate-900 outline-none"
+              >
+                <option value="">Choose...</option>
+                <optgroup label="Categories">
+                  {catalog?.categories.map((category) => (
+                    <option key={category.id} value={`category:${category.id}`}>
+                      Any {category.name}
+                    </option>
+                  ))}
+                </optgroup>
+                <optgroup label="Products">
+                  {catalog?.products.map((product) => (
+                    <option key={product.id} value={`product:${product.id}`}>
+                      {product.name}
+                    </option>
+                  ))}
+                </optgroup>
+              </select>
+              {isCombo ? (
+                <input
+                  value={entry.quantity}
+                  onChange={(event) =>
+                    setRows(rows.map((row, at) => (at === index ? { ...row, quantity: event.target.value } : row)))
+                  }
+                  inputMode="numeric"
+                  aria-label="Quantity in the combo"
+                  className="h-9 w-12 rounded-md border border-slate-300 px-2 text-sm font-normal text-slate-900 outline-none"
+                />
+              ) : null}
+              <button
+                type="button"
+                onClick={() => setRows(rows.filter((_, at) => at !== index))}
+                className="h-9 rounded-md bg-red-50 px-2 text-xs font-semibold text-red-700"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => setRows([...rows, { target: "", quantity: "1" }])}
+            className="rounded-md bg-slate-100 px-3 py-1 text-xs font-semibold normal-case text-slate-700"
+          >
+            Add {isCombo ? "combo item" : "product or category"}
+          </button>
+        </div>
+      );
+    }
+    if (field.kind === "flag") {
+      return (
+        <label key={field.key} className="flex items-center gap-2 text-sm text-slate-700">
+          <input
+            type="checkbox"
+            checked={value === true}
+            onChange={(event) => setDraftValue(field.key, event.target.checked)}
+            className="h-4 w-4"
+          />
+          {field.label}
+        </label>
+      );
+    }
+
+    const options =
+      field.kind === "category"
+        ? catalog?.categories
+        : field.kind === "product"
+          ? catalog?.products
+          : field.kind === "group"
+            ? catalog?.modifierGroups
+            : field.kind === "taxProfile"
+              ? catalog?.taxProfiles
+              : null;
+    if (options) {
+      return (
+        <label key={field.key} className="block text-xs font-semibold uppercase text-slate-500">
+          {field.label}
+          <select
+            value={String(value)}
+            onChange={(event) => setDraftValue(field.key, event.target.value)}
+            className="mt-1 h-10 w-full rounded-md border border-slate-300 px-2 text-sm font-normal normal-case text-slate-900 outline-none"
+          >
+            <option value="">
+              {field.kind === "product"
+                ? "Choose a product"
+                : field.kind === "taxProfile"
+                  ? editor.entity === "products"
+                    ? "Same as category"
+                    : "Store default"
+                  : "None"}
+            </option>
+            {options.map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.name}
+                {option.isActive ? "" : " (retired)"}
+              </option>
+            ))}
+          </select>
+        </label>
+      );
+    }
+
+    const label =
+      field.kind === "discountValue" ? (editor.draft.isPercent === true ? "Percent (0-100)" : "Amount ($)") : field.label;
+    return (
+      <label key={field.key} className="block text-xs font-semibold uppercase text-slate-500">
+        {label}
+        <input
+          value={String(value)}
+          onChange={(event) => setDraftValue(field.key, event.target.value)}
+          inputMode={field.kind === "text" ? undefined : "decimal"}
+          placeholder={field.placeholder}
+          className="mt-1 h-10 w-full rounded-md border border-slate-300 px-2 text-sm font-normal normal-case text-slate-900 outline-none"
+        />
+      </label>
+    );
+  };
+
+  const rowActions = (entity: Entity, row: Row) => (
+    <td className="px-3 py-2 text-right">
+      <button
+        type="button"
+        onClick={() => openEditor(entity, row)}
+        className="mr-2 rounded-md bg-slate-100 px-3 py-1 text-xs font-semibold text-slate-700"
+      >
+        Edit
+      </button>
+      <button
+        type="button"
+        onClick={() => toggleActive(entity, row)}
+        disabled={isSubmitting}
+        className={`rounded-md px-3 py-1 text-xs font-semibold disabled:opacity-50 ${
+          row.isActive ? "bg-red-50 text-red-700" : "bg-green-50 text-[#2E7D32]"
+        }`}
+      >
+        {row.isActive ? "Retire" : "Restore"}
+      </button>
+    </td>
+  );
+
+  const nameCell = (row: Row, detail?: string) => (
+    <td className="px-3 py-2">
+      <span className={`font-semibold ${row.isActive ? "text-slate-700" : "text-slate-400 line-through"}`}>
+        {row.name}
+      </span>
+      {detail ? <span className="ml-2 text-xs text-slate-400">{detail}</span> : null}
+    </td>
+  );
+
+  const newButton = (entity: Entity) => (
+    <button
+      type="button"
+      onClick={() => openEditor(entity, null)}
+      className="rounded-md bg-[#4F7CFF] px-3 py-2 text-xs font-semibold text-white"
+    >
+      New {ENTITY_LABELS[entity]}
+    </button>
+  );
+
+  return (
+    <main
+      className="min-h-screen bg-gradient-to-br from-slate-100 via-slate-50 to-blue-50 px-4 py-6 text-slate-900 md:px-6"
+      style={{ fontFamily: '"Trebuchet MS", "Segoe UI", sans-serif' }}
+    >
+      <div className="mx-auto w-full max-w-6xl space-y-4">
+        <header className="flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-slate-200 bg-white p-4 shadow-lg">
+          <div>
+            <p className="text-xs uppercase tracking-[0.2em] text-slate-500">Admin Dashboard</p>
+            <h1 className="text-2xl font-bold">Menu &amp; Catalog</h1>
+            <p className="text-sm text-slate-500">Changes reach waiter tablets as soon as they are saved.</p>
+          </div>
+          <Link
+            href="/admin"
+            className="rounded-full bg-slate-100 px-3 py-1 text-xs font-semibold uppercase text-slate-600"
+          >
+            Back to totals
+          </Link>
+        </header>
+
+        {statusMessage ? (
+          <p className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-600">
+            {statusMessage}
+          </p>
+        ) : null}
+
+        <nav className="flex flex-wrap gap-2">
+          {TABS.map((entry) => (
+            <button
+              key={entry.id}
+              type="button"
+              onClick={() => {
+                setTab(entry.id);
+                setEditor(null);
+              }}
+              className={`min-h-10 rounded-full px-4 text-sm font-semibold ${
+                tab === entry.id ? "bg-[#4F7CFF] text-white" : "bg-white text-slate-700 shadow"
+              }`}
+            >
+              {entry.label}
+            </button>
+          ))}
+        </nav>
+
+        <section className="grid gap-4 md:grid-cols-[2fr_1fr]">
+          <div className="rounded-2xl border border-slate-200 bg-white p-4 shadow-lg">
+            {!catalog ? (
+              <p className="text-sm text-slate-500">Loading catalog...</p>
+            ) : tab === "categories" ? (
+              <>
+                <div className="flex items-center justify-between">
+                  <h2 className="text-lg font-bold text-slate-800">Categories</h2>
+                  {newButton("categories")}
+                </div>
+                <p className="mt-1 text-xs text-slate-500">Drag rows to change the order tablets show them in.</p>
+                <table className="mt-3 min-w-full text-left text-sm">
+                  <tbody>
+                    {orderedCategories.map((category) => (
+                      <tr
+                        key={category.id}
+                        draggable
+                        onDragStart={() => setDraggedId(category.id)}
+                        onDragOver={(event) => event.preventDefault()}
+                        onDrop={() => void dropCategory(category.id)}
+                        className={`cursor-move border-b border-slate-100 ${draggedId === category.id ? "opacity-50" : ""}`}
+                      >
+                        <td className="w-8 px-3 py-2 text-slate-400">::</td>
+                        {nameCell(
+                          category,
+                          `${catalog.products.filter((product) => product.categoryId === category.id).length} products${
+                            category.prepWarnMinutes !== null || category.prepLateMinutes !== null
+                              ? ` · tickets amber ${category.prepWarnMinutes ?? "default"} / red ${category.prepLateMinutes ?? "default"} min`
+                              : ""
+                          }`,
+                        )}
+                        {rowActions("categories", category)}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </>
+            ) : tab === "products" ? (
+              <>
+                <div className="flex items-center justify-between">
+                  <h2 className="text-lg font-bold text-slate-800">Products</h2>
+                  {newButton("products")}
+                </div>
+                <div className="mt-3 overflow-x-auto">
+                  <table className="min-w-full text-left text-sm">
+                    <thead>
+                      <tr className="border-b border-slate-200 text-slate-500">
+                        <th className="px-3 py-2 font-semibold">Product</th>
+                        <th className="px-3 py-2 font-semibold">Category</th>
+                        <th className="px-3 py-2 font-semibold">Station</th>
+                        <th className="px-3 py-2 font-semibold">Price</th>
+                        <th className="px-3 py-2 font-semibold">Cost</th>
+                        <th className="px-3 py-2" />
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {catalog.products.map((product) => (
+                        <tr key={product.id} className="border-b border-slate-100">
+                          {nameCell(product, product.sku ? String(product.sku) : undefined)}
+                          <td className="px-3 py-2">{nameOf(catalog.categories, product.categoryId)}</td>
+                          <td className="px-3 py-2 text-slate-500">
+                            {PREP_STATION_LABELS[product.prepStation as PrepStation] ?? "-"}
+                          </td>
+                          <td className="px-3 py-2 font-semibold">{money(product.priceCents, moneyFormat)}</td>
+                          <td className="px-3 py-2 text-slate-500">
+                            {product.costCents === null ? "-" : money(product.costCents, moneyFormat)}
+                          </td>
+                          {rowActions("products", product)}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            ) : tab === "modifiers" ? (
+              <div className="space-y-5">
+                <div>
+                  <div className="flex items-center justify-between">
+                    <h2 className="text-lg font-bold text-slate-800">Modifier Groups</h2>
+                    {newButton("modifier-groups")}
+                  </div>
+                  <table className="mt-3 min-w-full text-left text-sm">
+                    <tbody>
+                      {catalog.modifierGroups.map((group) => (
+                        <tr key={group.id} className="border-b border-slate-100">
+                          {nameCell(
+                            group,
+                            `${group.isRequired ? "required, " : ""}${group.minSelect}-${group.maxSelect} picks`,
+                          )}
+                          {rowActions("modifier-groups", group)}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <div>
+                  <div className="flex items-center justify-between">
+                    <h2 className="text-lg font-bold text-slate-800">Modifiers</h2>
+                    {newButton("modifiers")}
+                  </div>
+                  <table className="mt-3 min-w-full text-left text-sm">
+                    <thead>
+                      <tr className="border-b border-slate-200 text-slate-500">
+                        <th className="px-3 py-2 font-semibold">Modifier</th>
+                        <th className="px-3 py-2 font-semibold">Product</th>
+                        <th className="px-3 py-2 font-semibold">Price</th>
+                        <th className="px-3 py-2" />
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {catalog.modifiers.map((modifier) => (
+                        <tr key={modifier.id} className="border-b border-slate-100">
+                          {nameCell(modifier, String(modifier.groupName))}
+                          <td className="px-3 py-2">{nameOf(catalog.products, modifier.productId)}</td>
+                          <td className="px-3 py-2">{money(modifier.priceCents, moneyFormat)}</td>
+                          {rowActions("modifiers", modifier)}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            ) : tab === "discounts" ? (
+              <>
+                <div className="flex items-center justify-between">
+                  <h2 className="text-lg font-bold text-slate-800">Discounts</h2>
+                  {newButton("discounts")}
+                </div>
+                <table className="mt-3 min-w-full text-left text-sm">
+                  <tbody>
+                    {catalog.discounts.map((discount) => (
+                      <tr key={discount.id} className="border-b border-slate-100">
+                        {nameCell(discount, discount.isPercent ? `${discount.value}% off` : `${money(discount.value, moneyFormat)} off`)}
+                        {rowActions("discounts", discount)}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </>
+            ) : tab === "promotions" ? (
+              <>
+                <div className="flex items-center justify-between">
+                  <h2 className="text-lg font-bold text-slate-800">Promotions</h2>
+                  {newButton("promotions")}
+                </div>
+                <p className="mt-1 text-xs text-slate-500">
+                  Applied automatically while their hours are open. Each item gets at most one promotion.
+                </p>
+                <table className="mt-3 min-w-full text-left text-sm">
+                  <tbody>
+                    {catalog.promotions.map((promotion) => (
+                      <tr key={promotion.id} className="border-b border-slate-100">
+                        {nameCell(promotion, describePromotion(promotion, moneyFormat))}
+                        {rowActions("promotions", promotion)}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </>
+            ) : tab === "tax" ? (
+              <>
+                <div className="flex items-center justify-between">
+                  <h2 className="text-lg font-bold text-slate-800">Tax Profiles</h2>
+                  {newButton("tax-profiles")}
+                </div>
+                <p className="mt-1 text-xs text-slate-500">
+                  Assign a profile to a category or product. Anything without one uses the store default rate.
+                </p>
+                <table className="mt-3 min-w-full text-left text-sm">
+                  <thead>
+                    <tr className="border-b border-slate-200 text-slate-500">
+                      <th className="px-3 py-2 font-semibold">Profile</th>
+                      <th className="px-3 py-2 font-semibold">Dine-in</th>
+                      <th className="px-3 py-2 font-semibold">Takeout</th>
+                      <th className="px-3 py-2 font-semibold">Delivery</th>
+                      <th className="px-3 py-2" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {catalog.taxProfiles.map((profile) => {
+                      const rate = Number(profile.rateBasisPoints);
+                      const rateFor = (value: unknown) => formatTaxRate(typeof value === "number" ? value : rate);
+                      return (
+                        <tr key={profile.id} className="border-b border-slate-100">
+                          {nameCell(profile)}
+                          <td className="px-3 py-2">{formatTaxRate(rate)}</td>
+                          <td className="px-3 py-2">{rateFor(profile.takeoutBasisPoints)}</td>
+                          <td className="px-3 py-2">{rateFor(profile.deliveryBasisPoints)}</td>
+                          {rowActions("tax-profiles", profile)}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </>
+            ) : (
+              <>
+                <div className="flex items-center justify-between">
+                  <h2 className="text-lg font-bold text-slate-800">Tables</h2>
+                  {newButton("tables")}
+                </div>
+                <table className="mt-3 min-w-full text-left text-sm">
+                  <tbody>
+                    {catalog.tables.map((table) => (
+                      <tr key={table.id} className="border-b border-slate-100">
+                        {nameCell(table)}
+                        {rowActions("tables", table)}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </>
+            )}
+          </div>
+
+          <div className="space-y-3 rounded-2xl border border-slate-200 bg-white p-4 shadow-lg">
+            {editor ? (
+              <>
+                <h2 className="text-lg font-bold text-slate-800">
+                  {editor.id ? "Edit" : "New"} {ENTITY_LABELS[editor.entity]}
+                </h2>
+                {FIELDS[editor.entity].map(renderField)}
+                {editor.entity === "products" && editor.draft.trackStock === true ? (
+                  <p className="text-xs text-slate-500">Set the on-hand quantity with a count in Inventory.</p>
+                ) : null}
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setEditor(null)}
+                    className="min-h-11 flex-1 rounded-lg bg-slate-100 text-sm font-semibold text-slate-700"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => void submitEditor()}
+                    disabled={isSubmitting || !String(editor.draft.name ?? "").trim()}
+                    className="min-h-11 flex-1 rounded-lg bg-[#2E7D32] text-sm font-semibold text-white disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    {isSubmitting ? "Saving..." : "Save"}
+                  </button>
+                </div>
+              </>
+            ) : (
+              <p className="text-sm text-slate-500">
+                Choose a row to edit it, or add a new one. Retired rows stay on past receipts but leave the menu.
+              </p>
+            )}
+          </div>
+        </section>
+      </div>
+    </main>
+  );
+}
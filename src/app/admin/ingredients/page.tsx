@@ -0,0 +1,584 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+import { businessDayKey, businessDayStart } from "../../../lib/business-day";
+import { DEFAULT_STORE_PROFILE, fetchStoreProfile, type StoreProfile } from "../../../lib/store-settings";
+
+type Unit = "GRAM" | "MILLILITER" | "PIECE";
+
+type ManualType = "DELIVERY" | "WASTAGE" | "ADJUSTMENT" | "COUNT_CORRECTION";
+
+type IngredientLevel = {
+  id: string;
+  name: string;
+  unit: Unit;
+  stockQty: number;
+  ledgerQty: number;
+  isActive: boolean;
+};
+
+type RecipeLine = {
+  ingredientId: string;
+  quantity: number;
+};
+
+type RecipeBook = {
+  products: Array<{
+    id: string;
+    name: string;
+    items: RecipeLine[];
+    modifiers: Array<{ id: string; name: string; items: RecipeLine[] }>;
+  }>;
+};
+
+type IngredientUsage = {
+  ingredientId: string;
+  name: string;
+  unit: Unit;
+  theoreticalUsage: number;
+  wastage: number;
+  deliveries: number;
+  unexplainedLoss: number;
+  actualUsage: number;
+  variancePercent: number | null;
+};
+
+type RecipeTarget = { target: "product" | "modifier"; id: string; label: string; items: RecipeLine[] };
+
+type DraftLine = { ingredientId: string; quantity: string };
+
+const UNITS: Unit[] = ["GRAM", "MILLILITER", "PIECE"];
+
+const UNIT_LABELS: Record<Unit, string> = {
+  GRAM: "g",
+  MILLILITER: "ml",
+  PIECE: "pcs",
+};
+
+const MANUAL_TYPES: ManualType[] = ["COUNT_CORRECTION", "DELIVERY", "WASTAGE", "ADJUSTMENT"];
+
+const MOVEMENT_LABELS: Record<ManualType, string> = {
+  COUNT_CORRECTION: "Count",
+  DELIVERY: "Delivery",
+  WASTAGE: "Wastage",
+  ADJUSTMENT: "Adjustment",
+};
+
+
+function recipeTargets(book: RecipeBook | null): RecipeTarget[] {
+  if (!book) {
+    return [];
+  }
+  return book.products.flatMap((product) => [
+    { target: "product" as const, id: product.id, label: product.name, items: product.items },
+    ...product.modifiers.map((modifier) => ({
+      target: "modifier" as const,
+      id: modifier.id,
+      label: `${product.name} / ${modifier.name}`,
+      items: modifier.items,
+    })),
+  ]);
+}
+
+export default function IngredientsPage() {
+  const [ingredients, setIngredients] = useState<IngredientLevel[]>([]);
+  const [recipes, setRecipes] = useState<RecipeBook | null>(null);
+  const [statusMessage, setStatusMessage] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const [newName, setNewName] = useState("");
+  const [newUnit, setNewUnit] = useState<Unit>("GRAM");
+
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [movementType, setMovementType] = useState<ManualType>("COUNT_CORRECTION");
+  const [quantity, setQuantity] = useState("");
+  const [reason, setReason] = useState("");
+
+  const [recipeKey, setRecipeKey] = useState("");
+  const [draftLines, setDraftLines] = useState<DraftLine[]>([]);
+
+  const [store, setStore] = useState<StoreProfile>(DEFAULT_STORE_PROFILE);
+  const [fromDate, setFromDate] = useState(() =>
+    businessDayKey(new Date(Date.now() - 6 * 24 * 60 * 60 * 1000), DEFAULT_STORE_PROFILE),
+  );
+  const [toDate, setToDate] = useState(() => businessDayKey(new Date(), DEFAULT_STORE_PROFILE));
+  const [usage, setUsage] = useState<IngredientUsage[]>([]);
+
+  const refreshIngredients = useCallback(async () => {
+    try {
+      const response = await fetch("/api/admin/ingredients", { cache: "no-store" });
+      const payload = (await response.json()) as {
+        ingredients?: IngredientLevel[];
+        recipes?: RecipeBook;
+        error?: string;
+      };
+      if (!response.ok || !payload.ingredients || !payload.recipes) {
+        setStatusMessage(payload.error || "Unable to load ingredients.");
+        return;
+      }
+      setIngredients(payload.ingredients);
+      setRecipes(payload.recipes);
+    } catch {
+      setStatusMessage("Unable to reach the server.");
+    }
+  }, []);
+
+  const refreshUsage = useCallback(async (from: string, to: string) => {
+    // Dates are business days; the end date is inclusive on screen, so ask
+    // for everything before the next business day opens.
+    const query = new URLSearchParams({
+      from: businessDayStart(from, store).toISOString(),
+      to: businessDayStart(to, store, 1).toISOString(),
+    });
+    try {
+      const response = await fetch(`/api/admin/ingredients/usage?${query}`, { cache: "no-store" });
+      const payload = (await response.json()) as { usage?: IngredientUsage[]; error?: string };
+      if (!response.ok || !payload.usage) {
+        setStatusMessage(payload.error || "Unable to load ingredient usage.");
+        return;
+      }
+      setUsage(payload.usage);
+    } catch {
+      setStatusMessage("Unable to reach the server.");
+    }
+  }, [store]);
+
+  useEffect(() => {
+    void refreshIngredients();
+  }, [refreshIngredients]);
+
+  useEffect(() => {
+    void fetchStoreProfile().then((profile) => profile && setStore(profile));
+  }, []);
+
+  useEffect(() => {
+    if (fromDate && toDate) {
+      void refreshUsage(fromDate, toDate);
+    }
+  }, [fromDate, toDate, refreshUsage]);
+
+  const targets = recipeTargets(recipes);
+  const activeTarget = targets.find((entry) => `${entry.target}:${entry.id}` === recipeKey) ?? null;
+  const selected = ingredients.find((ingredient) => ingredient.id === selectedId) ?? null;
+  const unitFor = (ingredientId: string) => {
+    const ingredient = ingredients.find((entry) => entry.id === ingredientId);
+    return ingredient ? UNIT_LABELS[ingredient.unit] : "";
+  };
+
+  const chooseRecipe = (key: string) => {
+    setRecipeKey(key);
+    const target = targets.find((entry) => `${entry.target}:${entry.id}` === key);
+    setDraftLines(
+      (target?.items ?? []).map((item) => ({ ingredientId: item.ingredientId, quantity: String(item.quantity) })),
+    );
+  };
+
+  const createIngredient = async () => {
+    if (isSubmitting) {
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      const response = await fetch("/api/admin/ingredients", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: newName, unit: newUnit }),
+      });
+      const payload = (await response.json()) as { error?: string };
+      if (!response.ok) {
+        setStatusMessage(payload.error || "Unable to add ingredient.");
+        return;
+      }
+      setStatusMessage(`Added ${newName.trim()}.`);
+      setNewName("");
+      await refreshIngredients();
+    } catch {
+      setStatusMessage("Unable to reach the server. Nothing was added.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const submitMovement = async () => {
+    if (!selected || isSubmitting) {
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(`/api/admin/ingredients/${selected.id}/movements`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ type: movementType, quantity: Number(quantity), reason }),
+      });
+      const payload = (await response.json()) as { ingredient?: IngredientLevel; error?: string };
+      if (!response.ok || !payload.ingredient) {
+        setStatusMessage(payload.error || "Unable to record ingredient movement.");
+        return;
+      }
+      setQuantity("");
+      setReason("");
+      setStatusMessage(
+        `${selected.name} is now at ${payload.ingredient.stockQty} ${UNIT_LABELS[selected.unit]}.`,
+      );
+      await Promise.all([refreshIngredients(), refreshUsage(fromDate, toDate)]);
+    } catch {
+      setStatusMessage("Unable to reach the server. Nothing was recorded.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const saveRecipe = async () => {
+    if (!activeTarget || isSubmitting) {
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      const response = await fetch("/api/admin/recipes", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          target: activeTarget.target,
+          id: activeTarget.id,
+          items: draftLines
+            .filter((line) => line.ingredientId && line.quantity.trim())
+            .map((line) => ({ ingredientId: line.ingredientId, quantity: Number(line.quantity) })),
+        }),
+      });
+      const payload = (await response.json()) as { recipes?: RecipeBook; error?: string };
+      if (!response.ok || !payload.recipes) {
+        setStatusMessage(payload.error || "Unable to save recipe.");
+        return;
+      }
+      setRecipes(payload.recipes);
+      setStatusMessage(`Saved the recipe for ${activeTarget.label}.`);
+    } catch {
+      setStatusMessage("Unable to reach the server. The recipe was not saved.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const updateLine = (index: number, patch: Partial<DraftLine>) =>
+    setDraftLines((lines) => lines.map((line, lineIndex) => (lineIndex === index ? { ...line, ...patch } : line)));
+
+  return (
+    <main
+      className="min-h-screen bg-gradient-to-br from-slate-100 via-slate-50 to-blue-50 px-4 py-6 text-slate-900 md:px-6"
+      style={{ fontFamily: '"Trebuchet MS", "Segoe UI", sans-serif' }}
+    >
+      <div className="mx-auto w-full max-w-6xl space-y-4">
+        <header className="flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-slate-200 bg-white p-4 shadow-lg">
+          <div>
+            <p className="text-xs uppercase tracking-[0.2em] text-slate-500">Admin Dashboard</p>
+            <h1 className="text-2xl font-bold">Ingredients</h1>
+            <p className="text-sm text-slate-500">Recipes, ingredient stock and usage against what sales should have used.</p>
+          </div>
+          <div className="flex gap-2">
+            <Link
+              href="/admin/inventory"
+              className="rounded-full bg-slate-100 px-3 py-1 text-xs font-semibold uppercase text-slate-600"
+            >
+              Inventory
+            </Link>
+            <Link
+              href="/admin"
+              className="rounded-full bg-slate-100 px-3 py-1 text-xs font-semibold uppercase text-slate-600"
+            >
+              Back to totals
+            </Link>
+          </div>
+        </header>
+
+        {statusMessage ? (
+          <p className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-600">
+            {statusMessage}
+          </p>
+        ) : null}
+
+        <section className="grid gap-4 md:grid-cols-[2fr_1fr]">
+          <div className="rounded-2xl border border-slate-200 bg-white p-4 shadow-lg">
+            <h2 className="text-lg font-bold text-slate-800">Ingredient Stock</h2>
+            {ingredients.length === 0 ? (
+              <p className="mt-3 text-sm text-slate-500">No ingredients yet.</p>
+            ) : (
+              <div className="mt-3 overflow-x-auto">
+                <table className="min-w-full text-left text-sm">
+                  <thead>
+                    <tr className="border-b border-slate-200 text-slate-500">
+                      <th className="px-3 py-2 font-semibold">Ingredient</th>
+                      <th className="px-3 py-2 font-semibold">On hand</th>
+                      <th className="px-3 py-2 font-semibold">Ledger</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {ingredients.map((ingredient) => {
+                      const drift = ingredient.stockQty - ingredient.ledgerQty;
+                      return (
+                        <tr
+                          key={ingredient.id}
+                          onClick={() => setSelectedId(ingredient.id)}
+                          className={`cursor-pointer border-b border-slate-100 ${
+                            ingredient.id === selectedId ? "bg-blue-50" : "hover:bg-slate-50"
+                          }`}
+                        >
+                          <td className="px-3 py-2 font-semibold text-slate-700">{ingredient.name}</td>
+                          <td
+                            className={`px-3 py-2 font-bold ${
+                              ingredient.stockQty <= 0 ? "text-red-600" : "text-[#2E7D32]"
+                            }`}
+                          >
+                            {ingredient.stockQty} {UNIT_LABELS[ingredient.unit]}
+                          </td>
+                          <td className="px-3 py-2">
+                            {ingredient.ledgerQty}
+                            {drift !== 0 ? (
+                              <span className="ml-2 rounded-full bg-amber-100 px-2 py-0.5 text-xs font-semibold text-amber-700">
+                                off by {drift > 0 ? `+${drift}` : drift}
+                              </span>
+                            ) : null}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-4">
+            <div className="space-y-2 rounded-2xl border border-slate-200 bg-white p-4 shadow-lg">
+              <h2 className="text-lg font-bold text-slate-800">Add Ingredient</h2>
+              <input
+                value={newName}
+                onChange={(event) => setNewName(event.target.value)}
+                placeholder="Name, e.g. Oat milk"
+                className="h-10 w-full rounded-md border border-slate-300 px-2 text-sm outline-none"
+              />
+              <div className="grid grid-cols-3 gap-2">
+                {UNITS.map((unit) => (
+                  <button
+                    key={unit}
+                    type="button"
+                    onClick={() => setNewUnit(unit)}
+                    className={`min-h-10 rounded-md text-sm font-semibold ${
+                      newUnit === unit ? "bg-[#4F7CFF] text-white" : "bg-slate-100 text-slate-700"
+                    }`}
+                  >
+                    {UNIT_LABELS[unit]}
+                  </button>
+                ))}
+              </div>
+              <button
+                type="button"
+                onClick={() => void createIngredient()}
+                disabled={isSubmitting || !newName.trim()}
+                className="min-h-11 w-full rounded-lg bg-[#2E7D32] text-sm font-semibold text-white disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                Add ingredient
+              </button>
+            </div>
+
+            {selected ? (
+              <div className="space-y-2 rounded-2xl border border-slate-200 bg-white p-4 shadow-lg">
+                <h2 className="text-lg font-bold text-slate-800">Record for {selected.name}</h2>
+                <div className="grid grid-cols-2 gap-2">
+                  {MANUAL_TYPES.map((type) => (
+                    <button
+                      key={type}
+                      type="button"
+                      onClick={() => setMovementType(type)}
+                      className={`min-h-10 rounded-md text-sm font-semibold ${
+                        movementType === type ? "bg-[#4F7CFF] text-white" : "bg-slate-100 text-slate-700"
+                      }`}
+                    >
+                      {MOVEMENT_LABELS[type]}
+                    </button>
+                  ))}
+                </div>
+                <input
+                  value={quantity}
+                  onChange={(event) => setQuantity(event.target.value)}
+                  inputMode="numeric"
+                  placeholder={`Quantity in ${UNIT_LABELS[selected.unit]}`}
+                  className="h-10 w-full rounded-md border border-slate-300 px-2 text-sm outline-none"
+                />
+                <input
+                  value={reason}
+                  onChange={(event) => setReason(event.target.value)}
+                  placeholder="Reason (required)"
+                  className="h-10 w-full rounded-md border border-slate-300 px-2 text-sm outline-none"
+                />
+                <button
+                  type="button"
+                  onClick={() => void submitMovement()}
+                  disabled={isSubmitting || !quantity.trim() || !reason.trim()}
+                  className="min-h-11 w-full rounded-lg bg-[#2E7D32] text-sm font-semibold text-white disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  {isSubmitting ? "Saving..." : "Record movement"}
+                </button>
+              </div>
+            ) : null}
+          </div>
+        </section>
+
+        <section className="space-y-3 rounded-2xl border border-slate-200 bg-white p-4 shadow-lg">
+          <h2 className="text-lg font-bold text-slate-800">Recipes</h2>
+          <select
+            value={recipeKey}
+            onChange={(event) => chooseRecipe(event.target.value)}
+            className="h-10 w-full rounded-md border border-slate-300 px-2 text-sm outline-none md:w-96"
+          >
+            <option value="">Choose a product or modifier</option>
+            {targets.map((entry) => (
+              <option key={`${entry.target}:${entry.id}`} value={`${entry.target}:${entry.id}`}>
+                {entry.label}
+                {entry.items.length > 0 ? ` (${entry.items.length})` : ""}
+              </option>
+            ))}
+          </select>
+
+          {activeTarget ? (
+            <div className="space-y-2">
+              <p className="text-xs text-slate-500">
+                {activeTarget.target === "product"
+                  ? "What one unit uses."
+                  : "Changes to the product recipe when chosen. Use a negative quantity for what it replaces."}
+              </p>
+              {draftLines.map((line, index) => (
+                <div key={index} className="flex flex-wrap items-center gap-2">
+                  <select
+                    value={line.ingredientId}
+                    onChange={(event) => updateLine(index, { ingredientId: event.target.value })}
+                    className="h-10 min-w-48 rounded-md border border-slate-300 px-2 text-sm outline-none"
+                  >
+                    <option value="">Ingredient</option>
+                    {ingredients.map((ingredient) => (
+                      <option key={ingredient.id} value={ingredient.id}>
+                        {ingredient.name}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    value={line.quantity}
+                    onChange={(event) => updateLine(index, { quantity: event.target.value })}
+                    inputMode="numeric"
+                    placeholder="Qty"
+                    className="h-10 w-24 rounded-md border border-slate-300 px-2 text-sm outline-none"
+                  />
+                  <span className="w-8 text-sm text-slate-500">{unitFor(line.ingredientId)}</span>
+                  <button
+                    type="button"
+                    onClick={() => setDraftLines((lines) => lines.filter((_, lineIndex) => lineIndex !== index))}
+                    className="rounded-md bg-slate-100 px-3 py-2 text-xs font-semibold text-slate-600"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => setDraftLines((lines) => [...lines, { ingredientId: "", quantity: "" }])}
+                  className="min-h-10 rounded-md bg-slate-100 px-4 text-sm font-semibold text-slate-700"
+                >
+                  Add line
+                </button>
+                <button
+                  type="button"
+                  onClick={() => void saveRecipe()}
+                  disabled={isSubmitting}
+                  className="min-h-10 rounded-md bg-[#4F7CFF] px-4 text-sm font-semibold text-white disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  Save recipe
+                </button>
+              </div>
+            </div>
+          ) : null}
+        </section>
+
+        <section className="rounded-2xl border border-slate-200 bg-white p-4 shadow-lg">
+          <div className="flex flex-wrap items-end justify-between gap-3">
+            <div>
+              <h2 className="text-lg font-bold text-slate-800">Usage vs. Theory</h2>
+              <p className="text-xs text-slate-500">
+                Theoretical usage comes from recipes on sold items. Unexplained loss is what counts and
+                adjustments found missing beyond that.
+              </p>
+            </div>
+            <div className="flex items-center gap-2 text-sm">
+              <input
+                type="date"
+                value={fromDate}
+                onChange={(event) => setFromDate(event.target.value)}
+                className="h-10 rounded-md border border-slate-300 px-2 outline-none"
+              />
+              <span className="text-slate-500">to</span>
+              <input
+                type="date"
+                value={toDate}
+                onChange={(event) => setToDate(event.target.value)}
+                className="h-10 rounded-md border border-slate-300 px-2 outline-none"
+              />
+            </div>
+          </div>
+          {usage.length === 0 ? (
+            <p className="mt-3 text-sm text-slate-500">No ingredient movements in this range.</p>
+          ) : (
+            <div className="mt-3 overflow-x-auto">
+              <table className="min-w-full text-left text-sm">
+                <thead>
+                  <tr className="border-b border-slate-200 text-slate-500">
+                    <th className="px-3 py-2 font-semibold">Ingredient</th>
+                    <th className="px-3 py-2 font-semibold">Theoretical</th>
+                    <th className="px-3 py-2 font-semibold">Wastage</th>
+                    <th className="px-3 py-2 font-semibold">Unexplained</th>
+                    <th className="px-3 py-2 font-semibold">Actual</th>
+                    <th className="px-3 py-2 font-semibold">Variance</th>
+                    <th className="px-3 py-2 font-semibold">Delivered</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {usage.map((entry) => {
+                    const unit = UNIT_LABELS[entry.unit];
+                    return (
+                      <tr key={entry.ingredientId} className="border-b border-slate-100">
+                        <td className="px-3 py-2 font-semibold text-slate-700">{entry.name}</td>
+                        <td className="px-3 py-2">
+                          {entry.theoreticalUsage} {unit}
+                        </td>
+                        <td className="px-3 py-2">
+                          {entry.wastage} {unit}
+                        </td>
+                        <td className={`px-3 py-2 ${entry.unexplainedLoss > 0 ? "font-bold text-red-600" : ""}`}>
+                          {entry.unexplainedLoss} {unit}
+                        </td>
+                        <td className="px-3 py-2">
+                          {entry.actualUsage} {unit}
+                        </td>
+                        <td
+                          className={`px-3 py-2 font-bold ${
+                            entry.variancePercent !== null && entry.variancePercent > 5
+                              ? "text-red-600"
+                              : "text-[#2E7D32]"
+                          }`}
+                        >
+                          {entry.variancePercent === null ? "-" : `${entry.variancePercent}%`}
+                        </td>
+                        <td className="px-3 py-2 text-slate-500">
+                          {entry.deliveries} {unit}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,333 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+import { DEFAULT_STORE_PROFILE, fetchStoreProfile, type StoreProfile } from "../../../lib/store-settings";
+
+type MovementType =
+  | "SALE"
+  | "REFUND"
+  | "VOID"
+  | "WASTAGE"
+  | "DELIVERY"
+  | "COUNT_CORRECTION"
+  | "ADJUSTMENT";
+
+type ManualType = "DELIVERY" | "WASTAGE" | "ADJUSTMENT" | "COUNT_CORRECTION";
+
+type StockLevel = {
+  productId: string;
+  name: string;
+  sku: string | null;
+  stockQty: number;
+  ledgerQty: number;
+  reorderLevel: number;
+  lastMovementAt: string | null;
+};
+
+type MovementEntry = {
+  id: string;
+  type: MovementType;
+  quantity: number;
+  stockAfter: number;
+  reason: string | null;
+  userName: string | null;
+  orderNumber: number | null;
+  createdAt: string;
+};
+
+const MOVEMENT_LABELS: Record<MovementType, string> = {
+  SALE: "Sale",
+  REFUND: "Refund",
+  VOID: "Void",
+  WASTAGE: "Wastage",
+  DELIVERY: "Delivery",
+  COUNT_CORRECTION: "Count",
+  ADJUSTMENT: "Adjustment",
+};
+
+const MANUAL_TYPES: ManualType[] = ["COUNT_CORRECTION", "DELIVERY", "WASTAGE", "ADJUSTMENT"];
+
+const QUANTITY_HINTS: Record<ManualType, string> = {
+  COUNT_CORRECTION: "Units counted on the shelf",
+  DELIVERY: "Units received",
+  WASTAGE: "Units thrown away",
+  ADJUSTMENT: "Signed change, e.g. -2 or 5",
+};
+
+export default function InventoryPage() {
+  const [levels, setLevels] = useState<StockLevel[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [movements, setMovements] = useState<MovementEntry[]>([]);
+  const [movementType, setMovementType] = useState<ManualType>("COUNT_CORRECTION");
+  const [quantity, setQuantity] = useState("");
+  const [reason, setReason] = useState("");
+  const [statusMessage, setStatusMessage] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [store, setStore] = useState<StoreProfile>(DEFAULT_STORE_PROFILE);
+
+  const refreshLevels = useCallback(async () => {
+    try {
+      const response = await fetch("/api/admin/inventory", { cache: "no-store" });
+      const payload = (await response.json()) as { levels?: StockLevel[]; error?: string };
+      if (!response.ok || !payload.levels) {
+        setStatusMessage(payload.error || "Unable to load stock levels.");
+        return;
+      }
+      setLevels(payload.levels);
+    } catch {
+      setStatusMessage("Unable to reach the server.");
+    }
+  }, []);
+
+  const refreshMovements = useCallback(async (productId: string) => {
+    try {
+      const response = await fetch(`/api/admin/inventory/${productId}`, { cache: "no-store" });
+      const payload = (await response.json()) as { movements?: MovementEntry[]; error?: string };
+      if (!response.ok || !payload.movements) {
+        setStatusMessage(payload.error || "Unable to load stock history.");
+        return;
+      }
+      setMovements(payload.movements);
+    } catch {
+      setStatusMessage("Unable to reach the server.");
+    }
+  }, []);
+
+  useEffect(() => {
+    void refreshLevels();
+  }, [refreshLevels]);
+
+  useEffect(() => {
+    void fetchStoreProfile().then((profile) => profile && setStore(profile));
+  }, []);
+
+  useEffect(() => {
+    if (selectedId) {
+      void refreshMovements(selectedId);
+    } else {
+      setMovements([]);
+    }
+  }, [selectedId, refreshMovements]);
+
+  const selected = levels.find((level) => level.productId === selectedId) ?? null;
+
+  const submitMovement = async () => {
+    if (!selected || isSubmitting) {
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      const response = await fetch("/api/admin/inventory", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          productId: selected.productId,
+          type: movementType,
+          quantity: Number(quantity),
+          reason,
+        }),
+      });
+      const payload = (await response.json()) as { level?: StockLevel; error?: string };
+      if (!response.ok || !payload.level) {
+        setStatusMessage(payload.error || "Unable to record stock movement.");
+        return;
+      }
+      setQuantity("");
+      setReason("");
+      setStatusMessage(`${selected.name} is now at ${payload.level.stockQty}.`);
+      await Promise.all([refreshLevels(), refreshMovements(selected.productId)]);
+    } catch {
+      setStatusMessage("Unable to reach the server. Nothing was recorded.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <main
+      className="min-h-screen bg-gradient-to-br from-slate-100 via-slate-50 to-blue-50 px-4 py-6 text-slate-900 md:px-6"
+      style={{ fontFamily: '"Trebuchet MS", "Segoe UI", sans-serif' }}
+    >
+      <div className="mx-auto w-full max-w-6xl space-y-4">
+        <header className="flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-slate-200 bg-white p-4 shadow-lg">
+          <div>
+            <p className="text-xs uppercase tracking-[0.2em] text-slate-500">Admin Dashboard</p>
+            <h1 className="text-2xl font-bold">Inventory</h1>
+            <p className="text-sm text-slate-500">Stock counts, deliveries, wastage and the movement ledger.</p>
+          </div>
+          <div className="flex gap-2">
+            <Link
+              href="/admin/ingredients"
+              className="rounded-full bg-slate-100 px-3 py-1 text-xs font-semibold uppercase text-slate-600"
+            >
+              Ingredients
+            </Link>
+            <Link
+              href="/admin"
+              className="rounded-full bg-slate-100 px-3 py-1 text-xs font-semibold uppercase text-slate-600"
+            >
+              Back to totals
+            </Link>
+          </div>
+        </header>
+
+        {statusMessage ? (
+          <p className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-600">
+            {statusMessage}
+          </p>
+        ) : null}
+
+        <section className="rounded-2xl border border-slate-200 bg-white p-4 shadow-lg">
+          <h2 className="text-lg font-bold text-slate-800">Stock Levels</h2>
+          {levels.length === 0 ? (
+            <p className="mt-3 text-sm text-slate-500">No products track stock yet.</p>
+          ) : (
+            <div className="mt-3 overflow-x-auto">
+              <table className="min-w-full text-left text-sm">
+                <thead>
+                  <tr className="border-b border-slate-200 text-slate-500">
+                    <th className="px-3 py-2 font-semibold">Product</th>
+                    <th className="px-3 py-2 font-semibold">On hand</th>
+                    <th className="px-3 py-2 font-semibold">Ledger</th>
+                    <th className="px-3 py-2 font-semibold">Reorder at</th>
+                    <th className="px-3 py-2 font-semibold">Last movement</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {levels.map((level) => {
+                    const drift = level.stockQty - level.ledgerQty;
+                    return (
+                      <tr
+                        key={level.productId}
+                        onClick={() => setSelectedId(level.productId)}
+                        className={`cursor-pointer border-b border-slate-100 ${
+                          level.productId === selectedId ? "bg-blue-50" : "hover:bg-slate-50"
+                        }`}
+                      >
+                        <td className="px-3 py-2 font-semibold text-slate-700">
+                          {level.name}
+                          {level.sku ? <span className="ml-2 text-xs text-slate-400">{level.sku}</span> : null}
+                        </td>
+                        <td
+                          className={`px-3 py-2 font-bold ${
+                            level.stockQty <= level.reorderLevel ? "text-red-600" : "text-[#2E7D32]"
+                          }`}
+                        >
+                          {level.stockQty}
+                        </td>
+                        <td className="px-3 py-2">
+                          {level.ledgerQty}
+                          {drift !== 0 ? (
+                            <span className="ml-2 rounded-full bg-amber-100 px-2 py-0.5 text-xs font-semibold text-amber-700">
+                              off by {drift > 0 ? `+${drift}` : drift}
+                            </span>
+                          ) : null}
+                        </td>
+                        <td className="px-3 py-2">{level.reorderLevel}</td>
+                        <td className="px-3 py-2 text-slate-500">
+                          {level.lastMovementAt ? new Date(level.lastMovementAt).toLocaleString("en-US", { timeZone: store.timeZone }) : "-"}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              <p className="mt-2 text-xs text-slate-500">
+                The ledger total is authoritative. Recording a count re-baselines both figures.
+              </p>
+            </div>
+          )}
+        </section>
+
+        {selected ? (
+          <section className="grid gap-4 md:grid-cols-[1fr_2fr]">
+            <div className="space-y-2 rounded-2xl border border-slate-200 bg-white p-4 shadow-lg">
+              <h2 className="text-lg font-bold text-slate-800">Record for {selected.name}</h2>
+              <div className="grid grid-cols-2 gap-2">
+                {MANUAL_TYPES.map((type) => (
+                  <button
+                    key={type}
+                    type="button"
+                    onClick={() => setMovementType(type)}
+                    className={`min-h-10 rounded-md text-sm font-semibold ${
+                      movementType === type ? "bg-[#4F7CFF] text-white" : "bg-slate-100 text-slate-700"
+                    }`}
+                  >
+                    {MOVEMENT_LABELS[type]}
+                  </button>
+                ))}
+              </div>
+              <input
+                value={quantity}
+                onChange={(event) => setQuantity(event.target.value)}
+                inputMode="numeric"
+                placeholder={QUANTITY_HINTS[movementType]}
+                className="h-10 w-full rounded-md border border-slate-300 px-2 text-sm outline-none"
+              />
+              <input
+                value={reason}
+                onChange={(event) => setReason(event.target.value)}
+                placeholder="Reason (required)"
+                className="h-10 w-full rounded-md border border-slate-300 px-2 text-sm outline-none"
+              />
+              <button
+                type="button"
+                onClick={() => void submitMovement()}
+                disabled={isSubmitting || !quantity.trim() || !reason.trim()}
+                className="min-h-11 w-full rounded-lg bg-[#2E7D32] text-sm font-semibold text-white disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {isSubmitting ? "Saving..." : "Record movement"}
+              </button>
+            </div>
+
+            <div className="rounded-2xl border border-slate-200 bg-white p-4 shadow-lg">
+              <h2 className="text-lg font-bold text-slate-800">Movement History</h2>
+              {movements.length === 0 ? (
+                <p className="mt-3 text-sm text-slate-500">No movements recorded yet.</p>
+              ) : (
+                <div className="mt-3 max-h-96 overflow-y-auto">
+                  <table className="min-w-full text-left text-sm">
+                    <thead>
+                      <tr className="border-b border-slate-200 text-slate-500">
+                        <th className="px-3 py-2 font-semibold">When</th>
+                        <th className="px-3 py-2 font-semibold">Type</th>
+                        <th className="px-3 py-2 font-semibold">Change</th>
+                        <th className="px-3 py-2 font-semibold">After</th>
+                        <th className="px-3 py-2 font-semibold">By</th>
+                        <th className="px-3 py-2 font-semibold">Reason</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {movements.map((movement) => (
+                        <tr key={movement.id} className="border-b border-slate-100">
+                          <td className="px-3 py-2 text-slate-500">
+                            {new Date(movement.createdAt).toLocaleString("en-US", { timeZone: store.timeZone })}
+                          </td>
+                          <td className="px-3 py-2">
+                            {MOVEMENT_LABELS[movement.type]}
+                            {movement.orderNumber ? ` #${movement.orderNumber}` : ""}
+                          </td>
+                          <td
+                            className={`px-3 py-2 font-bold ${
+                              movement.quantity < 0 ? "text-red-600" : "text-[#2E7D32]"
+                            }`}
+                          >
+                            {movement.quantity > 0 ? `+${movement.quantity}` : movement.quantity}
+                          </td>
+                          <td className="px-3 py-2">{movement.stockAfter}</td>
+                          <td className="px-3 py-2">{movement.userName ?? "-"}</td>
+                          <td className="px-3 py-2 text-slate-600">{movement.reason ?? ""}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </section>
+        ) : null}
+      </div>
+    </main>
+  );
+}
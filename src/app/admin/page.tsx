@@ -1,68 +1,185 @@
 "use client";
 
-import { useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { businessDayBounds, businessDayKey, businessDayStart, type BusinessDayClock } from "../../lib/business-day";
 import {
+  fetchKitchenSocketGrant,
   getKitchenSocketUrl,
-  type KitchenSocketMessage,
+  withSocketToken,
+  type LowStockRecord,
   type SaleRecord,
 } from "../../lib/kitchen-socket";
+import { formatMoney } from "../../lib/money";
+import { PREP_STATION_LABELS, type PrepStation } from "../../lib/prep-stations";
+import { decodeFrame, describeSocketError } from "../../lib/socket-protocol";
+import { DEFAULT_STORE_PROFILE, fetchStoreProfile, type StoreProfile } from "../../lib/store-settings";
+import { formatElapsed } from "../../lib/ticket-timing";
 
 type SocketStatus = "connecting" | "connected" | "disconnected";
 
 type WaiterSummary = {
+  key: string;
   waiterName: string;
   orders: number;
-  total: number;
+  refundCents: number;
+  totalCents: number;
 };
 
-function parseMessage(raw: string): KitchenSocketMessage | null {
+type WaiterDiscounts = {
+  waiterId: string | null;
+  waiterName: string;
+  discountedOrders: number;
+  discountCents: number;
+  overrideOrders: number;
+  overrideCents: number;
+  byDiscount: Array<{ name: string; orders: number; discountCents: number }>;
+};
+
+type ApproverDiscounts = {
+  approverId: string | null;
+  approverName: string;
+  approvedOrders: number;
+  discountCents: number;
+};
+
+type DiscountTotals = {
+  waiters: WaiterDiscounts[];
+  approvers: ApproverDiscounts[];
+};
+
+type PrepTimeStats = {
+  count: number;
+  averageSeconds: number;
+  p90Seconds: number;
+};
+
+type PrepTimes = {
+  byHour: Array<PrepTimeStats & { hour: number }>;
+  byProduct: Array<PrepTimeStats & { productId: string | null; name: string }>;
+  byStation: Array<PrepTimeStats & { station: PrepStation }>;
+};
+
+/** Business days the prep-time report covers, ending today. */
+type PrepRange = 1 | 7;
+
+const EMPTY_PREP_TIMES: PrepTimes = { byHour: [], byProduct: [], byStation: [] };
+const EMPTY_DISCOUNT_TOTALS: DiscountTotals = { waiters: [], approvers: [] };
+
+// Discounts come from the database; the socket feed only carries sale totals.
+async function fetchDiscountTotals(clock: BusinessDayClock): Promise<DiscountTotals | null> {
+  const { start, end } = businessDayBounds(new Date(), clock);
+  const query = new URLSearchParams({ from: start.toISOString(), to: end.toISOString() });
   try {
-    return JSON.parse(raw) as KitchenSocketMessage;
+    const response = await fetch(`/api/admin/discounts?${query}`, { cache: "no-store" });
+    if (!response.ok) {
+      return null;
+    }
+    const payload = (await response.json()) as DiscountTotals;
+    return { waiters: payload.waiters, approvers: payload.approvers };
   } catch {
     return null;
   }
 }
 
-function toDayKey(dateInput: string) {
-  const date = new Date(dateInput);
-  if (Number.isNaN(date.getTime())) {
-    return "";
+async function fetchPrepTimes(clock: BusinessDayClock, days: PrepRange): Promise<PrepTimes | null> {
+  const { day, end } = businessDayBounds(new Date(), clock);
+  const start = businessDayStart(day, clock, 1 - days);
+  const query = new URLSearchParams({ from: start.toISOString(), to: end.toISOString() });
+  try {
+    const response = await fetch(`/api/admin/prep-times?${query}`, { cache: "no-store" });
+    if (!response.ok) {
+      return null;
+    }
+    return (await response.json()) as PrepTimes;
+  } catch {
+    return null;
   }
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, "0");
-  const day = String(date.getDate()).padStart(2, "0");
-  return `${year}-${month}-${day}`;
 }
 
-const currency = new Intl.NumberFormat("en-US", {
-  style: "currency",
-  currency: "USD",
-});
-
-function money(value: number) {
-  return currency.format(value);
+function PrepTimeTable({ label, rows }: { label: string; rows: Array<PrepTimeStats & { key: string; name: string }> }) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-left text-sm">
+        <thead>
+          <tr className="border-b border-slate-200 text-slate-500">
+            <th className="px-3 py-2 font-semibold">{label}</th>
+            <th className="px-3 py-2 font-semibold">Count</th>
+            <th className="px-3 py-2 font-semibold">Average</th>
+            <th className="px-3 py-2 font-semibold">p90</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.key} className="border-b border-slate-100">
+              <td className="px-3 py-2 font-semibold text-slate-700">{row.name}</td>
+              <td className="px-3 py-2">{row.count}</td>
+              <td className="px-3 py-2 font-bold text-[#4F7CFF]">{formatElapsed(row.averageSeconds * 1000)}</td>
+              <td className="px-3 py-2">{formatElapsed(row.p90Seconds * 1000)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
 }
 
 export default function AdminPage() {
   const [sales, setSales] = useState<SaleRecord[]>([]);
   const [day, setDay] = useState("");
+  const [lowStock, setLowStock] = useState<LowStockRecord[]>([]);
+  const [discountTotals, setDiscountTotals] = useState<DiscountTotals>(EMPTY_DISCOUNT_TOTALS);
   const [statusMessage, setStatusMessage] = useState("");
   const [socketStatus, setSocketStatus] = useState<SocketStatus>("connecting");
+  const [store, setStore] = useState<StoreProfile>(DEFAULT_STORE_PROFILE);
+  const [prepRange, setPrepRange] = useState<PrepRange>(1);
+  const [prepTimes, setPrepTimes] = useState<PrepTimes>(EMPTY_PREP_TIMES);
 
   const socketRef = useRef<WebSocket | null>(null);
   const reconnectTimerRef = useRef<number | null>(null);
   const dayRef = useRef("");
+  // The socket handler reads the business day clock without reconnecting when it changes.
+  const storeRef = useRef<StoreProfile>(DEFAULT_STORE_PROFILE);
+
+  // Discount totals cover the business day, so they reload with the settings.
+  const refreshStore = useCallback(() => {
+    void fetchStoreProfile().then((profile) => {
+      storeRef.current = profile ?? storeRef.current;
+      setStore(storeRef.current);
+      void fetchDiscountTotals(storeRef.current).then((totals) => totals && setDiscountTotals(totals));
+    });
+  }, []);
+
+  useEffect(() => {
+    refreshStore();
+  }, [refreshStore]);
+
+  // Prep times follow the business day too, so the store clock is a dependency.
+  useEffect(() => {
+    void fetchPrepTimes(store, prepRange).then((report) => report && setPrepTimes(report));
+  }, [store, prepRange]);
 
   useEffect(() => {
     let disposed = false;
 
-    const connect = () => {
+    const connect = async () => {
       if (disposed) {
         return;
       }
 
       setSocketStatus("connecting");
-      const ws = new WebSocket(getKitchenSocketUrl());
+      const grant = await fetchKitchenSocketGrant();
+      if (disposed) {
+        return;
+      }
+      if (!grant) {
+        setSocketStatus("disconnected");
+        setStatusMessage("Sign in as a manager or admin to track live sales.");
+        reconnectTimerRef.current = window.setTimeout(() => void connect(), 5000);
+        return;
+      }
+
+      const ws = new WebSocket(withSocketToken(getKitchenSocketUrl(), grant.token));
       socketRef.current = ws;
 
       ws.onopen = () => {
@@ -75,8 +192,14 @@ export default function AdminPage() {
       };
 
       ws.onmessage = (event) => {
-        const incoming = parseMessage(String(event.data));
-        if (!incoming) {
+        const decoded = decodeFrame(String(event.data));
+        if (!decoded.ok) {
+          return;
+        }
+        const incoming = decoded.message;
+
+        if (incoming.type === "ERROR") {
+          setStatusMessage(describeSocketError(incoming.payload));
           return;
         }
 
@@ -87,9 +210,24 @@ export default function AdminPage() {
           return;
         }
 
-        if (incoming.type === "NEW_SALE") {
+        if (incoming.type === "LOW_STOCK") {
+          const alert = incoming.payload;
+          // Keep only the latest alert per product.
+          setLowStock((current) => [alert, ...current.filter((entry) => entry.productId !== alert.productId)]);
+          setStatusMessage(`Low stock: ${alert.name} is down to ${alert.stockQty}.`);
+          return;
+        }
+
+        if (incoming.type === "STORE_SETTINGS_CHANGED") {
+          // The server follows up with a SALES_SNAPSHOT for the new business day.
+          refreshStore();
+          return;
+        }
+
+        if (incoming.type === "NEW_SALE" || incoming.type === "NEW_REFUND") {
+          void fetchDiscountTotals(storeRef.current).then((totals) => totals && setDiscountTotals(totals));
           setSales((current) => {
-            if (dayRef.current && toDayKey(incoming.payload.createdAt) !== dayRef.current) {
+            if (dayRef.current && businessDayKey(incoming.payload.createdAt, storeRef.current) !== dayRef.current) {
               return current;
             }
             return [incoming.payload, ...current];
@@ -107,11 +245,11 @@ export default function AdminPage() {
         }
         setSocketStatus("disconnected");
         setStatusMessage("Socket disconnected. Retrying...");
-        reconnectTimerRef.current = window.setTimeout(connect, 1500);
+        reconnectTimerRef.current = window.setTimeout(() => void connect(), 1500);
       };
     };
 
-    connect();
+    void connect();
 
     return () => {
       disposed = true;
@@ -122,26 +260,38 @@ export default function AdminPage() {
         socketRef.current.close();
       }
     };
-  }, []);
+  }, [refreshStore]);
 
   const waiterSummary = useMemo(() => {
     const map = new Map<string, WaiterSummary>();
     for (const sale of sales) {
-      const key = sale.waiterName.trim() || "Unknown Waiter";
-      const current = map.get(key) || { waiterName: key, orders: 0, total: 0 };
-      current.orders += 1;
-      current.total += sale.total;
+      const waiterName = sale.waiterName.trim() || "Unknown Waiter";
+      const key = sale.waiterId || waiterName;
+      const current = map.get(key) || { key, waiterName, orders: 0, refundCents: 0, totalCents: 0 };
+      // Refund records carry a negative total, so the running total is net.
+      if (sale.kind === "refund") {
+        current.refundCents += -sale.totalCents;
+      } else {
+        current.orders += 1;
+      }
+      current.totalCents += sale.totalCents;
       map.set(key, current);
     }
-    return Array.from(map.values()).sort((a, b) => b.total - a.total);
+    return Array.from(map.values()).sort((a, b) => b.totalCents - a.totalCents);
   }, [sales]);
 
   const grandTotal = useMemo(
-    () => waiterSummary.reduce((sum, row) => sum + row.total, 0),
+    () => waiterSummary.reduce((sum, row) => sum + row.totalCents, 0),
     [waiterSummary],
   );
 
-  const totalOrders = sales.length;
+  const totalOrders = sales.filter((sale) => sale.kind !== "refund").length;
+  const totalRefunds = useMemo(
+    () => waiterSummary.reduce((sum, row) => sum + row.refundCents, 0),
+    [waiterSummary],
+  );
+
+  const money = (cents: number) => formatMoney(cents, store.money);
 
   return (
     <main
@@ -151,21 +301,53 @@ export default function AdminPage() {
       <div className="mx-auto w-full max-w-6xl space-y-4">
         <header className="flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-slate-200 bg-white p-4 shadow-lg">
           <div>
-            <p className="text-xs uppercase tracking-[0.2em] text-slate-500">Admin Dashboard</p>
+            <p className="text-xs uppercase tracking-[0.2em] text-slate-500">{store.displayName} · Admin Dashboard</p>
             <h1 className="text-2xl font-bold">Daily Waiter Totals</h1>
             <p className="text-sm text-slate-500">Day: {day || "loading..."}</p>
           </div>
-          <span
-            className={`rounded-full px-3 py-1 text-xs font-semibold uppercase ${
-              socketStatus === "connected"
-                ? "bg-green-100 text-green-700"
-                : socketStatus === "connecting"
-                  ? "bg-amber-100 text-amber-700"
-                  : "bg-red-100 text-red-700"
-            }`}
-          >
-             {socketStatus}
-          </span>
+          <div className="flex items-center gap-2">
+            <Link
+              href="/admin/catalog"
+              className="rounded-full bg-blue-100 px-3 py-1 text-xs font-semibold uppercase text-blue-700"
+            >
+              Menu
+            </Link>
+            <Link
+              href="/admin/inventory"
+              className="rounded-full bg-blue-100 px-3 py-1 text-xs font-semibold uppercase text-blue-700"
+            >
+              Inventory
+            </Link>
+            <Link
+              href="/admin/ingredients"
+              className="rounded-full bg-blue-100 px-3 py-1 text-xs font-semibold uppercase text-blue-700"
+            >
+              Ingredients
+            </Link>
+            <Link
+              href="/admin/settings"
+              className="rounded-full bg-blue-100 px-3 py-1 text-xs font-semibold uppercase text-blue-700"
+            >
+              Settings
+            </Link>
+            <Link
+              href="/login?next=/admin"
+              className="rounded-full bg-slate-100 px-3 py-1 text-xs font-semibold uppercase text-slate-600"
+            >
+              Switch user
+            </Link>
+            <span
+              className={`rounded-full px-3 py-1 text-xs font-semibold uppercase ${
+                socketStatus === "connected"
+                  ? "bg-green-100 text-green-700"
+                  : socketStatus === "connecting"
+                    ? "bg-amber-100 text-amber-700"
+                    : "bg-red-100 text-red-700"
+              }`}
+            >
+               {socketStatus}
+            </span>
+          </div>
         </header>
 
         {statusMessage ? (
@@ -174,17 +356,47 @@ export default function AdminPage() {
           </p>
         ) : null}
 
-        <section className="grid gap-3 md:grid-cols-2">
+        <section className="grid gap-3 md:grid-cols-3">
           <article className="rounded-2xl border border-slate-200 bg-white p-4 shadow-md">
-            <p className="text-sm font-semibold text-slate-500">Total Sales</p>
+            <p className="text-sm font-semibold text-slate-500">Net Sales</p>
             <p className="mt-1 text-3xl font-extrabold text-[#2E7D32]">{money(grandTotal)}</p>
           </article>
+          <article className="rounded-2xl border border-slate-200 bg-white p-4 shadow-md">
+            <p className="text-sm font-semibold text-slate-500">Refunds</p>
+            <p className="mt-1 text-3xl font-extrabold text-red-600">{money(totalRefunds)}</p>
+          </article>
           <article className="rounded-2xl border border-slate-200 bg-white p-4 shadow-md">
             <p className="text-sm font-semibold text-slate-500">Order Count</p>
             <p className="mt-1 text-3xl font-extrabold text-[#4F7CFF]">{totalOrders}</p>
           </article>
         </section>
 
+        {lowStock.length > 0 ? (
+          <section className="rounded-2xl border border-amber-200 bg-amber-50 p-4 shadow-md">
+            <div className="flex items-center justify-between gap-2">
+              <h2 className="text-lg font-bold text-amber-800">Low Stock</h2>
+              <button
+                type="button"
+                onClick={() => setLowStock([])}
+                className="text-xs font-semibold uppercase text-amber-700 underline"
+              >
+                Dismiss all
+              </button>
+            </div>
+            <ul className="mt-2 space-y-1 text-sm">
+              {lowStock.map((alert) => (
+                <li key={alert.productId} className="flex justify-between gap-2 text-amber-900">
+                  <span className="font-semibold">{alert.name}</span>
+                  <span>
+                    {alert.stockQty === 0 ? "Sold out" : `${alert.stockQty} left`} (reorder at {alert.reorderLevel}) ·{" "}
+                    {new Date(alert.createdAt).toLocaleTimeString("en-US", { timeZone: store.timeZone })}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        ) : null}
+
         <section className="rounded-2xl border border-slate-200 bg-white p-4 shadow-lg">
           <h2 className="text-lg font-bold text-slate-800">By Waiter</h2>
           {waiterSummary.length === 0 ? (
@@ -196,21 +408,135 @@ export default function AdminPage() {
                   <tr className="border-b border-slate-200 text-slate-500">
                     <th className="px-3 py-2 font-semibold">Waiter</th>
                     <th className="px-3 py-2 font-semibold">Orders</th>
-                    <th className="px-3 py-2 font-semibold">Total</th>
+                    <th className="px-3 py-2 font-semibold">Refunds</th>
+                    <th className="px-3 py-2 font-semibold">Net Total</th>
                   </tr>
                 </thead>
                 <tbody>
                   {waiterSummary.map((row) => (
-                    <tr key={row.waiterName} className="border-b border-slate-100">
+                    <tr key={row.key} className="border-b border-slate-100">
                       <td className="px-3 py-2 font-semibold text-slate-700">{row.waiterName}</td>
                       <td className="px-3 py-2">{row.orders}</td>
-                      <td className="px-3 py-2 font-bold text-[#2E7D32]">{money(row.total)}</td>
+                      <td className="px-3 py-2 text-red-600">{row.refundCents > 0 ? money(row.refundCents) : "-"}</td>
+                      <td className="px-3 py-2 font-bold text-[#2E7D32]">{money(row.totalCents)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+
+        <section className="rounded-2xl border border-slate-200 bg-white p-4 shadow-lg">
+          <h2 className="text-lg font-bold text-slate-800">Discounts Today</h2>
+          {discountTotals.waiters.length === 0 ? (
+            <p className="mt-3 text-sm text-slate-500">No discounts given yet today.</p>
+          ) : (
+            <div className="mt-3 overflow-x-auto">
+              <table className="min-w-full text-left text-sm">
+                <thead>
+                  <tr className="border-b border-slate-200 text-slate-500">
+                    <th className="px-3 py-2 font-semibold">Waiter</th>
+                    <th className="px-3 py-2 font-semibold">Orders</th>
+                    <th className="px-3 py-2 font-semibold">Discounted</th>
+                    <th className="px-3 py-2 font-semibold">Manager overrides</th>
+                    <th className="px-3 py-2 font-semibold">Breakdown</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {discountTotals.waiters.map((row) => (
+                    <tr key={row.waiterId ?? row.waiterName} className="border-b border-slate-100">
+                      <td className="px-3 py-2 font-semibold text-slate-700">{row.waiterName}</td>
+                      <td className="px-3 py-2">{row.discountedOrders}</td>
+                      <td className="px-3 py-2 font-bold text-red-600">{money(row.discountCents)}</td>
+                      <td className="px-3 py-2">
+                        {row.overrideOrders > 0 ? `${row.overrideOrders} (${money(row.overrideCents)})` : "-"}
+                      </td>
+                      <td className="px-3 py-2 text-slate-500">
+                        {row.byDiscount
+                          .map((entry) => `${entry.name} x${entry.orders} ${money(entry.discountCents)}`)
+                          .join(", ")}
+                      </td>
                     </tr>
                   ))}
                 </tbody>
               </table>
             </div>
           )}
+          {discountTotals.approvers.length > 0 ? (
+            <div className="mt-4 overflow-x-auto">
+              <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-500">Approved by</h3>
+              <table className="mt-2 min-w-full text-left text-sm">
+                <thead>
+                  <tr className="border-b border-slate-200 text-slate-500">
+                    <th className="px-3 py-2 font-semibold">Manager</th>
+                    <th className="px-3 py-2 font-semibold">Overrides</th>
+                    <th className="px-3 py-2 font-semibold">Discounted</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {discountTotals.approvers.map((row) => (
+                    <tr key={row.approverId ?? row.approverName} className="border-b border-slate-100">
+                      <td className="px-3 py-2 font-semibold text-slate-700">{row.approverName}</td>
+                      <td className="px-3 py-2">{row.approvedOrders}</td>
+                      <td className="px-3 py-2 font-bold text-red-600">{money(row.discountCents)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : null}
+        </section>
+
+        <section className="rounded-2xl border border-slate-200 bg-white p-4 shadow-lg">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h2 className="text-lg font-bold text-slate-800">Prep Times</h2>
+            <div className="flex gap-2">
+              {([1, 7] as PrepRange[]).map((days) => (
+                <button
+                  key={days}
+                  type="button"
+                  onClick={() => setPrepRange(days)}
+                  className={`rounded-full px-3 py-1 text-xs font-semibold uppercase ${
+                    prepRange === days ? "bg-[#4F7CFF] text-white" : "bg-slate-100 text-slate-600"
+                  }`}
+                >
+                  {days === 1 ? "Today" : "Last 7 days"}
+                </button>
+              ))}
+            </div>
+          </div>
+          <p className="mt-1 text-xs text-slate-500">
+            From ticket fired to done. Station and hour rows count tickets; product rows count items.
+          </p>
+          {prepTimes.byStation.length === 0 ? (
+            <p className="mt-3 text-sm text-slate-500">No finished kitchen tickets in this range.</p>
+          ) : (
+            <div className="mt-3 grid gap-4 lg:grid-cols-2">
+              <PrepTimeTable
+                label="Station"
+                rows={prepTimes.byStation.map((row) => ({
+                  ...row,
+                  key: row.station,
+                  name: PREP_STATION_LABELS[row.station],
+                }))}
+              />
+              <PrepTimeTable
+                label="Hour fired"
+                rows={prepTimes.byHour.map((row) => ({
+                  ...row,
+                  key: String(row.hour),
+                  name: `${String(row.hour).padStart(2, "0")}:00`,
+                }))}
+              />
+              <div className="lg:col-span-2">
+                <PrepTimeTable
+                  label="Product"
+                  rows={prepTimes.byProduct.map((row) => ({ ...row, key: row.productId ?? row.name }))}
+                />
+              </div>
+            </div>
+          )}
         </section>
       </div>
     </main>
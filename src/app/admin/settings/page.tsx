@@ -0,0 +1,429 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { businessDayKey } from "../../../lib/business-day";
+import {
+  fetchKitchenSocketGrant,
+  getKitchenSocketUrl,
+  withSocketToken,
+  type KitchenSocketMessage,
+} from "../../../lib/kitchen-socket";
+import { formatMoney } from "../../../lib/money";
+import { encodeFrame } from "../../../lib/socket-protocol";
+import { formatTaxRate, type TaxRounding } from "../../../lib/tax";
+
+type StoreSettings = {
+  displayName: string;
+  address: string;
+  money: { currency: string; locale: string };
+  timeZone: string;
+  businessDayCutoffHour: number;
+  receiptHeader: string;
+  receiptFooter: string;
+  defaultTaxProfileId: string | null;
+  taxInclusive: boolean;
+  taxRounding: TaxRounding;
+};
+
+type TaxProfileOption = { id: string; name: string; rateBasisPoints: number };
+
+/** The form as typed; numbers stay text until it is saved. */
+type Draft = {
+  displayName: string;
+  address: string;
+  currency: string;
+  locale: string;
+  timeZone: string;
+  businessDayCutoffHour: string;
+  receiptHeader: string;
+  receiptFooter: string;
+  defaultTaxProfileId: string;
+  taxInclusive: boolean;
+  taxRounding: TaxRounding;
+};
+
+function supported(key: "currency" | "timeZone") {
+  return typeof Intl.supportedValuesOf === "function" ? Intl.supportedValuesOf(key) : [];
+}
+
+function toDraft(settings: StoreSettings): Draft {
+  return {
+    displayName: settings.displayName,
+    address: settings.address,
+    currency: settings.money.currency,
+    locale: settings.money.locale,
+    timeZone: settings.timeZone,
+    businessDayCutoffHour: String(settings.businessDayCutoffHour),
+    receiptHeader: settings.receiptHeader,
+    receiptFooter: settings.receiptFooter,
+    defaultTaxProfileId: settings.defaultTaxProfileId ?? "",
+    taxInclusive: settings.taxInclusive,
+    taxRounding: settings.taxRounding,
+  };
+}
+
+function toBody(draft: Draft) {
+  return {
+    displayName: draft.displayName,
+    address: draft.address,
+    currency: draft.currency,
+    locale: draft.locale,
+    timeZone: draft.timeZone,
+    businessDayCutoffHour: Number(draft.businessDayCutoffHour),
+    receiptHeader: draft.receiptHeader,
+    receiptFooter: draft.receiptFooter,
+    defaultTaxProfileId: draft.defaultTaxProfileId || null,
+    taxInclusive: draft.taxInclusive,
+    taxRounding: draft.taxRounding,
+  };
+}
+
+// A sample amount and today's business day as the draft would show them,
+// or null while the draft is not a valid combination yet.
+function previewDraft(draft: Draft) {
+  try {
+    return {
+      amount: formatMoney(123456, { currency: draft.currency.toUpperCase(), locale: draft.locale }),
+      day: businessDayKey(new Date(), {
+        timeZone: draft.timeZone,
+        businessDayCutoffHour: Number(draft.businessDayCutoffHour) || 0,
+      }),
+    };
+  } catch {
+    return null;
+  }
+}
+
+function sendAnnouncement(ws: WebSocket) {
+  const message: KitchenSocketMessage = {
+    type: "STORE_SETTINGS_CHANGED",
+    payload: { updatedAt: new Date().toISOString() },
+  };
+  ws.send(encodeFrame(message));
+}
+
+export default function StoreSettingsPage() {
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [taxProfiles, setTaxProfiles] = useState<TaxProfileOption[]>([]);
+  const [statusMessage, setStatusMessage] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const socketRef = useRef<WebSocket | null>(null);
+  const reconnectTimerRef = useRef<number | null>(null);
+  // Set when settings were saved while the socket was down; announced on reconnect.
+  const pendingAnnouncementRef = useRef(false);
+
+  const refreshSettings = useCallback(async () => {
+    try {
+      const response = await fetch("/api/admin/settings", { cache: "no-store" });
+      const payload = (await response.json()) as {
+        settings?: StoreSettings;
+        taxProfiles?: TaxProfileOption[];
+        error?: string;
+      };
+      if (!response.ok || !payload.settings) {
+        setStatusMessage(payload.error || "Unable to load store settings.");
+        return;
+      }
+      setDraft(toDraft(payload.settings));
+      setTaxProfiles(payload.taxProfiles ?? []);
+    } catch {
+      setStatusMessage("Unable to reach the server.");
+    }
+  }, []);
+
+  useEffect(() => {
+    void refreshSettings();
+  }, [refreshSettings]);
+
+  useEffect(() => {
+    let disposed = false;
+
+    const connect = async () => {
+      if (disposed) {
+        return;
+      }
+      const grant = await fetchKitchenSocketGrant();
+      if (disposed) {
+        return;
+      }
+      if (!grant) {
+        reconnectTimerRef.current = window.setTimeout(() => void connect(), 5000);
+        return;
+      }
+
+      const ws = new WebSocket(withSocketToken(getKitchenSocketUrl(), grant.token));
+      socketRef.current = ws;
+
+      ws.onopen = () => {
+        if (disposed) {
+          ws.close();
+          return;
+        }
+        if (pendingAnnouncementRef.current) {
+          pendingAnnouncementRef.current = false;
+          sendAnnouncement(ws);
+        }
+      };
+
+      ws.onclose = () => {
+        if (!disposed) {
+          reconnectTimerRef.current = window.setTimeout(() => void connect(), 1500);
+        }
+      };
+    };
+
+    void connect();
+    return () => {
+      disposed = true;
+      if (reconnectTimerRef.current) {
+        window.clearTimeout(reconnectTimerRef.current);
+      }
+      if (socketRef.current) {
+        socketRef.current.close();
+      }
+    };
+  }, []);
+
+  // Every screen and the socket server reload the settings when told.
+  const announceSettingsChange = () => {
+    const socket = socketRef.current;
+    if (!socket || socket.readyState !== WebSocket.OPEN) {
+      pendingAnnouncementRef.current = true;
+      return false;
+    }
+    sendAnnouncement(socket);
+    return true;
+  };
+
+  const save = async () => {
+    if (!draft || isSubmitting) {
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      const response = await fetch("/api/admin/settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(toBody(draft)),
+      });
+      const payload = (await response.json()) as { settings?: StoreSettings; error?: string };
+      if (!response.ok || !payload.settings) {
+        setStatusMessage(payload.error || "Unable to save store settings.");
+        return;
+      }
+      setDraft(toDraft(payload.settings));
+      const announced = announceSettingsChange();
+      setStatusMessage(
+        `Settings saved.${announced ? "" : " Screens will pick them up when the socket reconnects."}`,
+      );
+    } catch {
+      setStatusMessage("Unable to reach the server. Settings were not saved.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const setField = <K extends keyof Draft>(key: K, value: Draft[K]) =>
+    setDraft((current) => (current ? { ...current, [key]: value } : current));
+
+  const preview = draft ? previewDraft(draft) : null;
+  const inputClass = "h-10 w-full rounded-md border border-slate-300 px-2 outline-none";
+  const labelClass = "mb-1 block text-xs font-semibold text-slate-600";
+
+  return (
+    <main
+      className="min-h-screen bg-gradient-to-br from-slate-100 via-slate-50 to-blue-50 px-4 py-6 text-slate-900 md:px-6"
+      style={{ fontFamily: '"Trebuchet MS", "Segoe UI", sans-serif' }}
+    >
+      <div className="mx-auto w-full max-w-3xl space-y-4">
+        <header className="flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-slate-200 bg-white p-4 shadow-lg">
+          <div>
+            <p className="text-xs uppercase tracking-[0.2em] text-slate-500">Admin Dashboard</p>
+            <h1 className="text-2xl font-bold">Store Settings</h1>
+            <p className="text-sm text-slate-500">Every screen and the kitchen server use these values.</p>
+          </div>
+          <Link
+            href="/admin"
+            className="rounded-full bg-slate-100 px-3 py-1 text-xs font-semibold uppercase text-slate-600"
+          >
+            Back to totals
+          </Link>
+        </header>
+
+        {statusMessage ? (
+          <p className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-600">
+            {statusMessage}
+          </p>
+        ) : null}
+
+        {!draft ? (
+          <p className="rounded-2xl border border-slate-200 bg-white p-4 text-sm text-slate-500 shadow-lg">
+            Loading settings...
+          </p>
+        ) : (
+          <form
+            onSubmit={(event) => {
+              event.preventDefault();
+              void save();
+            }}
+            className="space-y-4"
+          >
+            <section className="grid gap-3 rounded-2xl border border-slate-200 bg-white p-4 shadow-lg">
+              <h2 className="text-lg font-bold text-slate-800">Store</h2>
+              <label>
+                <span className={labelClass}>Display name</span>
+                <input
+                  value={draft.displayName}
+                  onChange={(event) => setField("displayName", event.target.value)}
+                  className={inputClass}
+                />
+              </label>
+              <label>
+                <span className={labelClass}>Address</span>
+                <textarea
+                  value={draft.address}
+                  onChange={(event) => setField("address", event.target.value)}
+                  rows={2}
+                  className="w-full rounded-md border border-slate-300 px-2 py-1 outline-none"
+                />
+              </label>
+            </section>
+
+            <section className="grid gap-3 rounded-2xl border border-slate-200 bg-white p-4 shadow-lg md:grid-cols-2">
+              <h2 className="text-lg font-bold text-slate-800 md:col-span-2">Money &amp; time</h2>
+              <label>
+                <span className={labelClass}>Currency</span>
+                <input
+                  value={draft.currency}
+                  onChange={(event) => setField("currency", event.target.value.toUpperCase())}
+                  list="currency-codes"
+                  className={inputClass}
+                />
+                <datalist id="currency-codes">
+                  {supported("currency").map((code) => (
+                    <option key={code} value={code} />
+                  ))}
+                </datalist>
+              </label>
+              <label>
+                <span className={labelClass}>Locale</span>
+                <input
+                  value={draft.locale}
+                  onChange={(event) => setField("locale", event.target.value)}
+                  placeholder="en-US"
+                  className={inputClass}
+                />
+              </label>
+              <label>
+                <span className={labelClass}>Timezone</span>
+                <input
+                  value={draft.timeZone}
+                  onChange={(event) => setField("timeZone", event.target.value)}
+                  list="time-zones"
+                  placeholder="America/New_York"
+                  className={inputClass}
+                />
+                <datalist id="time-zones">
+                  {supported("timeZone").map((zone) => (
+                    <option key={zone} value={zone} />
+                  ))}
+                </datalist>
+              </label>
+              <label>
+                <span className={labelClass}>Business day starts at</span>
+                <select
+                  value={draft.businessDayCutoffHour}
+                  onChange={(event) => setField("businessDayCutoffHour", event.target.value)}
+                  className={inputClass}
+                >
+                  {Array.from({ length: 24 }, (_, hour) => (
+                    <option key={hour} value={String(hour)}>
+                      {`${String(hour).padStart(2, "0")}:00`}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <p className="text-xs text-slate-500 md:col-span-2">
+                {preview
+                  ? `Amounts show as ${preview.amount}. Sales made now count toward ${preview.day}.`
+                  : "Check the currency, locale and timezone."}
+              </p>
+            </section>
+
+            <section className="grid gap-3 rounded-2xl border border-slate-200 bg-white p-4 shadow-lg md:grid-cols-2">
+              <h2 className="text-lg font-bold text-slate-800 md:col-span-2">Tax</h2>
+              <label>
+                <span className={labelClass}>Default tax profile</span>
+                <select
+                  value={draft.defaultTaxProfileId}
+                  onChange={(event) => setField("defaultTaxProfileId", event.target.value)}
+                  className={inputClass}
+                >
+                  <option value="">None (POS_TAX_PERCENT)</option>
+                  {taxProfiles.map((profile) => (
+                    <option key={profile.id} value={profile.id}>
+                      {profile.name} ({formatTaxRate(profile.rateBasisPoints)})
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                <span className={labelClass}>Rounding</span>
+                <select
+                  value={draft.taxRounding}
+                  onChange={(event) => setField("taxRounding", event.target.value as TaxRounding)}
+                  className={inputClass}
+                >
+                  <option value="order">Once per rate</option>
+                  <option value="line">Each line</option>
+                </select>
+              </label>
+              <label className="flex items-center gap-2 text-sm md:col-span-2">
+                <input
+                  type="checkbox"
+                  checked={draft.taxInclusive}
+                  onChange={(event) => setField("taxInclusive", event.target.checked)}
+                />
+                Menu prices already include tax
+              </label>
+            </section>
+
+            <section className="grid gap-3 rounded-2xl border border-slate-200 bg-white p-4 shadow-lg">
+              <h2 className="text-lg font-bold text-slate-800">Receipt</h2>
+              <label>
+                <span className={labelClass}>Header</span>
+                <textarea
+                  value={draft.receiptHeader}
+                  onChange={(event) => setField("receiptHeader", event.target.value)}
+                  rows={2}
+                  placeholder="Printed above the items"
+                  className="w-full rounded-md border border-slate-300 px-2 py-1 outline-none"
+                />
+              </label>
+              <label>
+                <span className={labelClass}>Footer</span>
+                <textarea
+                  value={draft.receiptFooter}
+                  onChange={(event) => setField("receiptFooter", event.target.value)}
+                  rows={2}
+                  placeholder="e.g. Thank you, see you soon!"
+                  className="w-full rounded-md border border-slate-300 px-2 py-1 outline-none"
+                />
+              </label>
+            </section>
+
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="min-h-11 w-full rounded-xl bg-[#2E7D32] px-4 font-semibold text-white disabled:opacity-60"
+            >
+              {isSubmitting ? "Saving..." : "Save settings"}
+            </button>
+          </form>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { canAccessPage } from "../../../../../../lib/access";
+import { CatalogError, isCatalogEntity, updateCatalogEntry } from "../../../../../../lib/catalog-admin";
+import { orderErrorResponse, readJsonObject } from "../../../../../../lib/order-requests";
+import { getSession } from "../../../../../../lib/session";
+
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ entity: string; id: string }> },
+) {
+  const session = await getSession();
+  if (!session || !canAccessPage(session.role, "/admin")) {
+    return NextResponse.json({ error: "Sign in as a manager to edit the menu." }, { status: 401 });
+  }
+
+  try {
+    const { entity, id } = await params;
+    if (!isCatalogEntity(entity)) {
+      throw new CatalogError(`Unknown catalog entity ${entity}.`, 404);
+    }
+    const body = await readJsonObject(request);
+    const entry = await updateCatalogEntry(entity, id, body);
+    return NextResponse.json({ entry });
+  } catch (error) {
+    return orderErrorResponse(error, "Unable to save the catalog entry");
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { canAccessPage } from "../../../../../lib/access";
+import { CatalogError, reorderCategories } from "../../../../../lib/catalog-admin";
+import { orderErrorResponse, readJsonObject } from "../../../../../lib/order-requests";
+import { getSession } from "../../../../../lib/session";
+
+/** Saves a drag-and-drop category order sent as `{ categoryIds }`. */
+export async function PUT(request: Request) {
+  const session = await getSession();
+  if (!session || !canAccessPage(session.role, "/admin")) {
+    return NextResponse.json({ error: "Sign in as a manager to edit the menu." }, { status: 401 });
+  }
+
+  try {
+    const body = await readJsonObject(request);
+    const categoryIds = body.categoryIds;
+    if (!Array.isArray(categoryIds) || !categoryIds.every((id) => typeof id === "string")) {
+      throw new CatalogError("categoryIds must be a list of category ids.");
+    }
+    await reorderCategories(categoryIds);
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    return orderErrorResponse(error, "Unable to reorder categories");
+  }
+}
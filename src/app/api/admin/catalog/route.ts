@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { canAccessPage } from "../../../../lib/access";
+import { loadAdminCatalog } from "../../../../lib/catalog-admin";
+import { orderErrorResponse } from "../../../../lib/order-requests";
+import { getSession } from "../../../../lib/session";
+
+export async function GET() {
+  const session = await getSession();
+  if (!session || !canAccessPage(session.role, "/admin")) {
+    return NextResponse.json({ error: "Sign in as a manager to edit the menu." }, { status: 401 });
+  }
+
+  try {
+    const catalog = await loadAdminCatalog();
+    return NextResponse.json(catalog, { headers: { "Cache-Control": "no-store" } });
+  } catch (error) {
+    return orderErrorResponse(error, "Unable to load the catalog");
+  }
+}
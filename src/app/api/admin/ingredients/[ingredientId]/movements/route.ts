@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { canAccessPage } from "../../../../../../lib/access";
+import { recordManualIngredientMovement } from "../../../../../../lib/ingredients";
+import { parseManualMovement } from "../../../../../../lib/inventory";
+import { orderErrorResponse, readJsonObject } from "../../../../../../lib/order-requests";
+import { getSession } from "../../../../../../lib/session";
+
+export async function POST(request: Request, { params }: { params: Promise<{ ingredientId: string }> }) {
+  const session = await getSession();
+  if (!session || !canAccessPage(session.role, "/admin")) {
+    return NextResponse.json({ error: "Sign in as a manager to adjust stock." }, { status: 401 });
+  }
+
+  try {
+    const { ingredientId } = await params;
+    const body = await readJsonObject(request);
+    const ingredient = await recordManualIngredientMovement({
+      ingredientId,
+      userId: session.sub,
+      ...parseManualMovement(body),
+    });
+    return NextResponse.json({ ingredient }, { status: 201 });
+  } catch (error) {
+    return orderErrorResponse(error, "Unable to record ingredient movement");
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { canAccessPage } from "../../../../lib/access";
+import {
+  createIngredient,
+  isIngredientUnit,
+  listIngredients,
+  loadRecipeBook,
+} from "../../../../lib/ingredients";
+import { InventoryError } from "../../../../lib/inventory";
+import { orderErrorResponse, readJsonObject } from "../../../../lib/order-requests";
+import { getSession } from "../../../../lib/session";
+
+export async function GET() {
+  const session = await getSession();
+  if (!session || !canAccessPage(session.role, "/admin")) {
+    return NextResponse.json({ error: "Sign in as a manager to view ingredients." }, { status: 401 });
+  }
+
+  try {
+    const [ingredients, recipes] = await Promise.all([listIngredients(), loadRecipeBook()]);
+    return NextResponse.json({ ingredients, recipes }, { headers: { "Cache-Control": "no-store" } });
+  } catch (error) {
+    return orderErrorResponse(error, "Unable to load ingredients");
+  }
+}
+
+export async function POST(request: Request) {
+  const session = await getSession();
+  if (!session || !canAccessPage(session.role, "/admin")) {
+    return NextResponse.json({ error: "Sign in as a manager to add ingredients." }, { status: 401 });
+  }
+
+  try {
+    const body = await readJsonObject(request);
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    if (!name) {
+      throw new InventoryError("Ingredient name is required.");
+    }
+    if (!isIngredientUnit(body.unit)) {
+      throw new InventoryError("Choose a unit for the ingredient.");
+    }
+
+    const ingredient = await createIngredient({ name, unit: body.unit });
+    return NextResponse.json({ ingredient }, { status: 201 });
+  } catch (error) {
+    return orderErrorResponse(error, "Unable to add ingredient");
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { canAccessPage } from "../../../../../lib/access";
+import { ingredientUsageReport } from "../../../../../lib/ingredients";
+import { orderErrorResponse, parseDateRange } from "../../../../../lib/order-requests";
+import { getSession } from "../../../../../lib/session";
+
+/** Usage between `from` (inclusive) and `to` (exclusive); defaults to the last seven days. */
+export async function GET(request: Request) {
+  const session = await getSession();
+  if (!session || !canAccessPage(session.role, "/admin")) {
+    return NextResponse.json({ error: "Sign in as a manager to view usage." }, { status: 401 });
+  }
+
+  try {
+    const { from, to } = parseDateRange(new URL(request.url).searchParams, 7);
+    const usage = await ingredientUsageReport(from, to);
+    return NextResponse.json(
+      { from: from.toISOString(), to: to.toISOString(), usage },
+      { headers: { "Cache-Control": "no-store" } },
+    );
+  } catch (error) {
+    return orderErrorResponse(error, "Unable to load ingredient usage");
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { canAccessPage } from "../../../../../lib/access";
+import { listMovements } from "../../../../../lib/inventory";
+import { orderErrorResponse } from "../../../../../lib/order-requests";
+import { getSession } from "../../../../../lib/session";
+
+export async function GET(_request: Request, { params }: { params: Promise<{ productId: string }> }) {
+  const session = await getSession();
+  if (!session || !canAccessPage(session.role, "/admin")) {
+    return NextResponse.json({ error: "Sign in as a manager to view stock history." }, { status: 401 });
+  }
+
+  try {
+    const { productId } = await params;
+    const movements = await listMovements(productId);
+    return NextResponse.json({ movements }, { headers: { "Cache-Control": "no-store" } });
+  } catch (error) {
+    return orderErrorResponse(error, "Unable to load stock history");
+  }
+}
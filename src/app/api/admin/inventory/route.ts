@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { canAccessPage } from "../../../../lib/access";
+import {
+  InventoryError,
+  listStockLevels,
+  parseManualMovement,
+  recordManualMovement,
+} from "../../../../lib/inventory";
+import { orderErrorResponse, readJsonObject } from "../../../../lib/order-requests";
+import { getSession } from "../../../../lib/session";
+
+export async function GET() {
+  const session = await getSession();
+  if (!session || !canAccessPage(session.role, "/admin")) {
+    return NextResponse.json({ error: "Sign in as a manager to view stock." }, { status: 401 });
+  }
+
+  try {
+    const levels = await listStockLevels();
+    return NextResponse.json({ levels }, { headers: { "Cache-Control": "no-store" } });
+  } catch (error) {
+    return orderErrorResponse(error, "Unable to load stock levels");
+  }
+}
+
+export async function POST(request: Request) {
+  const session = await getSession();
+  if (!session || !canAccessPage(session.role, "/admin")) {
+    return NextResponse.json({ error: "Sign in as a manager to adjust stock." }, { status: 401 });
+  }
+
+  try {
+    const body = await readJsonObject(request);
+    if (typeof body.productId !== "string" || !body.productId) {
+      throw new InventoryError("Choose a product.");
+    }
+
+    const level = await recordManualMovement({
+      productId: body.productId,
+      userId: session.sub,
+      ...parseManualMovement(body),
+    });
+    return NextResponse.json({ level }, { status: 201 });
+  } catch (error) {
+    return orderErrorResponse(error, "Unable to record stock movement");
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { canAccessPage } from "../../../../lib/access";
+import { orderErrorResponse, parseDateRange } from "../../../../lib/order-requests";
+import { prepTimeReport } from "../../../../lib/prep-times";
+import { getSession } from "../../../../lib/session";
+
+/** Average and p90 ticket times between `from` and `to`; defaults to the last day. */
+export async function GET(request: Request) {
+  const session = await getSession();
+  if (!session || !canAccessPage(session.role, "/admin")) {
+    return NextResponse.json({ error: "Sign in as a manager to view prep times." }, { status: 401 });
+  }
+
+  try {
+    const { from, to } = parseDateRange(new URL(request.url).searchParams, 1);
+    const report = await prepTimeReport(from, to);
+    return NextResponse.json(
+      { from: from.toISOString(), to: to.toISOString(), ...report },
+      { headers: { "Cache-Control": "no-store" } },
+    );
+  } catch (error) {
+    return orderErrorResponse(error, "Unable to load prep times");
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { canAccessPage } from "../../../../lib/access";
+import { loadRecipeBook, saveRecipe, type RecipeLine } from "../../../../lib/ingredients";
+import { InventoryError } from "../../../../lib/inventory";
+import { isRecord, orderErrorResponse, readJsonObject } from "../../../../lib/order-requests";
+import { getSession } from "../../../../lib/session";
+
+function parseRecipeLines(value: unknown): RecipeLine[] {
+  if (!Array.isArray(value)) {
+    throw new InventoryError("items must be an array.");
+  }
+  return value.map((entry) => {
+    if (!isRecord(entry) || typeof entry.ingredientId !== "string" || !entry.ingredientId) {
+      throw new InventoryError("Each recipe line needs an ingredient.");
+    }
+    const quantity = Number(entry.quantity);
+    if (!Number.isInteger(quantity)) {
+      throw new InventoryError("Recipe quantities must be whole numbers.");
+    }
+    return { ingredientId: entry.ingredientId, quantity };
+  });
+}
+
+/** Replaces one product or modifier recipe with `{ target, id, items }`. */
+export async function PUT(request: Request) {
+  const session = await getSession();
+  if (!session || !canAccessPage(session.role, "/admin")) {
+    return NextResponse.json({ error: "Sign in as a manager to edit recipes." }, { status: 401 });
+  }
+
+  try {
+    const body = await readJsonObject(request);
+    if (body.target !== "product" && body.target !== "modifier") {
+      throw new InventoryError('target must be "product" or "modifier".');
+    }
+    if (typeof body.id !== "string" || !body.id) {
+      throw new InventoryError("Choose what the recipe is for.");
+    }
+
+    await saveRecipe(body.target, body.id, parseRecipeLines(body.items));
+    const recipes = await loadRecipeBook();
+    return NextResponse.json({ recipes });
+  } catch (error) {
+    return orderErrorResponse(error, "Unable to save recipe");
+  }
+}
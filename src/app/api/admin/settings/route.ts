@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { canAccessPage } from "../../../../lib/access";
+import { orderErrorResponse, readJsonObject } from "../../../../lib/order-requests";
+import { prisma } from "../../../../lib/prisma";
+import { getSession } from "../../../../lib/session";
+import { loadStoreSettings, parseStoreSettings, saveStoreSettings } from "../../../../lib/store-config";
+
+export async function GET() {
+  const session = await getSession();
+  if (!session || !canAccessPage(session.role, "/admin")) {
+    return NextResponse.json({ error: "Sign in as a manager to view store settings." }, { status: 401 });
+  }
+
+  try {
+    const [settings, taxProfiles] = await Promise.all([
+      loadStoreSettings(),
+      prisma.taxProfile.findMany({
+        where: { isActive: true },
+        orderBy: { name: "asc" },
+        select: { id: true, name: true, rateBasisPoints: true },
+      }),
+    ]);
+    return NextResponse.json({ settings, taxProfiles }, { headers: { "Cache-Control": "no-store" } });
+  } catch (error) {
+    return orderErrorResponse(error, "Unable to load store settings");
+  }
+}
+
+/** Replaces every setting at once with the form sent by /admin/settings. */
+export async function PUT(request: Request) {
+  const session = await getSession();
+  if (!session || !canAccessPage(session.role, "/admin")) {
+    return NextResponse.json({ error: "Sign in as a manager to change store settings." }, { status: 401 });
+  }
+
+  try {
+    const settings = await saveStoreSettings(parseStoreSettings(await readJsonObject(request)));
+    return NextResponse.json({ settings });
+  } catch (error) {
+    return orderErrorResponse(error, "Unable to save store settings");
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { homePageFor } from "../../../../lib/access";
+import { isValidPin } from "../../../../lib/pin";
+import { prisma } from "../../../../lib/prisma";
+import {
+  createSessionToken,
+  SESSION_COOKIE,
+  sessionCookieOptions,
+} from "../../../../lib/session";
+import { checkStaffPin } from "../../../../lib/staff-pin";
+
+export async function POST(request: Request) {
+  let body: { userId?: unknown; pin?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Request body must be valid JSON." }, { status: 400 });
+  }
+
+  if (typeof body.userId !== "string" || !isValidPin(body.pin)) {
+    return NextResponse.json({ error: "Choose a user and enter a 4-8 digit PIN." }, { status: 400 });
+  }
+
+  try {
+    const check = await checkStaffPin(body.userId, body.pin);
+    if (!check.ok) {
+      return NextResponse.json({ error: check.error }, { status: check.status });
+    }
+    const user = check.user;
+    await prisma.user.update({ where: { id: user.id }, data: { lastLoginAt: new Date() } });
+
+    const session = { sub: user.id, name: user.fullName, role: user.role };
+    const response = NextResponse.json({
+      userId: user.id,
+      name: user.fullName,
+      role: user.role,
+      home: homePageFor(user.role),
+    });
+    response.cookies.set(SESSION_COOKIE, createSessionToken(session), sessionCookieOptions);
+    return response;
+  } catch (error) {
+    console.error("Failed to sign in:", error);
+    return NextResponse.json({ error: "Unable to sign in." }, { status: 500 });
+  }
+}
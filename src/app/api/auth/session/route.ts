@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { getSession } from "../../../../lib/session";
+
+export async function GET() {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: "Not signed in." }, { status: 401 });
+  }
+  return NextResponse.json(
+    { userId: session.sub, name: session.name, role: session.role },
+    { headers: { "Cache-Control": "no-store" } },
+  );
+}
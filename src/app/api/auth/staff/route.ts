@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { prisma } from "../../../../lib/prisma";
+
+// Public on purpose: the shared-tablet login screen lists who can sign in.
+export async function GET() {
+  try {
+    const users = await prisma.user.findMany({
+      where: { isActive: true, pinHash: { not: null } },
+      orderBy: { fullName: "asc" },
+      select: { id: true, fullName: true, role: true },
+    });
+    return NextResponse.json({ users }, { headers: { "Cache-Control": "no-store" } });
+  } catch (error) {
+    console.error("Failed to load staff list:", error);
+    return NextResponse.json({ error: "Unable to load staff list." }, { status: 500 });
+  }
+}
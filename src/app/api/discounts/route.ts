@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { SELLING_ROLES } from "../../../lib/access";
+import { listActiveDiscounts } from "../../../lib/discounts";
+import { orderErrorResponse } from "../../../lib/order-requests";
+import { getSession } from "../../../lib/session";
+
+export async function GET() {
+  const session = await getSession();
+  if (!session || !SELLING_ROLES.includes(session.role)) {
+    return NextResponse.json({ error: "Sign in as a waiter or cashier to see discounts." }, { status: 401 });
+  }
+
+  try {
+    const discounts = await listActiveDiscounts();
+    return NextResponse.json({ discounts }, { headers: { "Cache-Control": "no-store" } });
+  } catch (error) {
+    return orderErrorResponse(error, "Unable to load discounts");
+  }
+}
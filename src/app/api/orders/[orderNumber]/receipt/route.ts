@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { SELLING_ROLES } from "../../../../../lib/access";
+import { loadReceipt, printReceipt, receiptResponse } from "../../../../../lib/order-receipts";
+import { orderErrorResponse, parseOrderNumber, parseReceiptFormat } from "../../../../../lib/order-requests";
+import { getSession } from "../../../../../lib/session";
+
+// The receipt as it was first issued. `?format=` picks html (default), text or
+// escpos; `?print=1` makes the page open the print dialog.
+export async function GET(request: Request, { params }: { params: Promise<{ orderNumber: string }> }) {
+  const session = await getSession();
+  if (!session || !SELLING_ROLES.includes(session.role)) {
+    return NextResponse.json({ error: "Sign in to print receipts." }, { status: 401 });
+  }
+
+  try {
+    const { orderNumber } = await params;
+    const { searchParams } = new URL(request.url);
+    const format = parseReceiptFormat(searchParams);
+    const receipt = await loadReceipt(parseOrderNumber(orderNumber), { reprint: false });
+    return receiptResponse(receipt, format, searchParams.get("print") === "1");
+  } catch (error) {
+    return orderErrorResponse(error, "Unable to load receipt");
+  }
+}
+
+// Sends the receipt to the printer named by POS_RECEIPT_PRINTER.
+export async function POST(_request: Request, { params }: { params: Promise<{ orderNumber: string }> }) {
+  const session = await getSession();
+  if (!session || !SELLING_ROLES.includes(session.role)) {
+    return NextResponse.json({ error: "Sign in to print receipts." }, { status: 401 });
+  }
+
+  try {
+    const { orderNumber } = await params;
+    const printed = await printReceipt(parseOrderNumber(orderNumber), { reprint: false });
+    return NextResponse.json(printed);
+  } catch (error) {
+    return orderErrorResponse(error, "Unable to print receipt");
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { SELLING_ROLES } from "../../../../../lib/access";
+import { resolveApprover } from "../../../../../lib/manager-approval";
+import {
+  orderErrorResponse,
+  parseNotes,
+  parseOrderNumber,
+  parseRefundLines,
+  parseRefundMethod,
+  readJsonObject,
+} from "../../../../../lib/order-requests";
+import { refundOrder } from "../../../../../lib/refunds";
+import { getSession } from "../../../../../lib/session";
+
+export async function POST(request: Request, { params }: { params: Promise<{ orderNumber: string }> }) {
+  const session = await getSession();
+  if (!session || !SELLING_ROLES.includes(session.role)) {
+    return NextResponse.json({ error: "Sign in as a waiter or cashier to refund." }, { status: 401 });
+  }
+
+  try {
+    const { orderNumber } = await params;
+    const body = await readJsonObject(request);
+    const refund = await refundOrder(parseOrderNumber(orderNumber), {
+      cashierId: session.sub,
+      approverId: await resolveApprover(session, body),
+      method: parseRefundMethod(body),
+      reason: parseNotes(body),
+      lines: parseRefundLines(body),
+    });
+    return NextResponse.json(refund);
+  } catch (error) {
+    return orderErrorResponse(error, "Unable to refund order");
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { SELLING_ROLES } from "../../../../lib/access";
+import { orderErrorResponse, parseOrderNumber } from "../../../../lib/order-requests";
+import { getRefundableOrder } from "../../../../lib/refunds";
+import { getSession } from "../../../../lib/session";
+
+export async function GET(_request: Request, { params }: { params: Promise<{ orderNumber: string }> }) {
+  const session = await getSession();
+  if (!session || !SELLING_ROLES.includes(session.role)) {
+    return NextResponse.json({ error: "Sign in to look up orders." }, { status: 401 });
+  }
+
+  try {
+    const { orderNumber } = await params;
+    const order = await getRefundableOrder(parseOrderNumber(orderNumber));
+    return NextResponse.json(order, { headers: { "Cache-Control": "no-store" } });
+  } catch (error) {
+    return orderErrorResponse(error, "Unable to load order");
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { SELLING_ROLES } from "../../../lib/access";
+import { resolveDiscount } from "../../../lib/manager-approval";
+import {
+  orderErrorResponse,
+  parseDestination,
+  parseItems,
+  parseNotes,
+  parsePayments,
+  readJsonObject,
+} from "../../../lib/order-requests";
+import { createPaidOrder } from "../../../lib/orders";
+import { getSession } from "../../../lib/session";
+
+export async function POST(request: Request) {
+  const session = await getSession();
+  if (!session || !SELLING_ROLES.includes(session.role)) {
+    return NextResponse.json({ error: "Sign in as a waiter or cashier to sell." }, { status: 401 });
+  }
+
+  try {
+    const body = await readJsonObject(request);
+    const order = await createPaidOrder({
+      cashierId: session.sub,
+      ...parseDestination(body),
+      notes: parseNotes(body),
+      discount: await resolveDiscount(session, body),
+      items: parseItems(body),
+      payments: parsePayments(body),
+    });
+    return NextResponse.json(order, { status: 201 });
+  } catch (error) {
+    return orderErrorResponse(error, "Unable to save order");
+  }
+}
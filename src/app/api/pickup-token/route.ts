@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { PICKUP_DISPLAY_ROLE } from "../../../lib/pickup";
+import { signToken } from "../../../lib/signed-token";
+
+const PICKUP_TOKEN_TTL_SECONDS = 12 * 60 * 60;
+
+/**
+ * Socket token for the public /pickup screen. When POS_PICKUP_DISPLAY_KEY is
+ * set, the screen's link must carry it as `?key=`.
+ */
+export async function GET(request: Request) {
+  const expectedKey = process.env.POS_PICKUP_DISPLAY_KEY?.trim();
+  if (expectedKey && new URL(request.url).searchParams.get("key") !== expectedKey) {
+    return NextResponse.json({ error: "This pickup display link is not valid." }, { status: 401 });
+  }
+
+  const token = signToken(
+    { sub: "pickup-display", name: "Pickup display", role: PICKUP_DISPLAY_ROLE },
+    "kitchen-ws",
+    PICKUP_TOKEN_TTL_SECONDS,
+  );
+  return NextResponse.json({ token }, { headers: { "Cache-Control": "no-store" } });
+}
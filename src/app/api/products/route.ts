@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { getCatalogVersion, loadCatalog } from "../../../lib/catalog";
+
+const cacheHeaders = {
+  // Tablets must revalidate every load, but an unchanged menu costs a 304.
+  "Cache-Control": "private, no-cache",
+};
+
+function matchesEtag(header: string | null, etag: string) {
+  if (!header) {
+    return false;
+  }
+  return header
+    .split(",")
+    .map((value) => value.trim())
+    .some((value) => value === "*" || value === etag || `W/${value}` === etag);
+}
+
+export async function GET(request: Request) {
+  try {
+    const version = await getCatalogVersion();
+    const headers: Record<string, string> = { ...cacheHeaders, ETag: version.etag };
+    if (version.lastModified) {
+      headers["Last-Modified"] = version.lastModified.toUTCString();
+    }
+
+    if (matchesEtag(request.headers.get("if-none-match"), version.etag)) {
+      return new NextResponse(null, { status: 304, headers });
+    }
+
+    const catalog = await loadCatalog();
+    return NextResponse.json(catalog, { headers });
+  } catch (error) {
+    console.error("Failed to load product catalog:", error);
+    return NextResponse.json({ error: "Unable to load product catalog." }, { status: 500 });
+  }
+}
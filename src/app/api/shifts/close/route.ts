@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { SELLING_ROLES } from "../../../../lib/access";
+import {
+  orderErrorResponse,
+  parseCashAmount,
+  parseNotes,
+  readJsonObject,
+} from "../../../../lib/order-requests";
+import { closeShift } from "../../../../lib/shifts";
+import { getSession } from "../../../../lib/session";
+
+export async function POST(request: Request) {
+  const session = await getSession();
+  if (!session || !SELLING_ROLES.includes(session.role)) {
+    return NextResponse.json({ error: "Sign in as a waiter or cashier to close a shift." }, { status: 401 });
+  }
+
+  try {
+    const body = await readJsonObject(request);
+    const shift = await closeShift(session.sub, parseCashAmount(body, "closingCashCents"), parseNotes(body));
+    return NextResponse.json({ shift });
+  } catch (error) {
+    return orderErrorResponse(error, "Unable to close shift");
+  }
+}
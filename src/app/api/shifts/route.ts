@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { SELLING_ROLES } from "../../../lib/access";
+import {
+  orderErrorResponse,
+  parseCashAmount,
+  parseNotes,
+  readJsonObject,
+} from "../../../lib/order-requests";
+import { getCurrentShift, openShift } from "../../../lib/shifts";
+import { getSession } from "../../../lib/session";
+
+export async function GET() {
+  const session = await getSession();
+  if (!session || !SELLING_ROLES.includes(session.role)) {
+    return NextResponse.json({ error: "Sign in to view your shift." }, { status: 401 });
+  }
+
+  try {
+    const shift = await getCurrentShift(session.sub);
+    return NextResponse.json({ shift }, { headers: { "Cache-Control": "no-store" } });
+  } catch (error) {
+    return orderErrorResponse(error, "Unable to load shift");
+  }
+}
+
+export async function POST(request: Request) {
+  const session = await getSession();
+  if (!session || !SELLING_ROLES.includes(session.role)) {
+    return NextResponse.json({ error: "Sign in as a waiter or cashier to open a shift." }, { status: 401 });
+  }
+
+  try {
+    const body = await readJsonObject(request);
+    const shift = await openShift(session.sub, parseCashAmount(body, "openingCashCents"), parseNotes(body));
+    return NextResponse.json({ shift }, { status: 201 });
+  } catch (error) {
+    return orderErrorResponse(error, "Unable to open shift");
+  }
+}
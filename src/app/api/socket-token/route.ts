@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { getSession } from "../../../lib/session";
+import { signToken } from "../../../lib/signed-token";
+
+const SOCKET_TOKEN_TTL_SECONDS = 5 * 60;
+
+export async function GET() {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: "Sign in to connect to the kitchen channel." }, { status: 401 });
+  }
+
+  const token = signToken(
+    { sub: session.sub, name: session.name, role: session.role },
+    "kitchen-ws",
+    SOCKET_TOKEN_TTL_SECONDS,
+  );
+  return NextResponse.json(
+    { token, role: session.role, name: session.name },
+    { headers: { "Cache-Control": "no-store" } },
+  );
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+import { orderErrorResponse } from "../../../lib/order-requests";
+import { loadStoreProfile } from "../../../lib/store-config";
+
+/** Store name, currency, timezone and receipt text that every screen needs. */
+export async function GET() {
+  try {
+    return NextResponse.json(await loadStoreProfile(), { headers: { "Cache-Control": "no-store" } });
+  } catch (error) {
+    return orderErrorResponse(error, "Unable to load store settings");
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { prisma } from "../../../lib/prisma";
+
+export async function GET() {
+  try {
+    const tables = await prisma.table.findMany({
+      where: { isActive: true },
+      orderBy: { name: "asc" },
+      select: { id: true, name: true },
+    });
+    return NextResponse.json({ tables }, { headers: { "Cache-Control": "no-store" } });
+  } catch (error) {
+    console.error("Failed to load tables:", error);
+    return NextResponse.json({ error: "Unable to load tables." }, { status: 500 });
+  }
+}
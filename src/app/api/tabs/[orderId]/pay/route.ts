@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { SELLING_ROLES } from "../../../../../lib/access";
+import { resolveDiscount } from "../../../../../lib/manager-approval";
+import {
+  orderErrorResponse,
+  parsePayments,
+  readJsonObject,
+} from "../../../../../lib/order-requests";
+import { payTab } from "../../../../../lib/orders";
+import { getSession } from "../../../../../lib/session";
+
+export async function POST(request: Request, { params }: { params: Promise<{ orderId: string }> }) {
+  const session = await getSession();
+  if (!session || !SELLING_ROLES.includes(session.role)) {
+    return NextResponse.json({ error: "Sign in as a waiter or cashier to take payment." }, { status: 401 });
+  }
+
+  try {
+    const { orderId } = await params;
+    const body = await readJsonObject(request);
+    const order = await payTab(orderId, {
+      cashierId: session.sub,
+      discount: await resolveDiscount(session, body),
+      payments: parsePayments(body),
+    });
+    return NextResponse.json(order);
+  } catch (error) {
+    return orderErrorResponse(error, "Unable to settle tab");
+  }
+}
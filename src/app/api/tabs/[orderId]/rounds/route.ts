@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { SELLING_ROLES } from "../../../../../lib/access";
+import { orderErrorResponse, parseItems, readJsonObject } from "../../../../../lib/order-requests";
+import { addTabRound } from "../../../../../lib/orders";
+import { getSession } from "../../../../../lib/session";
+
+export async function POST(request: Request, { params }: { params: Promise<{ orderId: string }> }) {
+  const session = await getSession();
+  if (!session || !SELLING_ROLES.includes(session.role)) {
+    return NextResponse.json({ error: "Sign in as a waiter or cashier to add a round." }, { status: 401 });
+  }
+
+  try {
+    const { orderId } = await params;
+    const body = await readJsonObject(request);
+    const round = await addTabRound(orderId, session.sub, parseItems(body));
+    return NextResponse.json(round, { status: 201 });
+  } catch (error) {
+    return orderErrorResponse(error, "Unable to add round");
+  }
+}
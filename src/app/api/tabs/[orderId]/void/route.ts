@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { SELLING_ROLES } from "../../../../../lib/access";
+import { resolveApprover } from "../../../../../lib/manager-approval";
+import { orderErrorResponse, parseNotes, readJsonObject } from "../../../../../lib/order-requests";
+import { voidOrder } from "../../../../../lib/refunds";
+import { getSession } from "../../../../../lib/session";
+
+export async function POST(request: Request, { params }: { params: Promise<{ orderId: string }> }) {
+  const session = await getSession();
+  if (!session || !SELLING_ROLES.includes(session.role)) {
+    return NextResponse.json({ error: "Sign in as a waiter or cashier to void a tab." }, { status: 401 });
+  }
+
+  try {
+    const { orderId } = await params;
+    const body = await readJsonObject(request);
+    const voided = await voidOrder(orderId, {
+      approverId: await resolveApprover(session, body),
+      reason: parseNotes(body),
+    });
+    return NextResponse.json(voided);
+  } catch (error) {
+    return orderErrorResponse(error, "Unable to void tab");
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { SELLING_ROLES } from "../../../lib/access";
+import {
+  orderErrorResponse,
+  parseDestination,
+  parseItems,
+  parseNotes,
+  readJsonObject,
+} from "../../../lib/order-requests";
+import { listOpenTabs, openTab } from "../../../lib/orders";
+import { getSession } from "../../../lib/session";
+
+export async function GET() {
+  const session = await getSession();
+  if (!session || !SELLING_ROLES.includes(session.role)) {
+    return NextResponse.json({ error: "Sign in to view open tabs." }, { status: 401 });
+  }
+
+  try {
+    const tabs = await listOpenTabs();
+    return NextResponse.json({ tabs }, { headers: { "Cache-Control": "no-store" } });
+  } catch (error) {
+    return orderErrorResponse(error, "Unable to load open tabs");
+  }
+}
+
+export async function POST(request: Request) {
+  const session = await getSession();
+  if (!session || !SELLING_ROLES.includes(session.role)) {
+    return NextResponse.json({ error: "Sign in as a waiter or cashier to open a tab." }, { status: 401 });
+  }
+
+  try {
+    const body = await readJsonObject(request);
+    const round = await openTab({
+      cashierId: session.sub,
+      ...parseDestination(body),
+      notes: parseNotes(body),
+      items: parseItems(body),
+    });
+    return NextResponse.json(round, { status: 201 });
+  } catch (error) {
+    return orderErrorResponse(error, "Unable to open tab");
+  }
+}
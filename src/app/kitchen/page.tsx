@@ -1,22 +1,35 @@
 "use client";
 
+import Link from "next/link";
 import { useEffect, useMemo, useRef, useState } from "react";
 import {
+  bumpTicketItem,
+  canSend,
+  fetchKitchenSocketGrant,
   getKitchenSocketUrl,
+  withSocketToken,
   type KitchenSocketMessage,
   type KitchenTicket,
   type KitchenTicketStatus,
+  recallTicket,
+  ticketStation,
+  withTicketStatus,
 } from "../../lib/kitchen-socket";
+import { describeDestination } from "../../lib/order-types";
+import { PREP_STATION_LABELS, PREP_STATIONS, type PrepStation } from "../../lib/prep-stations";
+import type { StaffRole } from "../../lib/roles";
+import { decodeFrame, describeSocketError, encodeFrame, nextFrameRef } from "../../lib/socket-protocol";
+import { DEFAULT_STORE_PROFILE, fetchStoreProfile, type StoreProfile } from "../../lib/store-settings";
+import {
+  formatElapsed,
+  prepUrgency,
+  ticketThresholds,
+  type CategoryPrepThresholds,
+  type PrepUrgency,
+} from "../../lib/ticket-timing";
 
 type SocketStatus = "connecting" | "connected" | "disconnected";
-
-function parseMessage(raw: string): KitchenSocketMessage | null {
-  try {
-    return JSON.parse(raw) as KitchenSocketMessage;
-  } catch {
-    return null;
-  }
-}
+type StationFilter = PrepStation | "ALL";
 
 function statusColor(status: KitchenTicketStatus) {
   if (status === "new") {
@@ -28,24 +41,105 @@ function statusColor(status: KitchenTicketStatus) {
   return "bg-green-100 text-green-700";
 }
 
+function urgencyStyles(urgency: PrepUrgency) {
+  if (urgency === "late") {
+    return { card: "border-red-500 shadow-red-900/40", timer: "bg-red-600 text-white" };
+  }
+  if (urgency === "warn") {
+    return { card: "border-amber-400 shadow-amber-900/30", timer: "bg-amber-400 text-slate-900" };
+  }
+  return { card: "border-slate-700 shadow-black/25", timer: "bg-slate-700 text-slate-100" };
+}
+
+// The board only needs each category's thresholds out of the menu.
+async function fetchCategoryThresholds() {
+  try {
+    const response = await fetch("/api/products", { cache: "no-cache" });
+    if (!response.ok) {
+      return null;
+    }
+    const payload = (await response.json()) as {
+      categories?: Array<CategoryPrepThresholds & { id: string }>;
+    };
+    return new Map(
+      (payload.categories ?? []).map((category) => [
+        category.id,
+        { prepWarnMinutes: category.prepWarnMinutes, prepLateMinutes: category.prepLateMinutes },
+      ]),
+    );
+  } catch {
+    return null;
+  }
+}
+
+// Applies a bump to the board: a ticket whose last item is bumped moves to
+// the completed panel, like a status update.
+function withBump(tickets: KitchenTicket[], ticketId: string, itemId: string, done: boolean, at?: string) {
+  return tickets.map((ticket) => (ticket.id === ticketId ? bumpTicketItem(ticket, itemId, done, at) : ticket));
+}
+
+function withStatus(tickets: KitchenTicket[], id: string, status: KitchenTicketStatus, at?: string) {
+  return tickets.map((ticket) => (ticket.id === id ? withTicketStatus(ticket, status, at) : ticket));
+}
+
+function matchesSearch(ticket: KitchenTicket, query: string) {
+  if (!query) {
+    return true;
+  }
+  const haystack = [String(ticket.receiptNo), ticket.tableName ?? "", ...ticket.items.map((item) => item.name)];
+  return haystack.some((value) => value.toLowerCase().includes(query));
+}
+
 export default function KitchenPage() {
+  // Active tickets and today's finished ones; the board and the completed panel split them by status.
   const [tickets, setTickets] = useState<KitchenTicket[]>([]);
   const [socketStatus, setSocketStatus] = useState<SocketStatus>("connecting");
   const [statusMessage, setStatusMessage] = useState("");
+  const [role, setRole] = useState<StaffRole | null>(null);
+  const [store, setStore] = useState<StoreProfile>(DEFAULT_STORE_PROFILE);
+  const [station, setStation] = useState<StationFilter>("ALL");
+  const [thresholds, setThresholds] = useState<Map<string, CategoryPrepThresholds>>(new Map());
+  const [now, setNow] = useState(() => Date.now());
+  const [completedSearch, setCompletedSearch] = useState("");
 
   const socketRef = useRef<WebSocket | null>(null);
   const reconnectTimerRef = useRef<number | null>(null);
+  // Changes this board sent but the server has not answered yet, by frame
+  // ref, with the ticket as it was before so a refusal can put it back.
+  const pendingRef = useRef(new Map<string, KitchenTicket>());
+
+  useEffect(() => {
+    void fetchStoreProfile().then((profile) => profile && setStore(profile));
+    void fetchCategoryThresholds().then((byCategory) => byCategory && setThresholds(byCategory));
+  }, []);
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, []);
 
   useEffect(() => {
     let disposed = false;
 
-    const connect = () => {
+    const connect = async () => {
       if (disposed) {
         return;
       }
 
       setSocketStatus("connecting");
-      const ws = new WebSocket(getKitchenSocketUrl());
+      const grant = await fetchKitchenSocketGrant();
+      if (disposed) {
+        return;
+      }
+      if (!grant) {
+        setSocketStatus("disconnected");
+        setStatusMessage("Sign in to see kitchen tickets.");
+        reconnectTimerRef.current = window.setTimeout(() => void connect(), 5000);
+        return;
+      }
+      setRole(grant.role);
+
+      const ws = new WebSocket(withSocketToken(getKitchenSocketUrl(), grant.token));
       socketRef.current = ws;
 
       ws.onopen = () => {
@@ -58,14 +152,36 @@ export default function KitchenPage() {
       };
 
       ws.onmessage = (event) => {
-        const incoming = parseMessage(String(event.data));
-        if (!incoming) {
+        const decoded = decodeFrame(String(event.data));
+        if (!decoded.ok) {
+          return;
+        }
+        const incoming = decoded.message;
+
+        if (incoming.type === "ACK") {
+          pendingRef.current.delete(incoming.payload.ref ?? "");
+          return;
+        }
+
+        if (incoming.type === "ERROR") {
+          const { ref } = incoming.payload;
+          const previous = ref ? pendingRef.current.get(ref) : undefined;
+          if (ref && previous) {
+            pendingRef.current.delete(ref);
+            setTickets((current) => current.map((ticket) => (ticket.id === previous.id ? previous : ticket)));
+          }
+          setStatusMessage(describeSocketError(incoming.payload));
           return;
         }
 
         if (incoming.type === "ORDER_SNAPSHOT") {
           const active = incoming.payload.filter((ticket) => ticket.status !== "done");
-          setTickets(active);
+          setTickets((current) => [...active, ...current.filter((ticket) => ticket.status === "done")]);
+          return;
+        }
+
+        if (incoming.type === "COMPLETED_SNAPSHOT") {
+          setTickets((current) => [...current.filter((ticket) => ticket.status !== "done"), ...incoming.payload]);
           return;
         }
 
@@ -78,16 +194,50 @@ export default function KitchenPage() {
           return;
         }
 
+        if (incoming.type === "BUMP_ITEM") {
+          const { ticketId, itemId, done, at } = incoming.payload;
+          setTickets((current) => withBump(current, ticketId, itemId, done, at));
+          return;
+        }
+
+        if (incoming.type === "RECALL_ORDER") {
+          const { ticket } = incoming.payload;
+          if (!ticket) {
+            return;
+          }
+          setTickets((current) => [ticket, ...current.filter((entry) => entry.id !== ticket.id)]);
+          setStatusMessage(`Ticket #${ticket.receiptNo} (${PREP_STATION_LABELS[ticketStation(ticket)]}) was recalled.`);
+          return;
+        }
+
+        if (incoming.type === "ORDER_READY") {
+          const { receiptNo, round, orderType, tableName } = incoming.payload;
+          setStatusMessage(
+            `Order #${receiptNo}${round > 1 ? ` round ${round}` : ""} (${describeDestination(orderType, tableName)}) is ready.`,
+          );
+          return;
+        }
+
+        if (incoming.type === "ORDER_VOIDED") {
+          const { receiptNo } = incoming.payload;
+          setTickets((current) => current.filter((ticket) => ticket.receiptNo !== receiptNo));
+          setStatusMessage(`Order #${receiptNo} was voided. Its tickets were removed.`);
+          return;
+        }
+
+        if (incoming.type === "CATALOG_CHANGED") {
+          void fetchCategoryThresholds().then((byCategory) => byCategory && setThresholds(byCategory));
+          return;
+        }
+
+        if (incoming.type === "STORE_SETTINGS_CHANGED") {
+          void fetchStoreProfile().then((profile) => profile && setStore(profile));
+          return;
+        }
+
         if (incoming.type === "UPDATE_ORDER_STATUS") {
-          const { id, status } = incoming.payload;
-          setTickets((current) => {
-            if (status === "done") {
-              return current.filter((ticket) => ticket.id !== id);
-            }
-            return current.map((ticket) =>
-              ticket.id === id ? { ...ticket, status } : ticket,
-            );
-          });
+          const { id, status, at } = incoming.payload;
+          setTickets((current) => withStatus(current, id, status, at));
         }
       };
 
@@ -99,13 +249,15 @@ export default function KitchenPage() {
         if (disposed) {
           return;
         }
+        // The snapshots sent on reconnect replace whatever was still pending.
+        pendingRef.current.clear();
         setSocketStatus("disconnected");
         setStatusMessage("Socket disconnected. Retrying...");
-        reconnectTimerRef.current = window.setTimeout(connect, 1500);
+        reconnectTimerRef.current = window.setTimeout(() => void connect(), 1500);
       };
     };
 
-    connect();
+    void connect();
 
     return () => {
       disposed = true;
@@ -119,31 +271,88 @@ export default function KitchenPage() {
   }, []);
 
   const activeTickets = useMemo(
-    () => tickets.filter((ticket) => ticket.status !== "done"),
-    [tickets],
+    () =>
+      tickets.filter(
+        (ticket) => ticket.status !== "done" && (station === "ALL" || ticketStation(ticket) === station),
+      ),
+    [tickets, station],
   );
 
-  const updateTicketStatus = (id: string, status: KitchenTicketStatus) => {
-    setTickets((current) => {
-      if (status === "done") {
-        return current.filter((ticket) => ticket.id !== id);
-      }
-      return current.map((ticket) =>
-        ticket.id === id ? { ...ticket, status } : ticket,
-      );
-    });
+  const completedTickets = useMemo(() => {
+    const query = completedSearch.trim().toLowerCase();
+    return tickets
+      .filter(
+        (ticket) =>
+          ticket.status === "done" &&
+          (station === "ALL" || ticketStation(ticket) === station) &&
+          matchesSearch(ticket, query),
+      )
+      .sort((a, b) => (b.completedAt ?? "").localeCompare(a.completedAt ?? ""));
+  }, [tickets, station, completedSearch]);
+
+  const canUpdateTickets = role !== null && canSend(role, "UPDATE_ORDER_STATUS");
+  const canBumpItems = role !== null && canSend(role, "BUMP_ITEM");
+  const canRecallTickets = role !== null && canSend(role, "RECALL_ORDER");
 
+  /** Shows a change at once and sends it with a ref; an ERROR for that ref rolls the ticket back. */
+  const sendTicketChange = (
+    message: KitchenSocketMessage,
+    ticketId: string,
+    change: (ticket: KitchenTicket) => KitchenTicket,
+    offlineMessage: string,
+  ) => {
     const socket = socketRef.current;
     if (!socket || socket.readyState !== WebSocket.OPEN) {
-      setStatusMessage("Unable to sync update. Kitchen socket is offline.");
+      setStatusMessage(offlineMessage);
       return;
     }
+    const previous = tickets.find((ticket) => ticket.id === ticketId);
+    if (!previous) {
+      return;
+    }
+    const ref = nextFrameRef();
+    pendingRef.current.set(ref, previous);
+    setTickets((current) => current.map((ticket) => (ticket.id === ticketId ? change(ticket) : ticket)));
+    socket.send(encodeFrame(message, ref));
+  };
 
-    const message: KitchenSocketMessage = {
-      type: "UPDATE_ORDER_STATUS",
-      payload: { id, status },
-    };
-    socket.send(JSON.stringify(message));
+  const bumpItem = (ticketId: string, itemId: string, done: boolean) => {
+    if (!canBumpItems) {
+      setStatusMessage("Only cooks can bump items.");
+      return;
+    }
+    sendTicketChange(
+      { type: "BUMP_ITEM", payload: { ticketId, itemId, done } },
+      ticketId,
+      (ticket) => bumpTicketItem(ticket, itemId, done),
+      "Unable to bump item. Kitchen socket is offline.",
+    );
+  };
+
+  const updateTicketStatus = (id: string, status: KitchenTicketStatus) => {
+    if (!canUpdateTickets) {
+      setStatusMessage("Only cooks can update ticket status.");
+      return;
+    }
+    sendTicketChange(
+      { type: "UPDATE_ORDER_STATUS", payload: { id, status } },
+      id,
+      (ticket) => withTicketStatus(ticket, status),
+      "Unable to sync update. Kitchen socket is offline.",
+    );
+  };
+
+  const recallOrder = (id: string) => {
+    if (!canRecallTickets) {
+      setStatusMessage("Only cooks can recall tickets.");
+      return;
+    }
+    sendTicketChange(
+      { type: "RECALL_ORDER", payload: { id } },
+      id,
+      recallTicket,
+      "Unable to recall ticket. Kitchen socket is offline.",
+    );
   };
 
   return (
@@ -154,10 +363,24 @@ export default function KitchenPage() {
       <div className="mx-auto w-full max-w-7xl space-y-4">
         <header className="flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-slate-700 bg-slate-800/80 p-4">
           <div>
-            <p className="text-xs uppercase tracking-[0.2em] text-slate-400">Kitchen Display</p>
-            <h1 className="text-2xl font-bold">Live Orders</h1>
+            <p className="text-xs uppercase tracking-[0.2em] text-slate-400">{store.displayName} · Kitchen Display</p>
+            <h1 className="text-2xl font-bold">
+              {station === "ALL" ? "Live Orders" : PREP_STATION_LABELS[station]}
+            </h1>
           </div>
-          <div className="flex items-center gap-2">
+          <div className="flex flex-wrap items-center gap-2">
+            {(["ALL", ...PREP_STATIONS] as StationFilter[]).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setStation(option)}
+                className={`rounded-full px-3 py-1 text-xs font-semibold uppercase ${
+                  station === option ? "bg-[#4F7CFF] text-white" : "bg-slate-700 text-slate-200"
+                }`}
+              >
+                {option === "ALL" ? "All stations" : PREP_STATION_LABELS[option]}
+              </button>
+            ))}
             <span
               className={`rounded-full px-3 py-1 text-xs font-semibold uppercase ${
                 socketStatus === "connected"
@@ -172,6 +395,12 @@ export default function KitchenPage() {
             <span className="rounded-full bg-slate-700 px-3 py-1 text-xs font-semibold uppercase">
               Queue {activeTickets.length}
             </span>
+            <Link
+              href="/login?next=/kitchen"
+              className="rounded-full bg-slate-700 px-3 py-1 text-xs font-semibold uppercase text-slate-200"
+            >
+              Switch user
+            </Link>
           </div>
         </header>
 
@@ -188,68 +417,159 @@ export default function KitchenPage() {
           </div>
         ) : (
           <section className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
-            {activeTickets.map((ticket) => (
-              <article
-                key={ticket.id}
-                className="rounded-2xl border border-slate-700 bg-slate-800/70 p-4 shadow-lg shadow-black/25"
-              >
-                <div className="mb-3 flex items-start justify-between gap-2">
+            {activeTickets.map((ticket) => {
+              const elapsedMs = now - new Date(ticket.createdAt).getTime();
+              const urgency = prepUrgency(
+                elapsedMs,
+                ticketThresholds(ticket.items.map((item) => item.categoryId), thresholds),
+              );
+              const styles = urgencyStyles(urgency);
+              return (
+                <article
+                  key={ticket.id}
+                  className={`rounded-2xl border-2 bg-slate-800/70 p-4 shadow-lg ${styles.card}`}
+                >
+                  <div className="mb-3 flex items-start justify-between gap-2">
+                    <div>
+                      <p className="text-sm font-semibold text-slate-300">
+                        Ticket #{ticket.receiptNo}
+                        {ticket.round && ticket.round > 1 ? ` · Round ${ticket.round}` : ""}
+                        {` · ${PREP_STATION_LABELS[ticketStation(ticket)]}`}
+                      </p>
+                      <p className="text-base font-bold text-white">
+                        {describeDestination(ticket.orderType, ticket.tableName)}
+                      </p>
+                      <p className="text-xs text-slate-400">
+                        {new Date(ticket.createdAt).toLocaleTimeString("en-US", { timeZone: store.timeZone })}
+                      </p>
+                    </div>
+                    <div className="flex flex-col items-end gap-1">
+                      <span className={`rounded-full px-2 py-1 text-xs font-semibold uppercase ${statusColor(ticket.status)}`}>
+                        {ticket.status.replace("_", " ")}
+                      </span>
+                      <span
+                        className={`rounded-md px-2 py-1 font-mono text-sm font-bold tabular-nums ${styles.timer}`}
+                        title="Time since the ticket was fired"
+                      >
+                        {formatElapsed(elapsedMs)}
+                      </span>
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    {ticket.items.map((item) => (
+                      <button
+                        key={`${ticket.id}-${item.id}`}
+                        type="button"
+                        onClick={() => bumpItem(ticket.id, item.id, !item.done)}
+                        disabled={!canBumpItems}
+                        title={canBumpItems ? (item.done ? "Tap to un-bump" : "Tap when this item is ready") : undefined}
+                        className={`flex w-full items-center justify-between rounded-lg px-3 py-2 text-left ${
+                          item.done ? "bg-green-900/40 opacity-60" : "bg-slate-700/60"
+                        }`}
+                      >
+                        <div>
+                          <p className={`text-sm font-semibold text-slate-100 ${item.done ? "line-through" : ""}`}>
+                            {item.name}
+                          </p>
+                          {item.modifiers && item.modifiers.length > 0 ? (
+                            <p className="text-xs font-semibold text-amber-300">
+                              + {item.modifiers.join(", ")}
+                            </p>
+                          ) : null}
+                        </div>
+                        <p className="text-sm font-bold text-blue-300">{item.done ? "Done" : `x${item.quantity}`}</p>
+                      </button>
+                    ))}
+                  </div>
+
+                  {ticket.note ? (
+                    <p className="mt-3 rounded-lg border border-amber-700/50 bg-amber-900/25 px-3 py-2 text-xs text-amber-200">
+                      Note: {ticket.note}
+                    </p>
+                  ) : null}
+
+                  {canUpdateTickets ? (
+                    <div className="mt-4 grid grid-cols-2 gap-2">
+                      {ticket.status === "new" ? (
+                        <button
+                          type="button"
+                          onClick={() => updateTicketStatus(ticket.id, "in_progress")}
+                          className="min-h-11 rounded-lg bg-blue-600 text-sm font-semibold text-white"
+                        >
+                          Start
+                        </button>
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={() => updateTicketStatus(ticket.id, "new")}
+                          className="min-h-11 rounded-lg bg-slate-600 text-sm font-semibold text-white"
+                        >
+                          Reopen
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => updateTicketStatus(ticket.id, "done")}
+                        className="min-h-11 rounded-lg bg-green-600 text-sm font-semibold text-white"
+                      >
+                        Done
+                      </button>
+                    </div>
+                  ) : null}
+                </article>
+              );
+            })}
+          </section>
+        )}
+
+        <section className="rounded-2xl border border-slate-700 bg-slate-800/70 p-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h2 className="text-lg font-bold text-white">Completed Today ({completedTickets.length})</h2>
+            <input
+              type="search"
+              value={completedSearch}
+              onChange={(event) => setCompletedSearch(event.target.value)}
+              placeholder="Search ticket #, table or item"
+              className="w-full rounded-lg border border-slate-600 bg-slate-900 px-3 py-2 text-sm text-slate-100 placeholder:text-slate-500 md:w-72"
+            />
+          </div>
+          {completedTickets.length === 0 ? (
+            <p className="mt-3 text-sm text-slate-400">
+              {completedSearch.trim() ? "No completed tickets match." : "No tickets completed yet today."}
+            </p>
+          ) : (
+            <ul className="mt-3 divide-y divide-slate-700">
+              {completedTickets.map((ticket) => (
+                <li key={ticket.id} className="flex flex-wrap items-center justify-between gap-2 py-2">
                   <div>
-                    <p className="text-sm font-semibold text-slate-300">Ticket #{ticket.receiptNo}</p>
+                    <p className="text-sm font-semibold text-slate-200">
+                      #{ticket.receiptNo}
+                      {ticket.round && ticket.round > 1 ? ` · Round ${ticket.round}` : ""}
+                      {` · ${PREP_STATION_LABELS[ticketStation(ticket)]} · `}
+                      {describeDestination(ticket.orderType, ticket.tableName)}
+                    </p>
                     <p className="text-xs text-slate-400">
-                      {new Date(ticket.createdAt).toLocaleTimeString("en-US")}
+                      {ticket.items.map((item) => `${item.quantity}x ${item.name}`).join(", ")}
+                      {ticket.completedAt
+                        ? ` · done ${new Date(ticket.completedAt).toLocaleTimeString("en-US", { timeZone: store.timeZone })}`
+                        : ""}
                     </p>
                   </div>
-                  <span className={`rounded-full px-2 py-1 text-xs font-semibold uppercase ${statusColor(ticket.status)}`}>
-                    {ticket.status.replace("_", " ")}
-                  </span>
-                </div>
-
-                <div className="space-y-2">
-                  {ticket.items.map((item) => (
-                    <div key={`${ticket.id}-${item.id}`} className="flex items-center justify-between rounded-lg bg-slate-700/60 px-3 py-2">
-                      <p className="text-sm font-semibold text-slate-100">{item.name}</p>
-                      <p className="text-sm font-bold text-blue-300">x{item.quantity}</p>
-                    </div>
-                  ))}
-                </div>
-
-                {ticket.note ? (
-                  <p className="mt-3 rounded-lg border border-amber-700/50 bg-amber-900/25 px-3 py-2 text-xs text-amber-200">
-                    Note: {ticket.note}
-                  </p>
-                ) : null}
-
-                <div className="mt-4 grid grid-cols-2 gap-2">
-                  {ticket.status === "new" ? (
+                  {canRecallTickets ? (
                     <button
                       type="button"
-                      onClick={() => updateTicketStatus(ticket.id, "in_progress")}
-                      className="min-h-11 rounded-lg bg-blue-600 text-sm font-semibold text-white"
+                      onClick={() => recallOrder(ticket.id)}
+                      className="rounded-lg bg-slate-600 px-3 py-2 text-xs font-semibold uppercase text-white"
                     >
-                      Start
+                      Recall
                     </button>
-                  ) : (
-                    <button
-                      type="button"
-                      onClick={() => updateTicketStatus(ticket.id, "new")}
-                      className="min-h-11 rounded-lg bg-slate-600 text-sm font-semibold text-white"
-                    >
-                      Reopen
-                    </button>
-                  )}
-                  <button
-                    type="button"
-                    onClick={() => updateTicketStatus(ticket.id, "done")}
-                    className="min-h-11 rounded-lg bg-green-600 text-sm font-semibold text-white"
-                  >
-                    Done
-                  </button>
-                </div>
-              </article>
-            ))}
-          </section>
-        )}
+                  ) : null}
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
       </div>
     </main>
   );
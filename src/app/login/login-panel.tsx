@@ -0,0 +1,204 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import type { StaffRole } from "../../lib/roles";
+
+type StaffMember = {
+  id: string;
+  fullName: string;
+  role: StaffRole;
+};
+
+type CurrentSession = {
+  userId: string;
+  name: string;
+  role: StaffRole;
+};
+
+const PIN_MAX_LENGTH = 8;
+const padKeys = ["1", "2", "3", "4", "5", "6", "7", "8", "9", "clear", "0", "back"];
+
+export default function LoginPanel({
+  nextPath,
+  denied,
+}: {
+  nextPath: string | null;
+  denied: boolean;
+}) {
+  const router = useRouter();
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [current, setCurrent] = useState<CurrentSession | null>(null);
+  const [selected, setSelected] = useState<StaffMember | null>(null);
+  const [pin, setPin] = useState("");
+  const [statusMessage, setStatusMessage] = useState(
+    denied ? "Your role cannot open that page. Switch to another user." : "",
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const [staffResponse, sessionResponse] = await Promise.all([
+          fetch("/api/auth/staff", { cache: "no-store" }),
+          fetch("/api/auth/session", { cache: "no-store" }),
+        ]);
+        if (cancelled) {
+          return;
+        }
+        if (staffResponse.ok) {
+          const payload = (await staffResponse.json()) as { users: StaffMember[] };
+          setStaff(payload.users);
+        } else {
+          setStatusMessage("Unable to load staff list.");
+        }
+        if (sessionResponse.ok) {
+          setCurrent((await sessionResponse.json()) as CurrentSession);
+        }
+      } catch {
+        if (!cancelled) {
+          setStatusMessage("Unable to reach the server.");
+        }
+      }
+    };
+
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const pressKey = (key: string) => {
+    if (key === "clear") {
+      setPin("");
+      return;
+    }
+    if (key === "back") {
+      setPin((value) => value.slice(0, -1));
+      return;
+    }
+    setPin((value) => (value.length < PIN_MAX_LENGTH ? value + key : value));
+  };
+
+  const submitPin = async () => {
+    if (!selected || isSubmitting) {
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      const response = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ userId: selected.id, pin }),
+      });
+      const payload = (await response.json()) as { error?: string; home?: string };
+      if (!response.ok) {
+        setStatusMessage(payload.error || "Sign in failed.");
+        setPin("");
+        return;
+      }
+      router.replace(nextPath || payload.home || "/");
+      router.refresh();
+    } catch {
+      setStatusMessage("Unable to reach the server.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const signOut = async () => {
+    await fetch("/api/auth/logout", { method: "POST" });
+    setCurrent(null);
+    setStatusMessage("Signed out.");
+  };
+
+  return (
+    <main
+      className="min-h-screen bg-gradient-to-br from-slate-100 via-blue-50 to-slate-100 px-4 py-8"
+      style={{ fontFamily: '"Trebuchet MS", "Segoe UI", sans-serif' }}
+    >
+      <div className="mx-auto w-full max-w-3xl space-y-4">
+        <header className="flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-slate-200 bg-white p-5 shadow-lg">
+          <div>
+            <p className="text-xs uppercase tracking-[0.2em] text-slate-500">Staff Sign In</p>
+            <h1 className="text-2xl font-bold text-slate-900">Who is using this tablet?</h1>
+          </div>
+          {current ? (
+            <div className="text-right text-sm">
+              <p className="text-slate-500">Signed in as</p>
+              <p className="font-semibold text-slate-800">
+                {current.name} ({current.role})
+              </p>
+              <button
+                type="button"
+                onClick={() => void signOut()}
+                className="mt-1 text-xs font-semibold uppercase text-[#D32F2F]"
+              >
+                Sign out
+              </button>
+            </div>
+          ) : null}
+        </header>
+
+        {statusMessage ? (
+          <p className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-blue-700">
+            {statusMessage}
+          </p>
+        ) : null}
+
+        <section className="grid gap-3 sm:grid-cols-2 md:grid-cols-3">
+          {staff.map((member) => (
+            <button
+              key={member.id}
+              type="button"
+              onClick={() => {
+                setSelected(member);
+                setPin("");
+                setStatusMessage("");
+              }}
+              className={`min-h-20 rounded-2xl border p-4 text-left shadow-md transition hover:-translate-y-0.5 ${
+                selected?.id === member.id
+                  ? "border-[#4F7CFF] bg-blue-50"
+                  : "border-slate-200 bg-white hover:border-[#4F7CFF]"
+              }`}
+            >
+              <p className="text-base font-bold text-slate-800">{member.fullName}</p>
+              <p className="mt-1 text-xs uppercase tracking-wide text-slate-500">{member.role}</p>
+            </button>
+          ))}
+        </section>
+
+        {selected ? (
+          <section className="mx-auto w-full max-w-xs space-y-3 rounded-2xl border border-slate-200 bg-white p-4 shadow-lg">
+            <p className="text-center text-sm font-semibold text-slate-600">PIN for {selected.fullName}</p>
+            <p className="h-10 rounded-lg bg-slate-100 text-center text-2xl font-bold tracking-[0.5em] text-slate-800">
+              {"•".repeat(pin.length)}
+            </p>
+            <div className="grid grid-cols-3 gap-2">
+              {padKeys.map((key) => (
+                <button
+                  key={key}
+                  type="button"
+                  onClick={() => pressKey(key)}
+                  className="min-h-14 rounded-lg bg-slate-100 text-lg font-bold text-slate-700 hover:bg-blue-100"
+                >
+                  {key === "clear" ? "C" : key === "back" ? "⌫" : key}
+                </button>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() => void submitPin()}
+              disabled={pin.length < 4 || isSubmitting}
+              className="min-h-12 w-full rounded-lg bg-[#2E7D32] text-sm font-semibold text-white disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {isSubmitting ? "Checking..." : "Sign In"}
+            </button>
+          </section>
+        ) : null}
+      </div>
+    </main>
+  );
+}
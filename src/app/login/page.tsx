@@ -0,0 +1,12 @@
+import LoginPanel from "./login-panel";
+
+export default async function LoginPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ next?: string; denied?: string }>;
+}) {
+  const { next, denied } = await searchParams;
+  // Only allow same-site paths as redirect targets.
+  const nextPath = next && next.startsWith("/") && !next.startsWith("//") ? next : null;
+  return <LoginPanel nextPath={nextPath} denied={denied === "1"} />;
+}
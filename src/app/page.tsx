@@ -1,9 +1,11 @@
 import Link from "next/link";
 
 const pages = [
+  { href: "/login", label: "Staff Sign In", description: "Sign in or switch user with your PIN" },
   { href: "/waiter", label: "Waiter POS", description: "Create orders and complete sales" },
   { href: "/kitchen", label: "Kitchen Board", description: "Receive and complete prep tickets" },
   { href: "/admin", label: "Admin Daily Totals", description: "Track total sales by waiter" },
+  { href: "/pickup", label: "Pickup Display", description: "Show customers which orders are ready" },
 ];
 
 export default function Home() {
@@ -21,7 +23,7 @@ export default function Home() {
           </p>
         </header>
 
-        <section className="grid gap-3 md:grid-cols-3">
+        <section className="grid gap-3 md:grid-cols-2">
           {pages.map((page) => (
             <Link
               key={page.href}
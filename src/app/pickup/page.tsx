@@ -0,0 +1,178 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { getKitchenSocketUrl, withSocketToken } from "../../lib/kitchen-socket";
+import { fetchPickupSocketToken, withoutExpired, type PickupBoard } from "../../lib/pickup";
+import { decodeFrame } from "../../lib/socket-protocol";
+import { DEFAULT_STORE_PROFILE, fetchStoreProfile, type StoreProfile } from "../../lib/store-settings";
+
+type SocketStatus = "connecting" | "connected" | "disconnected";
+
+const EMPTY_BOARD: PickupBoard = { preparing: [], ready: [] };
+
+/** Customer-facing screen for takeout and delivery orders; needs no sign-in. */
+export default function PickupPage() {
+  const [board, setBoard] = useState<PickupBoard>(EMPTY_BOARD);
+  const [socketStatus, setSocketStatus] = useState<SocketStatus>("connecting");
+  const [linkRejected, setLinkRejected] = useState(false);
+  const [store, setStore] = useState<StoreProfile>(DEFAULT_STORE_PROFILE);
+  const [now, setNow] = useState(() => new Date());
+
+  const socketRef = useRef<WebSocket | null>(null);
+  const reconnectTimerRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    void fetchStoreProfile().then((profile) => profile && setStore(profile));
+  }, []);
+
+  // Ready orders age off the screen between server updates.
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(new Date()), 15000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    let disposed = false;
+    const key = new URLSearchParams(window.location.search).get("key");
+
+    const connect = async () => {
+      if (disposed) {
+        return;
+      }
+
+      setSocketStatus("connecting");
+      const token = await fetchPickupSocketToken(key);
+      if (disposed) {
+        return;
+      }
+      if (!token) {
+        setSocketStatus("disconnected");
+        setLinkRejected(true);
+        reconnectTimerRef.current = window.setTimeout(() => void connect(), 15000);
+        return;
+      }
+      setLinkRejected(false);
+
+      const ws = new WebSocket(withSocketToken(getKitchenSocketUrl(), token));
+      socketRef.current = ws;
+
+      ws.onopen = () => {
+        if (disposed) {
+          ws.close();
+          return;
+        }
+        setSocketStatus("connected");
+      };
+
+      ws.onmessage = (event) => {
+        const decoded = decodeFrame(String(event.data));
+        if (!decoded.ok) {
+          return;
+        }
+        const incoming = decoded.message;
+        if (incoming.type === "PICKUP_BOARD") {
+          setBoard(incoming.payload);
+          return;
+        }
+        if (incoming.type === "STORE_SETTINGS_CHANGED") {
+          void fetchStoreProfile().then((profile) => profile && setStore(profile));
+        }
+      };
+
+      ws.onerror = () => {
+        setSocketStatus("disconnected");
+      };
+
+      ws.onclose = () => {
+        if (disposed) {
+          return;
+        }
+        setSocketStatus("disconnected");
+        reconnectTimerRef.current = window.setTimeout(() => void connect(), 3000);
+      };
+    };
+
+    void connect();
+
+    return () => {
+      disposed = true;
+      if (reconnectTimerRef.current) {
+        window.clearTimeout(reconnectTimerRef.current);
+      }
+      if (socketRef.current) {
+        socketRef.current.close();
+      }
+    };
+  }, []);
+
+  const ready = useMemo(() => withoutExpired(board.ready, now), [board.ready, now]);
+
+  return (
+    <main
+      className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 px-6 py-8 text-slate-100"
+      style={{ fontFamily: '"Trebuchet MS", "Segoe UI", sans-serif' }}
+    >
+      <div className="mx-auto w-full max-w-7xl space-y-6">
+        <header className="flex flex-wrap items-end justify-between gap-3">
+          <div>
+            <p className="text-sm uppercase tracking-[0.3em] text-slate-400">{store.displayName}</p>
+            <h1 className="text-4xl font-extrabold">Order Pickup</h1>
+          </div>
+          <p className="text-2xl font-semibold text-slate-300">
+            {now.toLocaleTimeString("en-US", { timeZone: store.timeZone, hour: "numeric", minute: "2-digit" })}
+          </p>
+        </header>
+
+        {linkRejected ? (
+          <p className="rounded-xl border border-red-700 bg-red-900/40 px-4 py-3 text-red-200">
+            This display link is not valid. Ask a manager for the pickup screen link.
+          </p>
+        ) : socketStatus !== "connected" ? (
+          <p className="rounded-xl border border-slate-700 bg-slate-800/70 px-4 py-3 text-slate-300">
+            Reconnecting to the kitchen...
+          </p>
+        ) : null}
+
+        <div className="grid gap-6 md:grid-cols-2">
+          <section className="rounded-3xl border border-slate-700 bg-slate-800/70 p-6">
+            <h2 className="text-2xl font-bold uppercase tracking-wide text-slate-300">Preparing</h2>
+            {board.preparing.length === 0 ? (
+              <p className="mt-6 text-lg text-slate-500">No orders in the kitchen.</p>
+            ) : (
+              <ul className="mt-6 grid grid-cols-3 gap-4 lg:grid-cols-4">
+                {board.preparing.map((receiptNo) => (
+                  <li
+                    key={receiptNo}
+                    className="rounded-2xl bg-slate-700/70 py-4 text-center text-4xl font-extrabold tabular-nums text-slate-100"
+                  >
+                    {receiptNo}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          <section className="rounded-3xl border border-green-700 bg-green-950/40 p-6">
+            <h2 className="text-2xl font-bold uppercase tracking-wide text-green-300">Ready</h2>
+            {ready.length === 0 ? (
+              <p className="mt-6 text-lg text-slate-500">Nothing waiting to be collected.</p>
+            ) : (
+              <ul className="mt-6 grid grid-cols-3 gap-4 lg:grid-cols-4">
+                {ready.map((order, index) => (
+                  <li
+                    key={order.receiptNo}
+                    className={`rounded-2xl py-4 text-center text-4xl font-extrabold tabular-nums text-white ${
+                      index === 0 ? "bg-[#2E7D32] ring-4 ring-green-300" : "bg-[#2E7D32]/80"
+                    }`}
+                  >
+                    {order.receiptNo}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -1,69 +1,275 @@
 "use client";
 
-import { useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { APPROVER_ROLES } from "../../lib/access";
 import {
+  fetchKitchenSocketGrant,
   getKitchenSocketUrl,
+  withSocketToken,
   type KitchenSocketMessage,
   type KitchenTicket,
+  type KitchenTicketItem,
+  type LowStockRecord,
+  type OrderReadyNotice,
   type SaleRecord,
 } from "../../lib/kitchen-socket";
+import {
+  cartLineKey,
+  maxSelections,
+  minSelections,
+  validateModifierSelection,
+  type CatalogModifierGroup,
+} from "../../lib/modifiers";
+import {
+  describeDestination,
+  ORDER_TYPE_LABELS,
+  ORDER_TYPES,
+  type OrderTypeCode,
+} from "../../lib/order-types";
+import { formatMoney, formatMoneyInput, isMoneyFormat, parseMoney } from "../../lib/money";
+import { computeOrderTotals, type DiscountMode, type TaxedLine } from "../../lib/order-pricing";
+import { DEFAULT_PREP_STATION, type PrepStation } from "../../lib/prep-stations";
+import { applyPromotions, type PromotionLine, type PromotionResult, type PromotionRule } from "../../lib/promotions";
+import { receiptMailto } from "../../lib/receipts";
+import { decodeFrame, describeSocketError, encodeFrame, nextFrameRef } from "../../lib/socket-protocol";
+import type { StaffRole } from "../../lib/roles";
+import { DEFAULT_STORE_PROFILE, type StoreProfile } from "../../lib/store-settings";
+import {
+  formatTaxRate,
+  taxRateFor,
+  type TaxBreakdownLine,
+  type TaxProfileRates,
+  type TaxRounding,
+  type TaxSetup,
+} from "../../lib/tax";
 
 type Category = string;
 type PaymentMethod = "cash" | "card" | "split";
-type DiscountMode = "none" | "percent" | "fixed";
+type CustomDiscountMode = "percent" | "fixed";
 type SocketStatus = "connecting" | "connected" | "disconnected";
 
+type DiscountOption = {
+  id: string;
+  name: string;
+  isPercent: boolean;
+  /** Percent when isPercent, otherwise cents. */
+  value: number;
+};
+
 type MenuItem = {
   id: string;
   name: string;
   category: Category;
-  price: number;
+  categoryId: string | null;
+  priceCents: number;
   sku: string;
+  /** The product's or its category's tax profile; null means the store default. */
+  taxProfileId?: string | null;
   popular?: boolean;
+  /** Units on hand; null or absent when the product is not stock-tracked. */
+  stockQty?: number | null;
+  reorderLevel?: number;
+  /** Station whose ticket the item goes on; the kitchen when absent. */
+  prepStation?: PrepStation;
+  modifierGroups: CatalogModifierGroup[];
 };
 
-type CartLine = {
+type CartModifier = {
   id: string;
   name: string;
-  price: number;
+  priceCents: number;
+};
+
+type CartLine = {
+  key: string;
+  productId: string;
+  name: string;
+  priceCents: number;
   quantity: number;
   sku: string;
+  modifiers: CartModifier[];
+};
+
+type DiningTable = {
+  id: string;
+  name: string;
 };
 
 type ReceiptSnapshot = {
   receiptNo: number;
   createdAt: string;
+  orderType: OrderTypeCode;
+  tableName: string | null;
   lines: CartLine[];
-  subtotal: number;
-  discount: number;
-  tax: number;
-  total: number;
+  subtotalCents: number;
+  promotionCents: number;
+  discountCents: number;
+  taxCents: number;
+  taxInclusive: boolean;
+  taxLines: TaxBreakdownLine[];
+  totalCents: number;
   paymentMethod: PaymentMethod;
-  paid: number;
-  change: number;
+  paidCents: number;
+  changeCents: number;
   orderNote: string;
 };
 
-const DEFAULT_TAX_RATE = 8.25;
+type StaffIdentity = {
+  userId: string;
+  name: string;
+  role: StaffRole;
+};
+
+type Shift = {
+  id: string;
+  openedAt: string;
+  closedAt: string | null;
+  openingCashCents: number;
+  cashSalesCents: number;
+  expectedCashCents: number;
+  closingCashCents: number | null;
+  varianceCents: number | null;
+};
+
+type StaffOption = {
+  id: string;
+  fullName: string;
+  role: StaffRole;
+};
+
+type RefundableOrder = {
+  orderId: string;
+  orderNumber: number;
+  status: "OPEN" | "PAID" | "CANCELLED" | "REFUNDED";
+  type: OrderTypeCode;
+  tableName: string | null;
+  totalCents: number;
+  refundedCents: number;
+  items: Array<{
+    id: string;
+    name: string;
+    quantity: number;
+    refundedQty: number;
+    modifiers: string[];
+    lineTotalCents: number;
+  }>;
+};
+
+type RefundResponse = {
+  orderNumber: number;
+  status: RefundableOrder["status"];
+  refundCents: number;
+  refundedCents: number;
+};
+
+type OpenTab = {
+  orderId: string;
+  orderNumber: number;
+  type: OrderTypeCode;
+  tableName: string | null;
+  cashierName: string | null;
+  notes: string | null;
+  subtotalCents: number;
+  items: Array<{
+    id: string;
+    productId: string;
+    categoryId: string | null;
+    name: string;
+    quantity: number;
+    round: number;
+    modifiers: string[];
+    lineTotalCents: number;
+  }>;
+};
+
+type FiredRoundResponse = {
+  orderId: string;
+  orderNumber: number;
+  type: OrderTypeCode;
+  tableName: string | null;
+  round: number;
+  lowStock: LowStockAlert[];
+};
+
+type OrderResponse = {
+  orderNumber: number;
+  tableName: string | null;
+  subtotalCents: number;
+  promotionCents: number;
+  discountCents: number;
+  taxCents: number;
+  taxInclusive: boolean;
+  taxLines: TaxBreakdownLine[];
+  totalCents: number;
+  changeCents: number;
+  lowStock: LowStockAlert[];
+};
+
+type LowStockAlert = Omit<LowStockRecord, "createdAt">;
+
+/** A frame waiting for the server's ACK; `ref` ties the reply to it. */
+type OutboxEntry = {
+  ref: string;
+  message: KitchenSocketMessage;
+  /** Retries after the server failed on it, since it was last (re)sent. */
+  attempts: number;
+};
+
+const MAX_FRAME_RETRIES = 3;
+const FRAME_RETRY_MS = 5000;
+
+/** The store's tax defaults plus every active profile a product may point at. */
+type TaxCatalog = TaxSetup & {
+  profiles: TaxProfileRates[];
+};
+
+const DEFAULT_TAX_CATALOG: TaxCatalog = {
+  defaultProfile: null,
+  fallbackRate: { name: "Tax", basisPoints: 825 },
+  profiles: [],
+  settings: { inclusive: false, rounding: "order" },
+};
 
 const fallbackMenuItems: MenuItem[] = [
-  { id: "coffee", name: "Coffee", category: "Drinks", price: 3.5, sku: "DRK-001", popular: true },
-  { id: "latte", name: "Latte", category: "Drinks", price: 4.5, sku: "DRK-002", popular: true },
-  { id: "cap", name: "Cappuccino", category: "Drinks", price: 5, sku: "DRK-003" },
-  { id: "croissant", name: "Croissant", category: "Food", price: 4, sku: "FOD-001", popular: true },
-  { id: "sandwich", name: "Sandwich", category: "Food", price: 8.5, sku: "FOD-002" },
-  { id: "cake", name: "Cheesecake", category: "Food", price: 6, sku: "FOD-003" },
+  { id: "coffee", name: "Coffee", category: "Drinks", categoryId: null, priceCents: 350, sku: "DRK-001", popular: true, modifierGroups: [] },
+  { id: "latte", name: "Latte", category: "Drinks", categoryId: null, priceCents: 450, sku: "DRK-002", popular: true, modifierGroups: [] },
+  { id: "cap", name: "Cappuccino", category: "Drinks", categoryId: null, priceCents: 500, sku: "DRK-003", modifierGroups: [] },
+  { id: "croissant", name: "Croissant", category: "Food", categoryId: null, priceCents: 400, sku: "FOD-001", popular: true, modifierGroups: [] },
+  { id: "sandwich", name: "Sandwich", category: "Food", categoryId: null, priceCents: 850, sku: "FOD-002", modifierGroups: [] },
+  { id: "cake", name: "Cheesecake", category: "Food", categoryId: null, priceCents: 600, sku: "FOD-003", modifierGroups: [] },
 ];
 
-const currency = new Intl.NumberFormat("en-US", {
-  style: "currency",
-  currency: "USD",
-});
+function unitPriceCents(line: CartLine) {
+  return line.priceCents + line.modifiers.reduce((sum, modifier) => sum + modifier.priceCents, 0);
+}
 
-function money(amount: number) {
-  return currency.format(amount);
+function linePromotionCents(result: PromotionResult, key: string) {
+  return (result.byLine[key] ?? []).reduce((sum, promotion) => sum + promotion.discountCents, 0);
 }
 
+// Two short tones, so a ready order is heard over the dining room.
+function playReadyChime() {
+  try {
+    const audio = new AudioContext();
+    [880, 1320].forEach((frequency, index) => {
+      const tone = audio.createOscillator();
+      const gain = audio.createGain();
+      const start = audio.currentTime + index * 0.18;
+      tone.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.2, start);
+      gain.gain.exponentialRampToValueAtTime(0.001, start + 0.16);
+      tone.connect(gain).connect(audio.destination);
+      tone.start(start);
+      tone.stop(start + 0.16);
+    });
+    window.setTimeout(() => void audio.close(), 600);
+  } catch {
+    // No audio on this device; the banner still shows.
+  }
+}
+
+/** Parses the percent box; money boxes go through parseMoney instead. */
 function toNumber(value: string) {
   const parsed = Number.parseFloat(value);
   return Number.isFinite(parsed) ? parsed : 0;
@@ -71,8 +277,11 @@ function toNumber(value: string) {
 
 function resetOrderValues() {
   return {
+    tableId: null as string | null,
     orderNote: "",
-    discountMode: "none" as DiscountMode,
+    // "none", "custom" or the id of a preset Discount.
+    discountChoice: "none",
+    customDiscountMode: "percent" as CustomDiscountMode,
     discountValue: "0",
     paymentMethod: "cash" as PaymentMethod,
     cashPaid: "0",
@@ -82,19 +291,52 @@ function resetOrderValues() {
 
 export default function WaiterPage() {
   const socketUrl = useMemo(() => getKitchenSocketUrl(), []);
-  const [waiterName, setWaiterName] = useState("Waiter-1");
+  const [staff, setStaff] = useState<StaffIdentity | null>(null);
   const [selectedCategory, setSelectedCategory] = useState("All");
   const [searchTerm, setSearchTerm] = useState("");
+  // Orders this waiter sent that the kitchen has finished, until dismissed.
+  const [readyOrders, setReadyOrders] = useState<OrderReadyNotice[]>([]);
   const [menuCatalog, setMenuCatalog] = useState<MenuItem[]>(fallbackMenuItems);
-  const [taxRate, setTaxRate] = useState(DEFAULT_TAX_RATE);
-
+  const [taxSetup, setTaxSetup] = useState<TaxCatalog>(DEFAULT_TAX_CATALOG);
+  const [promotions, setPromotions] = useState<PromotionRule[]>([]);
+  // Re-evaluated every minute so happy hours start and end on their own.
+  const [promotionClock, setPromotionClock] = useState(() => new Date());
+
+  const [tables, setTables] = useState<DiningTable[]>([]);
+  const [orderType, setOrderType] = useState<OrderTypeCode>("DINE_IN");
+  const [tableId, setTableId] = useState<string | null>(null);
+  const [shift, setShift] = useState<Shift | null>(null);
+  const [shiftLoaded, setShiftLoaded] = useState(false);
+  const [lastClosedShift, setLastClosedShift] = useState<Shift | null>(null);
+  const [drawerCash, setDrawerCash] = useState("0");
+  const [shiftNote, setShiftNote] = useState("");
+  const [approvers, setApprovers] = useState<StaffOption[]>([]);
+  const [approverId, setApproverId] = useState("");
+  const [approverPin, setApproverPin] = useState("");
+  const [refundLookup, setRefundLookup] = useState("");
+  const [reprintLookup, setReprintLookup] = useState("");
+  const [receiptEmail, setReceiptEmail] = useState("");
+  const [refundTarget, setRefundTarget] = useState<RefundableOrder | null>(null);
+  const [refundQuantities, setRefundQuantities] = useState<Record<string, number>>({});
+  const [refundMethod, setRefundMethod] = useState<"original" | "cash" | "card">("original");
+  const [refundReason, setRefundReason] = useState("");
+  const [openTabs, setOpenTabs] = useState<OpenTab[]>([]);
+  const [activeTabId, setActiveTabId] = useState<string | null>(null);
   const [cart, setCart] = useState<CartLine[]>([]);
+  const [pickerItem, setPickerItem] = useState<MenuItem | null>(null);
+  const [pickerSelection, setPickerSelection] = useState<string[]>([]);
   const [orderNote, setOrderNote] = useState("");
-  const [discountMode, setDiscountMode] = useState<DiscountMode>("none");
+  const [discounts, setDiscounts] = useState<DiscountOption[]>([]);
+  const [discountChoice, setDiscountChoice] = useState("none");
+  const [customDiscountMode, setCustomDiscountMode] = useState<CustomDiscountMode>("percent");
   const [discountValue, setDiscountValue] = useState("0");
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("cash");
   const [cashPaid, setCashPaid] = useState("0");
   const [cardPaid, setCardPaid] = useState("0");
+  const [store, setStore] = useState<StoreProfile>(DEFAULT_STORE_PROFILE);
+  const moneyFormat = store.money;
+  const money = (cents: number) => formatMoney(cents, moneyFormat);
+  const storeTime = (at: Date | string) => new Date(at).toLocaleTimeString("en-US", { timeZone: store.timeZone });
 
   const [receiptCounter, setReceiptCounter] = useState(1001);
   const [lastReceipt, setLastReceipt] = useState<ReceiptSnapshot | null>(null);
@@ -104,69 +346,270 @@ export default function WaiterPage() {
   const [socketStatus, setSocketStatus] = useState<SocketStatus>("connecting");
   const socketRef = useRef<WebSocket | null>(null);
   const reconnectTimerRef = useRef<number | null>(null);
-  const pendingTicketsRef = useRef<KitchenTicket[]>([]);
-  const pendingSalesRef = useRef<SaleRecord[]>([]);
+  // Tickets, sales and voids in the order they were made, each kept until the
+  // server acknowledges it and sent again after a reconnect.
+  const outboxRef = useRef<OutboxEntry[]>([]);
 
   useEffect(() => {
     let cancelled = false;
 
-    const loadProducts = async () => {
+    const loadSession = async () => {
       try {
-        const response = await fetch("/api/products", { cache: "no-store" });
-        if (!response.ok) {
-          throw new Error("Product endpoint not available.");
+        const response = await fetch("/api/auth/session", { cache: "no-store" });
+        if (response.ok && !cancelled) {
+          setStaff((await response.json()) as StaffIdentity);
         }
-        const payload = (await response.json()) as {
-          categories?: Array<{
+      } catch {
+        // The proxy already guards this page; a failed lookup only hides the name.
+      }
+    };
+
+    void loadSession();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const refreshCatalog = useCallback(async () => {
+    try {
+      // "no-cache" revalidates against the catalog ETag instead of re-downloading.
+      const response = await fetch("/api/products", { cache: "no-cache" });
+      if (!response.ok) {
+        throw new Error("Product endpoint not available.");
+      }
+      const payload = (await response.json()) as {
+        categories?: Array<{
+          id: string;
+          name: string;
+          products: Array<{
+            id: string;
             name: string;
-            products: Array<{ id: string; name: string; sku: string; priceCents: number }>;
+            sku: string;
+            priceCents: number;
+            stockQty?: number | null;
+            reorderLevel?: number;
+            taxProfileId?: string | null;
+            prepStation?: PrepStation;
+            modifierGroups?: CatalogModifierGroup[];
           }>;
-          taxPercent?: number;
-        };
-        if (cancelled || !payload.categories) {
-          return;
-        }
+        }>;
+        promotions?: PromotionRule[];
+        taxPercent?: number;
+        taxProfiles?: TaxProfileRates[];
+        taxInclusive?: boolean;
+        defaultTaxProfileId?: string | null;
+        taxRounding?: TaxRounding;
+        store?: StoreProfile;
+      };
+      if (!payload.categories) {
+        return;
+      }
 
-        const menu = payload.categories.flatMap((category) =>
-          category.products.map((product, index) => ({
-            id: product.id,
-            name: product.name,
-            category: category.name,
-            price: product.priceCents / 100,
-            sku: product.sku || "",
-            popular: index < 2,
-          })),
-        );
+      const menu = payload.categories.flatMap((category) =>
+        category.products.map((product, index) => ({
+          id: product.id,
+          name: product.name,
+          category: category.name,
+          categoryId: category.id,
+          priceCents: product.priceCents,
+          sku: product.sku || "",
+          popular: index < 2,
+          stockQty: product.stockQty ?? null,
+          reorderLevel: product.reorderLevel ?? 0,
+          taxProfileId: product.taxProfileId ?? null,
+          prepStation: product.prepStation,
+          modifierGroups: product.modifierGroups ?? [],
+        })),
+      );
 
-        if (menu.length > 0) {
-          setMenuCatalog(menu);
-        }
-        if (Number.isFinite(payload.taxPercent)) {
-          setTaxRate(payload.taxPercent ?? DEFAULT_TAX_RATE);
+      if (menu.length > 0) {
+        setMenuCatalog(menu);
+      }
+      setPromotions(payload.promotions ?? []);
+      if (payload.store && isMoneyFormat(payload.store.money)) {
+        setStore(payload.store);
+      }
+      const profiles = payload.taxProfiles ?? [];
+      setTaxSetup({
+        defaultProfile: profiles.find((profile) => profile.id === payload.defaultTaxProfileId) ?? null,
+        fallbackRate: Number.isFinite(payload.taxPercent)
+          ? { name: "Tax", basisPoints: Math.round((payload.taxPercent ?? 0) * 100) }
+          : DEFAULT_TAX_CATALOG.fallbackRate,
+        profiles,
+        settings: {
+          inclusive: payload.taxInclusive === true,
+          rounding: payload.taxRounding ?? DEFAULT_TAX_CATALOG.settings.rounding,
+        },
+      });
+    } catch {
+      setStatusMessage("Using fallback menu. Connect database to load live products.");
+    }
+  }, []);
+
+  useEffect(() => {
+    void refreshCatalog();
+  }, [refreshCatalog]);
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setPromotionClock(new Date()), 60 * 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadApprovers = async () => {
+      try {
+        const response = await fetch("/api/auth/staff", { cache: "no-store" });
+        if (!response.ok) {
+          return;
         }
-      } catch {
+        const payload = (await response.json()) as { users: StaffOption[] };
         if (!cancelled) {
-          setStatusMessage("Using fallback menu. Connect database to load live products.");
+          setApprovers(payload.users.filter((user) => APPROVER_ROLES.includes(user.role)));
         }
+      } catch {
+        // Without the list a manager can still sign in here to approve directly.
       }
     };
 
-    void loadProducts();
+    void loadApprovers();
     return () => {
       cancelled = true;
     };
   }, []);
 
+  const refreshShift = useCallback(async () => {
+    try {
+      const response = await fetch("/api/shifts", { cache: "no-store" });
+      if (response.ok) {
+        const payload = (await response.json()) as { shift: Shift | null };
+        setShift(payload.shift);
+        setShiftLoaded(true);
+      }
+    } catch {
+      // Keep the last known shift; the server still refuses sales without one.
+    }
+  }, []);
+
+  useEffect(() => {
+    void refreshShift();
+  }, [refreshShift]);
+
+  const submitShift = async () => {
+    if (isSubmitting) {
+      return;
+    }
+    setIsSubmitting(true);
+    const closing = Boolean(shift);
+    try {
+      const response = await fetch(closing ? "/api/shifts/close" : "/api/shifts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          [closing ? "closingCashCents" : "openingCashCents"]: Math.max(0, parseMoney(drawerCash, moneyFormat) ?? 0),
+          notes: shiftNote,
+        }),
+      });
+      const payload = (await response.json()) as { shift?: Shift; error?: string };
+      if (!response.ok || !payload.shift) {
+        setStatusMessage(payload.error || "Unable to update shift.");
+        await refreshShift();
+        return;
+      }
+
+      setDrawerCash("0");
+      setShiftNote("");
+      if (closing) {
+        setShift(null);
+        setLastClosedShift(payload.shift);
+        const variance = payload.shift.varianceCents ?? 0;
+        setStatusMessage(
+          variance === 0
+            ? "Shift closed. Drawer balanced."
+            : `Shift closed. Drawer ${variance > 0 ? "over" : "short"} by ${money(Math.abs(variance))}.`,
+        );
+      } else {
+        setShift(payload.shift);
+        setLastClosedShift(null);
+        setStatusMessage("Shift opened. Ready to take payments.");
+      }
+    } catch {
+      setStatusMessage("Unable to reach the server. Shift was not updated.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const refreshTabs = useCallback(async () => {
+    try {
+      const response = await fetch("/api/tabs", { cache: "no-store" });
+      if (response.ok) {
+        const payload = (await response.json()) as { tabs: OpenTab[] };
+        setOpenTabs(payload.tabs);
+      }
+    } catch {
+      // Tabs live in the database; keep the last list until it is reachable.
+    }
+  }, []);
+
+  useEffect(() => {
+    void refreshTabs();
+  }, [refreshTabs]);
+
+  const refreshDiscounts = useCallback(async () => {
+    try {
+      const response = await fetch("/api/discounts", { cache: "no-store" });
+      if (response.ok) {
+        const payload = (await response.json()) as { discounts: DiscountOption[] };
+        setDiscounts(payload.discounts);
+      }
+    } catch {
+      // Without presets the waiter can still sell at full price.
+    }
+  }, []);
+
+  useEffect(() => {
+    void refreshDiscounts();
+  }, [refreshDiscounts]);
+
+  const refreshTables = useCallback(async () => {
+    try {
+      const response = await fetch("/api/tables", { cache: "no-store" });
+      if (response.ok) {
+        const payload = (await response.json()) as { tables: DiningTable[] };
+        setTables(payload.tables);
+      }
+    } catch {
+      // Without tables the waiter can still ring counter and takeout orders.
+    }
+  }, []);
+
+  useEffect(() => {
+    void refreshTables();
+  }, [refreshTables]);
+
   useEffect(() => {
     let disposed = false;
 
-    const connect = () => {
+    const connect = async () => {
       if (disposed) {
         return;
       }
 
       setSocketStatus("connecting");
-      const ws = new WebSocket(socketUrl);
+      const grant = await fetchKitchenSocketGrant();
+      if (disposed) {
+        return;
+      }
+      if (!grant) {
+        setSocketStatus("disconnected");
+        setStatusMessage("Sign in to connect to the kitchen channel.");
+        reconnectTimerRef.current = window.setTimeout(() => void connect(), 5000);
+        return;
+      }
+
+      const ws = new WebSocket(withSocketToken(socketUrl, grant.token));
       socketRef.current = ws;
 
       ws.onopen = () => {
@@ -175,22 +618,71 @@ export default function WaiterPage() {
           return;
         }
         setSocketStatus("connected");
-        const pendingTicketCount = pendingTicketsRef.current.length;
-        const pendingSaleCount = pendingSalesRef.current.length;
-        if (pendingTicketCount > 0 || pendingSaleCount > 0) {
-          pendingTicketsRef.current.forEach((ticket) => {
-            const message: KitchenSocketMessage = { type: "NEW_ORDER", payload: ticket };
-            ws.send(JSON.stringify(message));
+        // Catalog edits made while offline were not pushed to us; the ETag keeps this cheap.
+        void refreshCatalog();
+        // Anything not yet acknowledged may have been lost with the old
+        // socket. The server skips tickets and sales it already has, and a void
+        // still follows its ticket because the outbox keeps their order.
+        const queued = outboxRef.current;
+        if (queued.length > 0) {
+          queued.forEach((entry) => {
+            entry.attempts = 0;
+            ws.send(encodeFrame(entry.message, entry.ref));
           });
-          pendingSalesRef.current.forEach((sale) => {
-            const message: KitchenSocketMessage = { type: "NEW_SALE", payload: sale };
-            ws.send(JSON.stringify(message));
-          });
-          pendingTicketsRef.current = [];
-          pendingSalesRef.current = [];
-          setStatusMessage(
-            `Reconnected. Synced ${pendingTicketCount} ticket(s) and ${pendingSaleCount} sale record(s).`,
-          );
+          const ticketCount = queued.filter((entry) => entry.message.type === "NEW_ORDER").length;
+          const saleCount = queued.filter(
+            (entry) => entry.message.type === "NEW_SALE" || entry.message.type === "NEW_REFUND",
+          ).length;
+          setStatusMessage(`Reconnected. Resending ${ticketCount} ticket(s) and ${saleCount} sale record(s).`);
+        }
+      };
+
+      ws.onmessage = (event) => {
+        const decoded = decodeFrame(String(event.data));
+        if (!decoded.ok) {
+          return;
+        }
+        const incoming = decoded.message;
+        if (incoming.type === "ACK") {
+          outboxRef.current = outboxRef.current.filter((entry) => entry.ref !== incoming.payload.ref);
+          return;
+        }
+        if (incoming.type === "ERROR") {
+          const { ref, code } = incoming.payload;
+          const entry = outboxRef.current.find((queued) => queued.ref === ref);
+          if (entry && code === "internal" && entry.attempts < MAX_FRAME_RETRIES) {
+            // The server failed on it rather than refusing it; try again
+            // shortly. It stays queued for the next reconnect either way.
+            entry.attempts += 1;
+            window.setTimeout(() => {
+              const socket = socketRef.current;
+              if (outboxRef.current.includes(entry) && socket?.readyState === WebSocket.OPEN) {
+                socket.send(encodeFrame(entry.message, entry.ref));
+              }
+            }, FRAME_RETRY_MS);
+          } else if (entry && code !== "internal") {
+            // A refused frame would be refused again.
+            outboxRef.current = outboxRef.current.filter((queued) => queued !== entry);
+          }
+          setStatusMessage(describeSocketError(incoming.payload));
+          return;
+        }
+        if (incoming.type === "CATALOG_CHANGED") {
+          void Promise.all([refreshCatalog(), refreshTables(), refreshDiscounts()]);
+          setStatusMessage("Menu updated.");
+        }
+        if (incoming.type === "STORE_SETTINGS_CHANGED") {
+          // Currency, tax defaults and the store clock all ride on the catalog.
+          void refreshCatalog();
+          setStatusMessage("Store settings updated.");
+        }
+        if (incoming.type === "ORDER_READY") {
+          const notice = incoming.payload;
+          setReadyOrders((current) => [
+            notice,
+            ...current.filter((entry) => entry.receiptNo !== notice.receiptNo || entry.round !== notice.round),
+          ]);
+          playReadyChime();
         }
       };
 
@@ -203,11 +695,11 @@ export default function WaiterPage() {
           return;
         }
         setSocketStatus("disconnected");
-        reconnectTimerRef.current = window.setTimeout(connect, 1500);
+        reconnectTimerRef.current = window.setTimeout(() => void connect(), 1500);
       };
     };
 
-    connect();
+    void connect();
     return () => {
       disposed = true;
       if (reconnectTimerRef.current) {
@@ -217,10 +709,11 @@ export default function WaiterPage() {
         socketRef.current.close();
       }
     };
-  }, [socketUrl]);
+  }, [socketUrl, refreshCatalog, refreshTables, refreshDiscounts]);
 
   const categories = useMemo(() => {
-    const unique = Array.from(new Set(menuCatalog.map((item) => item.category))).sort();
+    // Catalog order already follows Category.sortOrder.
+    const unique = Array.from(new Set(menuCatalog.map((item) => item.category)));
     return ["All", ...unique];
   }, [menuCatalog]);
 
@@ -246,100 +739,529 @@ export default function WaiterPage() {
     [menuCatalog],
   );
 
-  const subtotal = useMemo(
-    () => cart.reduce((sum, line) => sum + line.price * line.quantity, 0),
-    [cart],
-  );
-
-  const discountAmount = useMemo(() => {
-    const value = Math.max(0, toNumber(discountValue));
-    if (discountMode === "percent") {
-      return Math.min(subtotal, subtotal * (Math.min(value, 100) / 100));
+  const activeTab = openTabs.find((tab) => tab.orderId === activeTabId) ?? null;
+
+  // Same engine the server runs at checkout, over the cart plus any fired rounds.
+  const promotionResult = useMemo(() => {
+    const lines: PromotionLine[] = cart.map((line) => ({
+      key: line.key,
+      productId: line.productId,
+      categoryId: menuCatalog.find((item) => item.id === line.productId)?.categoryId ?? null,
+      unitCents: unitPriceCents(line),
+      quantity: line.quantity,
+    }));
+    for (const item of activeTab?.items ?? []) {
+      lines.push({
+        key: item.id,
+        productId: item.productId,
+        categoryId: item.categoryId,
+        unitCents: Math.round(item.lineTotalCents / item.quantity),
+        quantity: item.quantity,
+      });
     }
-    if (discountMode === "fixed") {
-      return Math.min(subtotal, value);
+    return applyPromotions(promotions, lines, promotionClock, store.timeZone);
+  }, [cart, activeTab, menuCatalog, promotions, promotionClock, store.timeZone]);
+
+  const selectedDiscount = discounts.find((discount) => discount.id === discountChoice) ?? null;
+
+  // An open tab's fired rounds count toward the bill alongside any new cart
+  // lines; both are priced in cents by the same code the server uses.
+  const pricing = useMemo(() => {
+    const pricingType = activeTab?.type ?? orderType;
+    const rateOf = (productId: string) => {
+      const profileId = menuCatalog.find((item) => item.id === productId)?.taxProfileId;
+      const profile = taxSetup.profiles.find((entry) => entry.id === profileId) ?? null;
+      return taxRateFor(taxSetup, profile, pricingType);
+    };
+    const lines: TaxedLine[] = cart.map((line) => ({
+      unitPriceCents: line.priceCents,
+      modifierCents: line.modifiers.reduce((sum, modifier) => sum + modifier.priceCents, 0),
+      quantity: line.quantity,
+      promotionCents: linePromotionCents(promotionResult, line.key),
+      taxRate: rateOf(line.productId),
+    }));
+    for (const item of activeTab?.items ?? []) {
+      lines.push({
+        unitPriceCents: item.lineTotalCents,
+        modifierCents: 0,
+        quantity: 1,
+        promotionCents: linePromotionCents(promotionResult, item.id),
+        taxRate: rateOf(item.productId),
+      });
     }
-    return 0;
-  }, [discountMode, discountValue, subtotal]);
-
-  const taxableAmount = Math.max(0, subtotal - discountAmount);
-  const taxAmount = taxableAmount * (taxRate / 100);
-  const total = taxableAmount + taxAmount;
 
-  const paidAmount = useMemo(() => {
-    if (paymentMethod === "cash") {
-      return Math.max(0, toNumber(cashPaid));
+    let discountMode: DiscountMode = "none";
+    let discountAmountValue = 0;
+    if (selectedDiscount) {
+      discountMode = selectedDiscount.isPercent ? "percent" : "fixed";
+      discountAmountValue = selectedDiscount.value;
+    } else if (discountChoice === "custom") {
+      discountMode = customDiscountMode;
+      discountAmountValue =
+        customDiscountMode === "percent" ? toNumber(discountValue) : (parseMoney(discountValue, moneyFormat) ?? 0);
     }
-    if (paymentMethod === "card") {
-      return Math.max(0, toNumber(cardPaid));
+    return computeOrderTotals({
+      lines,
+      discountMode,
+      discountValue: discountAmountValue,
+      tax: taxSetup.settings,
+    });
+  }, [
+    cart,
+    activeTab,
+    orderType,
+    menuCatalog,
+    taxSetup,
+    promotionResult,
+    selectedDiscount,
+    discountChoice,
+    customDiscountMode,
+    discountValue,
+    moneyFormat,
+  ]);
+
+  const { subtotalCents, promotionCents, discountCents, taxCents, totalCents } = pricing;
+
+  const cashPaidCents = Math.max(0, parseMoney(cashPaid, moneyFormat) ?? 0);
+  const cardPaidCents = Math.max(0, parseMoney(cardPaid, moneyFormat) ?? 0);
+  const paidCents =
+    paymentMethod === "cash"
+      ? cashPaidCents
+      : paymentMethod === "card"
+        ? cardPaidCents
+        : cashPaidCents + cardPaidCents;
+
+  const balanceCents = totalCents - paidCents;
+  const changeCents = balanceCents < 0 ? -balanceCents : 0;
+  const hasCart = cart.length > 0;
+  const validPayment = (hasCart || Boolean(activeTab)) && paidCents >= totalCents && totalCents > 0;
+
+  // Units still available after what is already in the cart; null when untracked.
+  const stockLeft = (productId: string) => {
+    const stockQty = menuCatalog.find((item) => item.id === productId)?.stockQty;
+    if (stockQty === null || stockQty === undefined) {
+      return null;
     }
-    return Math.max(0, toNumber(cashPaid)) + Math.max(0, toNumber(cardPaid));
-  }, [paymentMethod, cashPaid, cardPaid]);
+    const inCart = cart
+      .filter((line) => line.productId === productId)
+      .reduce((sum, line) => sum + line.quantity, 0);
+    return stockQty - inCart;
+  };
 
-  const balance = total - paidAmount;
-  const changeDue = balance < 0 ? Math.abs(balance) : 0;
-  const hasCart = cart.length > 0;
-  const validPayment = hasCart && paidAmount >= total && total > 0;
+  const addLine = (item: MenuItem, modifierIds: string[]) => {
+    const left = stockLeft(item.id);
+    if (left !== null && left <= 0) {
+      setStatusMessage(`${item.name} is sold out.`);
+      return;
+    }
+    const key = cartLineKey(item.id, modifierIds);
+    const modifiers = item.modifierGroups
+      .flatMap((group) => group.modifiers)
+      .filter((modifier) => modifierIds.includes(modifier.id))
+      .map((modifier) => ({ id: modifier.id, name: modifier.name, priceCents: modifier.priceCents }));
 
-  const addToCart = (item: MenuItem) => {
     setStatusMessage("");
     setCart((prev) => {
-      const exists = prev.find((line) => line.id === item.id);
+      const exists = prev.find((line) => line.key === key);
       if (!exists) {
-        return [...prev, { ...item, quantity: 1 }];
+        return [
+          ...prev,
+          {
+            key,
+            productId: item.id,
+            name: item.name,
+            priceCents: item.priceCents,
+            quantity: 1,
+            sku: item.sku,
+            modifiers,
+          },
+        ];
       }
       return prev.map((line) =>
-        line.id === item.id ? { ...line, quantity: line.quantity + 1 } : line,
+        line.key === key ? { ...line, quantity: line.quantity + 1 } : line,
       );
     });
   };
 
-  const adjustQuantity = (itemId: string, delta: number) => {
+  const addToCart = (item: MenuItem) => {
+    const left = stockLeft(item.id);
+    if (left !== null && left <= 0) {
+      setStatusMessage(`${item.name} is sold out.`);
+      return;
+    }
+    if (item.modifierGroups.length > 0) {
+      setPickerItem(item);
+      setPickerSelection([]);
+      return;
+    }
+    addLine(item, []);
+  };
+
+  const togglePickerModifier = (group: CatalogModifierGroup, modifierId: string) => {
+    setPickerSelection((current) => {
+      if (current.includes(modifierId)) {
+        return current.filter((id) => id !== modifierId);
+      }
+      const groupIds = group.modifiers.map((modifier) => modifier.id);
+      const chosenInGroup = current.filter((id) => groupIds.includes(id));
+      const limit = maxSelections(group);
+      if (limit === 1) {
+        // Single-choice groups behave like radio buttons.
+        return [...current.filter((id) => !groupIds.includes(id)), modifierId];
+      }
+      if (chosenInGroup.length >= limit) {
+        return current;
+      }
+      return [...current, modifierId];
+    });
+  };
+
+  const pickerError = pickerItem
+    ? validateModifierSelection(pickerItem.modifierGroups, pickerSelection)
+    : null;
+
+  const confirmPicker = () => {
+    if (!pickerItem || pickerError) {
+      return;
+    }
+    addLine(pickerItem, pickerSelection);
+    setPickerItem(null);
+    setPickerSelection([]);
+  };
+
+  const adjustQuantity = (lineKey: string, delta: number) => {
+    const line = cart.find((entry) => entry.key === lineKey);
+    const left = line ? stockLeft(line.productId) : null;
+    if (line && delta > 0 && left !== null && left < delta) {
+      setStatusMessage(`No more ${line.name} in stock.`);
+      return;
+    }
     setCart((prev) =>
       prev
         .map((line) =>
-          line.id === itemId ? { ...line, quantity: Math.max(0, line.quantity + delta) } : line,
+          line.key === lineKey ? { ...line, quantity: Math.max(0, line.quantity + delta) } : line,
         )
         .filter((line) => line.quantity > 0),
     );
   };
 
-  const clearOrder = () => {
+  const selectedTable = tables.find((table) => table.id === tableId) ?? null;
+
+  const chooseOrderType = (type: OrderTypeCode) => {
+    setOrderType(type);
+    if (type !== "DINE_IN") {
+      setTableId(null);
+    }
+  };
+
+  const resetOrderForm = () => {
     setCart([]);
     const reset = resetOrderValues();
+    setTableId(reset.tableId);
     setOrderNote(reset.orderNote);
-    setDiscountMode(reset.discountMode);
+    setDiscountChoice(reset.discountChoice);
+    setCustomDiscountMode(reset.customDiscountMode);
     setDiscountValue(reset.discountValue);
     setPaymentMethod(reset.paymentMethod);
     setCashPaid(reset.cashPaid);
     setCardPaid(reset.cardPaid);
+  };
+
+  const clearOrder = () => {
+    resetOrderForm();
+    setActiveTabId(null);
     setStatusMessage("Order cleared.");
   };
 
-  const sendTicket = (ticket: KitchenTicket) => {
+  const selectTab = (tab: OpenTab | null) => {
+    resetOrderForm();
+    setActiveTabId(tab?.orderId ?? null);
+    if (tab) {
+      setOrderType(tab.type);
+      setStatusMessage(`Tab #${tab.orderNumber} loaded. Add a round or take payment.`);
+    }
+  };
+
+  // Each item carries its product's station; the socket server splits the ticket by it.
+  // The category picks the board's amber/red thresholds for the ticket.
+  const toTicketItems = (lines: CartLine[]): KitchenTicketItem[] =>
+    lines.map((line) => {
+      const product = menuCatalog.find((item) => item.id === line.productId);
+      return {
+        id: line.key,
+        name: line.name,
+        quantity: line.quantity,
+        modifiers: line.modifiers.map((modifier) => modifier.name),
+        station: product?.prepStation ?? DEFAULT_PREP_STATION,
+        productId: line.productId,
+        categoryId: product?.categoryId ?? undefined,
+      };
+    });
+
+  // Queues `message` in the outbox and sends it right away when connected;
+  // returns whether it went out now.
+  const deliver = (message: KitchenSocketMessage) => {
+    const entry: OutboxEntry = { ref: nextFrameRef(), message, attempts: 0 };
+    outboxRef.current.push(entry);
     const socket = socketRef.current;
     if (!socket || socket.readyState !== WebSocket.OPEN) {
-      pendingTicketsRef.current.push(ticket);
       return false;
     }
-    const message: KitchenSocketMessage = { type: "NEW_ORDER", payload: ticket };
-    socket.send(JSON.stringify(message));
+    socket.send(encodeFrame(message, entry.ref));
     return true;
   };
 
-  const sendSale = (sale: SaleRecord) => {
+  const sendTicket = (ticket: KitchenTicket) => deliver({ type: "NEW_ORDER", payload: ticket });
+
+  const sendSale = (sale: SaleRecord) =>
+    deliver({ type: sale.kind === "refund" ? "NEW_REFUND" : "NEW_SALE", payload: sale });
+
+  // Low-stock alerts are live-only; when the socket is down the admin simply
+  // sees the lower stock figure on the next catalog load.
+  const reportLowStock = (alerts: LowStockAlert[] | undefined) => {
     const socket = socketRef.current;
-    if (!socket || socket.readyState !== WebSocket.OPEN) {
-      pendingSalesRef.current.push(sale);
-      return false;
+    if (!alerts || alerts.length === 0 || !socket || socket.readyState !== WebSocket.OPEN) {
+      return;
+    }
+    const createdAt = new Date().toISOString();
+    alerts.forEach((alert) => {
+      const message: KitchenSocketMessage = { type: "LOW_STOCK", payload: { ...alert, createdAt } };
+      socket.send(encodeFrame(message));
+    });
+  };
+
+  const sendVoid = (receiptNo: number) => deliver({ type: "ORDER_VOIDED", payload: { receiptNo } });
+
+  const isApprover = Boolean(staff && APPROVER_ROLES.includes(staff.role));
+
+  // Managers approve their own refunds; everyone else sends a manager's PIN.
+  const approvalFields = () =>
+    isApprover ? {} : { approval: { userId: approverId, pin: approverPin } };
+
+  // Presets are open to everyone; a custom amount needs a manager like a refund does.
+  const discountFields = () => {
+    if (selectedDiscount) {
+      return { discountId: selectedDiscount.id };
+    }
+    if (discountChoice === "custom") {
+      // Fixed amounts travel in minor units, like every other amount.
+      const value =
+        customDiscountMode === "percent" ? toNumber(discountValue) : (parseMoney(discountValue, moneyFormat) ?? 0);
+      return { discountMode: customDiscountMode, discountValue: value, ...approvalFields() };
+    }
+    return {};
+  };
+
+  const approvalInputs = isApprover ? (
+    <p className="text-xs text-slate-500">Signed in as a manager; your actions are self-approved.</p>
+  ) : (
+    <div className="grid grid-cols-2 gap-2">
+      <select
+        value={approverId}
+        onChange={(event) => setApproverId(event.target.value)}
+        aria-label="Approving manager"
+        className="h-10 rounded-md border border-slate-300 px-2 outline-none"
+      >
+        <option value="">Approving manager...</option>
+        {approvers.map((approver) => (
+          <option key={approver.id} value={approver.id}>
+            {approver.fullName}
+          </option>
+        ))}
+      </select>
+      <input
+        type="password"
+        inputMode="numeric"
+        value={approverPin}
+        onChange={(event) => setApproverPin(event.target.value.replace(/\D/g, "").slice(0, 8))}
+        placeholder="Manager PIN"
+        className="h-10 rounded-md border border-slate-300 px-2 outline-none"
+      />
+    </div>
+  );
+
+  // Receipts are rendered by the server from the stored order, so they
+  // survive a reload; copies printed later say REPRINT.
+  const openReceipt = (orderNumber: number, reprint: boolean) => {
+    const route = reprint ? "reprint" : "receipt";
+    const opened = window.open(`/api/orders/${orderNumber}/${route}?print=1`, "_blank", "width=420,height=720");
+    if (!opened) {
+      setStatusMessage("Allow pop-ups to print receipts.");
+    }
+  };
+
+  const sendReceiptToPrinter = async (orderNumber: number, reprint: boolean) => {
+    try {
+      const response = await fetch(`/api/orders/${orderNumber}/${reprint ? "reprint" : "receipt"}`, {
+        method: "POST",
+      });
+      const payload = (await response.json()) as { printer?: string; error?: string };
+      setStatusMessage(
+        response.ok
+          ? `Receipt #${orderNumber}${reprint ? " reprint" : ""} sent to ${payload.printer}.`
+          : payload.error || "Unable to print receipt.",
+      );
+    } catch {
+      setStatusMessage("Unable to reach the server to print the receipt.");
+    }
+  };
+
+  const emailReceipt = async (orderNumber: number) => {
+    const email = receiptEmail.trim();
+    if (!email.includes("@")) {
+      setStatusMessage("Enter the guest's email address.");
+      return;
+    }
+    try {
+      const response = await fetch(`/api/orders/${orderNumber}/receipt?format=text`, { cache: "no-store" });
+      if (!response.ok) {
+        const payload = (await response.json().catch(() => ({}))) as { error?: string };
+        setStatusMessage(payload.error || "Unable to load receipt.");
+        return;
+      }
+      window.location.href = receiptMailto(
+        email,
+        `${store.displayName} receipt #${orderNumber}`,
+        await response.text(),
+      );
+    } catch {
+      setStatusMessage("Unable to reach the server to load the receipt.");
+    }
+  };
+
+  const readReprintNumber = () => {
+    const orderNumber = Number(reprintLookup.trim());
+    if (!Number.isInteger(orderNumber) || orderNumber <= 0) {
+      setStatusMessage("Enter a receipt number to reprint.");
+      return null;
+    }
+    return orderNumber;
+  };
+
+  const lookupRefundOrder = async () => {
+    const orderNumber = refundLookup.trim();
+    if (!orderNumber) {
+      setStatusMessage("Enter a receipt number to refund.");
+      return;
+    }
+    try {
+      const response = await fetch(`/api/orders/${encodeURIComponent(orderNumber)}`, { cache: "no-store" });
+      const payload = (await response.json()) as Partial<RefundableOrder> & { error?: string };
+      if (!response.ok || typeof payload.orderNumber !== "number") {
+        setRefundTarget(null);
+        setStatusMessage(payload.error || "Order not found.");
+        return;
+      }
+      setRefundTarget(payload as RefundableOrder);
+      setRefundQuantities({});
+    } catch {
+      setStatusMessage("Unable to reach the server to look up the order.");
+    }
+  };
+
+  const adjustRefundQuantity = (itemId: string, delta: number, max: number) => {
+    setRefundQuantities((prev) => ({
+      ...prev,
+      [itemId]: Math.min(max, Math.max(0, (prev[itemId] ?? 0) + delta)),
+    }));
+  };
+
+  const submitRefund = async (refundAll: boolean) => {
+    if (isSubmitting || !refundTarget) {
+      return;
+    }
+    const items = Object.entries(refundQuantities)
+      .filter(([, quantity]) => quantity > 0)
+      .map(([orderItemId, quantity]) => ({ orderItemId, quantity }));
+    if (!refundAll && items.length === 0) {
+      setStatusMessage("Choose the items to refund.");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(`/api/orders/${refundTarget.orderNumber}/refund`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          items: refundAll ? "all" : items,
+          method: refundMethod === "original" ? null : refundMethod,
+          notes: refundReason,
+          ...approvalFields(),
+        }),
+      });
+      const payload = (await response.json()) as Partial<RefundResponse> & { error?: string };
+      if (!response.ok || typeof payload.refundCents !== "number") {
+        setStatusMessage(payload.error || "Unable to refund order.");
+        return;
+      }
+      const refund = payload as RefundResponse;
+
+      const now = new Date();
+      const sentAdmin =
+        refund.refundCents > 0 &&
+        sendSale({
+          id: `refund-${refund.orderNumber}-${now.getTime()}`,
+          receiptNo: refund.orderNumber,
+          kind: "refund",
+          waiterId: staff?.userId,
+          waiterName: staff?.name || "Unknown Waiter",
+          totalCents: -refund.refundCents,
+          createdAt: now.toISOString(),
+        });
+
+      setApproverPin("");
+      setRefundReason("");
+      setRefundTarget(null);
+      setRefundLookup("");
+      await Promise.all([refreshShift(), refreshCatalog()]);
+      setStatusMessage(
+        `Refunded ${money(refund.refundCents)} on receipt #${refund.orderNumber}${
+          refund.status === "REFUNDED" ? " (fully refunded)" : ""
+        }.${sentAdmin || refund.refundCents === 0 ? "" : " Socket offline, refund queued for sync."}`,
+      );
+    } catch {
+      setStatusMessage("Unable to reach the server. Nothing was refunded.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const voidActiveTab = async () => {
+    if (isSubmitting || !activeTab) {
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(`/api/tabs/${activeTab.orderId}/void`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ notes: refundReason, ...approvalFields() }),
+      });
+      const payload = (await response.json()) as { orderNumber?: number; error?: string };
+      if (!response.ok || typeof payload.orderNumber !== "number") {
+        setStatusMessage(payload.error || "Unable to void tab.");
+        return;
+      }
+
+      const sentKitchen = sendVoid(payload.orderNumber);
+      setApproverPin("");
+      setRefundReason("");
+      resetOrderForm();
+      setActiveTabId(null);
+      await Promise.all([refreshTabs(), refreshCatalog()]);
+      setStatusMessage(
+        `Tab #${payload.orderNumber} voided.${sentKitchen ? "" : " Socket offline, kitchen will be told on reconnect."}`,
+      );
+    } catch {
+      setStatusMessage("Unable to reach the server. Tab was not voided.");
+    } finally {
+      setIsSubmitting(false);
     }
-    const message: KitchenSocketMessage = { type: "NEW_SALE", payload: sale };
-    socket.send(JSON.stringify(message));
-    return true;
   };
 
   const useExactTotal = () => {
-    const exact = total.toFixed(2);
+    const exact = formatMoneyInput(totalCents, moneyFormat);
     if (paymentMethod === "cash") {
       setCashPaid(exact);
       setCardPaid("0");
@@ -354,6 +1276,179 @@ export default function WaiterPage() {
     setCardPaid(exact);
   };
 
+  const tenderedPayments = () => {
+    let remaining = totalCents;
+    const payments: Array<{ method: "cash" | "card"; amountCents: number }> = [];
+
+    if (paymentMethod === "cash" || paymentMethod === "split") {
+      const appliedCash = Math.min(remaining, cashPaidCents);
+      if (appliedCash > 0) {
+        payments.push({ method: "cash", amountCents: appliedCash });
+        remaining -= appliedCash;
+      }
+    }
+    if (paymentMethod === "card" || paymentMethod === "split") {
+      const appliedCard = Math.min(remaining, cardPaidCents);
+      if (appliedCard > 0) {
+        payments.push({ method: "card", amountCents: appliedCard });
+        remaining -= appliedCard;
+      }
+    }
+    return payments;
+  };
+
+  const fireRound = async () => {
+    if (isSubmitting) {
+      return;
+    }
+    if (!hasCart) {
+      setStatusMessage("Add items to fire a round to the kitchen.");
+      return;
+    }
+
+    setIsSubmitting(true);
+    const items = cart.map((line) => ({
+      productId: line.productId,
+      quantity: line.quantity,
+      modifierIds: line.modifiers.map((modifier) => modifier.id),
+    }));
+
+    try {
+      const response = activeTab
+        ? await fetch(`/api/tabs/${activeTab.orderId}/rounds`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ items }),
+          })
+        : await fetch("/api/tabs", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ items, orderType, tableId, notes: orderNote }),
+          });
+      const payload = (await response.json()) as Partial<FiredRoundResponse> & { error?: string };
+      if (!response.ok || typeof payload.orderNumber !== "number") {
+        setStatusMessage(payload.error || "Unable to fire round.");
+        return;
+      }
+      const fired = payload as FiredRoundResponse;
+
+      const now = new Date();
+      const note = activeTab ? null : orderNote.trim() || null;
+      const sentKitchen = sendTicket({
+        id: `ticket-${fired.orderNumber}-r${fired.round}`,
+        receiptNo: fired.orderNumber,
+        round: fired.round,
+        createdAt: now.toISOString(),
+        note,
+        orderType: fired.type,
+        tableName: fired.tableName,
+        status: "new",
+        items: toTicketItems(cart),
+      });
+
+      reportLowStock(fired.lowStock);
+      resetOrderForm();
+      setActiveTabId(fired.orderId);
+      await Promise.all([refreshTabs(), refreshCatalog()]);
+      setStatusMessage(
+        `Round ${fired.round} for tab #${fired.orderNumber} ${
+          sentKitchen ? "sent to kitchen" : "queued for kitchen (socket offline)"
+        }.`,
+      );
+    } catch {
+      setStatusMessage("Unable to reach the server. Round was not fired.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const payActiveTab = async () => {
+    if (isSubmitting || !activeTab) {
+      return;
+    }
+    if (hasCart) {
+      setStatusMessage("Fire or clear the new items before taking payment.");
+      return;
+    }
+    if (!shift) {
+      setStatusMessage("Open a shift before taking payments.");
+      return;
+    }
+    if (!validPayment) {
+      setStatusMessage(`Payment is incomplete. Remaining balance is ${money(Math.max(0, balanceCents))}.`);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(`/api/tabs/${activeTab.orderId}/pay`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...discountFields(),
+          payments: tenderedPayments(),
+        }),
+      });
+      const payload = (await response.json()) as Partial<OrderResponse> & { error?: string };
+      if (!response.ok || typeof payload.totalCents !== "number") {
+        setStatusMessage(payload.error || "Unable to settle tab.");
+        await refreshTabs();
+        return;
+      }
+      const settled = payload as OrderResponse;
+
+      const now = new Date();
+      const receipt: ReceiptSnapshot = {
+        receiptNo: settled.orderNumber,
+        createdAt: now.toLocaleString("en-US", { timeZone: store.timeZone }),
+        orderType: activeTab.type,
+        tableName: settled.tableName,
+        lines: activeTab.items.map((item) => ({
+          key: item.id,
+          productId: item.id,
+          name: item.name,
+          priceCents: Math.round(item.lineTotalCents / item.quantity),
+          quantity: item.quantity,
+          sku: "",
+          modifiers: item.modifiers.map((name) => ({ id: name, name, priceCents: 0 })),
+        })),
+        subtotalCents: settled.subtotalCents,
+        promotionCents: settled.promotionCents,
+        discountCents: settled.discountCents,
+        taxCents: settled.taxCents,
+        taxInclusive: settled.taxInclusive,
+        taxLines: settled.taxLines,
+        totalCents: settled.totalCents,
+        paymentMethod,
+        paidCents,
+        changeCents: settled.changeCents,
+        orderNote: activeTab.notes ?? "",
+      };
+      const sentAdmin = sendSale({
+        id: `sale-${settled.orderNumber}-${now.getTime()}`,
+        receiptNo: settled.orderNumber,
+        waiterId: staff?.userId,
+        waiterName: staff?.name || "Unknown Waiter",
+        totalCents: receipt.totalCents,
+        createdAt: now.toISOString(),
+      });
+
+      setLastReceipt(receipt);
+      resetOrderForm();
+      setActiveTabId(null);
+      await Promise.all([refreshTabs(), refreshShift()]);
+      setStatusMessage(
+        sentAdmin
+          ? `Tab #${settled.orderNumber} paid and closed.`
+          : `Tab #${settled.orderNumber} paid. Socket offline, sale queued for sync.`,
+      );
+    } catch {
+      setStatusMessage("Unable to reach the server. Tab is still open.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   const completeSale = async () => {
     if (isSubmitting) {
       return;
@@ -362,121 +1457,121 @@ export default function WaiterPage() {
       setStatusMessage("Add at least one item before checkout.");
       return;
     }
+    if (!shift) {
+      setStatusMessage("Open a shift before taking payments.");
+      return;
+    }
     if (!validPayment) {
-      setStatusMessage(`Payment is incomplete. Remaining balance is ${money(Math.max(0, balance))}.`);
+      setStatusMessage(`Payment is incomplete. Remaining balance is ${money(Math.max(0, balanceCents))}.`);
       return;
     }
 
     setIsSubmitting(true);
     const now = new Date();
-    let receiptNo = receiptCounter;
-    let savedToDatabase = false;
 
     const draft: ReceiptSnapshot = {
-      receiptNo,
-      createdAt: now.toLocaleString("en-US"),
+      receiptNo: receiptCounter,
+      createdAt: now.toLocaleString("en-US", { timeZone: store.timeZone }),
+      orderType,
+      tableName: selectedTable?.name ?? null,
       lines: cart,
-      subtotal,
-      discount: discountAmount,
-      tax: taxAmount,
-      total,
+      subtotalCents,
+      promotionCents,
+      discountCents,
+      taxCents,
+      taxInclusive: pricing.taxInclusive,
+      taxLines: pricing.taxLines,
+      totalCents,
       paymentMethod,
-      paid: paidAmount,
-      change: changeDue,
+      paidCents,
+      changeCents,
       orderNote,
     };
 
+    // The kitchen only hears about a sale the database has numbered, so a
+    // failed save keeps the cart for another try instead of firing a ticket.
+    let serverTotals: OrderResponse;
     try {
-      let remaining = total;
-      const payments: Array<{ method: "cash" | "card"; amount: number }> = [];
-      const cashAmount = Math.max(0, toNumber(cashPaid));
-      const cardAmount = Math.max(0, toNumber(cardPaid));
-
-      if (paymentMethod === "cash" || paymentMethod === "split") {
-        const appliedCash = Math.min(remaining, cashAmount);
-        if (appliedCash > 0) {
-          payments.push({ method: "cash", amount: appliedCash });
-          remaining -= appliedCash;
-        }
-      }
-      if (paymentMethod === "card" || paymentMethod === "split") {
-        const appliedCard = Math.min(remaining, cardAmount);
-        if (appliedCard > 0) {
-          payments.push({ method: "card", amount: appliedCard });
-          remaining -= appliedCard;
-        }
-      }
-
+      const payments = tenderedPayments();
       const response = await fetch("/api/orders", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          waiterName,
           notes: orderNote,
-          discountMode,
-          discountValue: toNumber(discountValue),
+          ...discountFields(),
+          orderType,
+          tableId,
           items: cart.map((line) => ({
-            productId: line.id,
+            productId: line.productId,
             quantity: line.quantity,
+            modifierIds: line.modifiers.map((modifier) => modifier.id),
           })),
           payments,
         }),
       });
-
-      if (response.ok) {
-        const payload = (await response.json()) as { orderNumber?: number };
-        if (typeof payload.orderNumber === "number") {
-          receiptNo = payload.orderNumber;
-        }
-        savedToDatabase = true;
+      const payload = (await response.json().catch(() => ({}))) as Partial<OrderResponse> & { error?: string };
+      if (!response.ok || typeof payload.orderNumber !== "number" || typeof payload.totalCents !== "number") {
+        setStatusMessage(payload.error || "The sale was not saved. The cart is kept; try again.");
+        setIsSubmitting(false);
+        return;
       }
+      serverTotals = payload as OrderResponse;
     } catch {
-      savedToDatabase = false;
+      setStatusMessage("Unable to reach the server. The sale was not saved; the cart is kept.");
+      setIsSubmitting(false);
+      return;
     }
 
-    const finalReceipt: ReceiptSnapshot = { ...draft, receiptNo };
+    // Receipts show the server's authoritative totals.
+    const receiptNo = serverTotals.orderNumber;
+    const finalReceipt: ReceiptSnapshot = {
+      ...draft,
+      receiptNo,
+      tableName: serverTotals.tableName,
+      subtotalCents: serverTotals.subtotalCents,
+      promotionCents: serverTotals.promotionCents,
+      discountCents: serverTotals.discountCents,
+      taxCents: serverTotals.taxCents,
+      taxInclusive: serverTotals.taxInclusive,
+      taxLines: serverTotals.taxLines,
+      totalCents: serverTotals.totalCents,
+      changeCents: serverTotals.changeCents,
+    };
     const kitchenTicket: KitchenTicket = {
       id: `ticket-${receiptNo}-${now.getTime()}`,
       receiptNo,
       createdAt: now.toISOString(),
       note: finalReceipt.orderNote.trim() ? finalReceipt.orderNote.trim() : null,
+      orderType: finalReceipt.orderType,
+      tableName: finalReceipt.tableName,
       status: "new",
-      items: finalReceipt.lines.map((line) => ({
-        id: line.id,
-        name: line.name,
-        quantity: line.quantity,
-      })),
+      items: toTicketItems(finalReceipt.lines),
     };
     const sale: SaleRecord = {
       id: `sale-${receiptNo}-${now.getTime()}`,
       receiptNo,
-      waiterName: waiterName.trim() || "Unknown Waiter",
-      total: Number(finalReceipt.total.toFixed(2)),
+      waiterId: staff?.userId,
+      waiterName: staff?.name || "Unknown Waiter",
+      totalCents: finalReceipt.totalCents,
       createdAt: now.toISOString(),
     };
 
     const sentKitchen = sendTicket(kitchenTicket);
     const sentAdmin = sendSale(sale);
+    reportLowStock(serverTotals.lowStock);
 
     setLastReceipt(finalReceipt);
+    void refreshShift();
+    void refreshCatalog();
     setReceiptCounter((prev) => Math.max(prev + 1, receiptNo + 1));
-    setCart([]);
-    const reset = resetOrderValues();
-    setOrderNote(reset.orderNote);
-    setDiscountMode(reset.discountMode);
-    setDiscountValue(reset.discountValue);
-    setPaymentMethod(reset.paymentMethod);
-    setCashPaid(reset.cashPaid);
-    setCardPaid(reset.cardPaid);
+    resetOrderForm();
     setIsSubmitting(false);
 
-    if (savedToDatabase && sentKitchen && sentAdmin) {
-      setStatusMessage(`Receipt #${receiptNo} completed and synced.`);
-    } else if (!savedToDatabase) {
-      setStatusMessage(`Receipt #${receiptNo} sent live, but database save failed.`);
-    } else {
-      setStatusMessage(`Receipt #${receiptNo} completed. Socket offline, queued for sync.`);
-    }
+    setStatusMessage(
+      sentKitchen && sentAdmin
+        ? `Receipt #${receiptNo} completed and synced.`
+        : `Receipt #${receiptNo} completed. Socket offline, queued for sync.`,
+    );
   };
 
   return (
@@ -484,25 +1579,113 @@ export default function WaiterPage() {
       className="min-h-screen bg-gradient-to-br from-slate-100 via-blue-50 to-blue-100 px-4 py-6 text-slate-900 md:px-6"
       style={{ fontFamily: '"Trebuchet MS", "Segoe UI", sans-serif' }}
     >
+      {readyOrders.length > 0 ? (
+        <div className="sticky top-2 z-20 mx-auto mb-4 w-full max-w-7xl space-y-2" role="status">
+          {readyOrders.map((notice) => (
+            <div
+              key={`${notice.receiptNo}-${notice.round}`}
+              className="flex flex-wrap items-center justify-between gap-2 rounded-xl bg-[#2E7D32] px-4 py-3 text-white shadow-lg"
+            >
+              <p className="font-semibold">
+                Order #{notice.receiptNo}
+                {notice.round > 1 ? ` round ${notice.round}` : ""} is ready:{" "}
+                {describeDestination(notice.orderType, notice.tableName)} · {storeTime(notice.readyAt)}
+              </p>
+              <button
+                type="button"
+                onClick={() =>
+                  setReadyOrders((current) =>
+                    current.filter((entry) => entry.receiptNo !== notice.receiptNo || entry.round !== notice.round),
+                  )
+                }
+                className="rounded-md bg-white/20 px-3 py-1 text-xs font-semibold uppercase"
+              >
+                Dismiss
+              </button>
+            </div>
+          ))}
+        </div>
+      ) : null}
       <div className="mx-auto grid w-full max-w-7xl gap-6 lg:grid-cols-[1.6fr_1fr]">
         <section className="space-y-4 rounded-2xl border border-slate-200 bg-white/90 p-4 shadow-xl shadow-blue-200/30">
           <header className="flex flex-wrap items-center justify-between gap-3 rounded-xl bg-[#4F7CFF] px-4 py-3 text-white">
             <div>
               <p className="text-xs uppercase tracking-[0.2em] text-blue-100">Waiter Console</p>
-              <h1 className="text-xl font-bold md:text-2xl">MAASH ALLAH CAFE</h1>
+              <h1 className="text-xl font-bold md:text-2xl">{store.displayName}</h1>
             </div>
             <div className="text-right text-sm">
-              <label className="mb-1 block text-xs text-blue-100">Waiter Name</label>
-              <input
-                value={waiterName}
-                onChange={(event) => setWaiterName(event.target.value)}
-                className="h-9 w-36 rounded-md border border-blue-300/60 bg-white/20 px-2 text-right text-sm font-semibold text-white outline-none placeholder:text-blue-100"
-                placeholder="Waiter-1"
-              />
-              <p className="text-blue-100">{new Date().toLocaleTimeString("en-US")}</p>
+              <p className="text-xs text-blue-100">Signed in as</p>
+              <p className="font-semibold">{staff?.name ?? "..."}</p>
+              <Link href="/login?next=/waiter" className="text-xs font-semibold uppercase text-blue-100 underline">
+                Switch user
+              </Link>
+              <p className="text-blue-100">{storeTime(new Date())}</p>
             </div>
           </header>
 
+          {shiftLoaded ? (
+            <div
+              className={`grid gap-2 rounded-xl border p-3 text-sm ${
+                shift ? "border-green-200 bg-green-50/70" : "border-amber-200 bg-amber-50/80"
+              }`}
+            >
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <p className="font-semibold text-slate-700">
+                  {shift
+                    ? `Shift open since ${storeTime(shift.openedAt)}`
+                    : "No open shift. Count your opening float to start taking payments."}
+                </p>
+                {shift ? (
+                  <p className="text-xs text-slate-600">
+                    Float {money(shift.openingCashCents)} + cash sales {money(shift.cashSalesCents)} ={" "}
+                    <span className="font-bold">expected {money(shift.expectedCashCents)}</span>
+                  </p>
+                ) : null}
+              </div>
+              <div className="grid gap-2 sm:grid-cols-[1fr_2fr_auto]">
+                <input
+                  value={drawerCash}
+                  onChange={(event) => setDrawerCash(event.target.value)}
+                  inputMode="decimal"
+                  aria-label={shift ? "Counted closing cash" : "Opening cash"}
+                  placeholder={shift ? "Counted cash" : "Opening float"}
+                  className="h-10 rounded-md border border-slate-300 px-2 outline-none"
+                />
+                <input
+                  value={shiftNote}
+                  onChange={(event) => setShiftNote(event.target.value)}
+                  placeholder="Shift notes (optional)"
+                  className="h-10 rounded-md border border-slate-300 px-2 outline-none"
+                />
+                <button
+                  type="button"
+                  onClick={() => void submitShift()}
+                  disabled={isSubmitting}
+                  className={`min-h-10 rounded-md px-4 font-semibold text-white disabled:opacity-50 ${
+                    shift ? "bg-slate-700" : "bg-[#2E7D32]"
+                  }`}
+                >
+                  {shift ? "Close Shift" : "Open Shift"}
+                </button>
+              </div>
+              {lastClosedShift && lastClosedShift.varianceCents !== null ? (
+                <p className="text-xs text-slate-600">
+                  Last shift: expected {money(lastClosedShift.expectedCashCents)}, counted{" "}
+                  {money(lastClosedShift.closingCashCents ?? 0)},{" "}
+                  <span
+                    className={`font-bold ${lastClosedShift.varianceCents < 0 ? "text-red-600" : "text-green-700"}`}
+                  >
+                    {lastClosedShift.varianceCents === 0
+                      ? "balanced"
+                      : `${lastClosedShift.varianceCents < 0 ? "short" : "over"} ${money(
+                          Math.abs(lastClosedShift.varianceCents),
+                        )}`}
+                  </span>
+                </p>
+              ) : null}
+            </div>
+          ) : null}
+
           <div className="rounded-xl border border-blue-100 bg-blue-50/70 p-3">
             <p className="mb-2 text-sm font-semibold text-slate-700">Quick Items</p>
             <div className="flex flex-wrap gap-2">
@@ -511,9 +1694,10 @@ export default function WaiterPage() {
                   key={item.id}
                   type="button"
                   onClick={() => addToCart(item)}
-                  className="min-h-11 rounded-lg bg-white px-3 py-2 text-sm font-semibold text-slate-700 shadow-sm ring-1 ring-blue-100 transition hover:-translate-y-0.5 hover:bg-blue-100"
+                  disabled={(stockLeft(item.id) ?? 1) <= 0}
+                  className="min-h-11 disabled:opacity-40 rounded-lg bg-white px-3 py-2 text-sm font-semibold text-slate-700 shadow-sm ring-1 ring-blue-100 transition hover:-translate-y-0.5 hover:bg-blue-100"
                 >
-                  {item.name} | {money(item.price)}
+                  {item.name} | {money(item.priceCents)}
                 </button>
               ))}
             </div>
@@ -547,18 +1731,32 @@ export default function WaiterPage() {
           </label>
 
           <div className="grid max-h-[55vh] grid-cols-2 gap-3 overflow-y-auto pr-1 md:grid-cols-3">
-            {filteredItems.map((item) => (
-              <button
-                key={item.id}
-                type="button"
-                onClick={() => addToCart(item)}
-                className="min-h-28 rounded-xl border border-slate-200 bg-white p-3 text-left shadow-sm transition hover:-translate-y-0.5 hover:border-[#4F7CFF]"
-              >
-                <p className="text-sm font-bold text-slate-800">{item.name}</p>
-                <p className="mt-1 text-xs text-slate-500">{item.sku || "NO-SKU"}</p>
-                <p className="mt-2 text-sm font-extrabold text-[#2E7D32]">{money(item.price)}</p>
-              </button>
-            ))}
+            {filteredItems.map((item) => {
+              const left = stockLeft(item.id);
+              const soldOut = left !== null && left <= 0;
+              return (
+                <button
+                  key={item.id}
+                  type="button"
+                  onClick={() => addToCart(item)}
+                  disabled={soldOut}
+                  className="relative min-h-28 rounded-xl border border-slate-200 bg-white p-3 text-left shadow-sm transition hover:-translate-y-0.5 hover:border-[#4F7CFF] disabled:cursor-not-allowed disabled:opacity-50 disabled:hover:translate-y-0 disabled:hover:border-slate-200"
+                >
+                  <p className="text-sm font-bold text-slate-800">{item.name}</p>
+                  <p className="mt-1 text-xs text-slate-500">{item.sku || "NO-SKU"}</p>
+                  <p className="mt-2 text-sm font-extrabold text-[#2E7D32]">{money(item.priceCents)}</p>
+                  {soldOut ? (
+                    <span className="absolute right-2 top-2 rounded-full bg-red-100 px-2 py-0.5 text-[10px] font-bold uppercase text-red-700">
+                      Sold out
+                    </span>
+                  ) : left !== null && left <= (item.reorderLevel ?? 0) ? (
+                    <span className="absolute right-2 top-2 rounded-full bg-amber-100 px-2 py-0.5 text-[10px] font-bold uppercase text-amber-700">
+                      {left} left
+                    </span>
+                  ) : null}
+                </button>
+              );
+            })}
           </div>
         </section>
 
@@ -579,23 +1777,135 @@ export default function WaiterPage() {
           </div>
           <p className="text-xs text-slate-500">Socket URL: {socketUrl}</p>
 
+          <div className="grid gap-2 rounded-xl border border-slate-200 p-3 text-sm">
+            <div className="flex items-center justify-between">
+              <p className="font-semibold text-slate-700">Open Tabs</p>
+              <button
+                type="button"
+                onClick={() => void refreshTabs()}
+                className="text-xs font-semibold text-[#4F7CFF] hover:underline"
+              >
+                Refresh
+              </button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <button
+                type="button"
+                onClick={() => selectTab(null)}
+                className={`min-h-9 rounded-full px-3 text-xs font-semibold ${
+                  activeTab ? "bg-slate-100 text-slate-700" : "bg-[#4F7CFF] text-white"
+                }`}
+              >
+                New order
+              </button>
+              {openTabs.map((tab) => (
+                <button
+                  key={tab.orderId}
+                  type="button"
+                  onClick={() => selectTab(tab)}
+                  className={`min-h-9 rounded-full px-3 text-xs font-semibold ${
+                    tab.orderId === activeTabId
+                      ? "bg-[#4F7CFF] text-white"
+                      : "bg-slate-100 text-slate-700 hover:bg-blue-100"
+                  }`}
+                >
+                  #{tab.orderNumber} · {describeDestination(tab.type, tab.tableName)} ·{" "}
+                  {money(tab.subtotalCents)}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid gap-2 rounded-xl border border-slate-200 p-3 text-sm">
+            <p className="font-semibold text-slate-700">Order Type</p>
+            <div className="grid grid-cols-3 gap-2">
+              {ORDER_TYPES.map((type) => (
+                <button
+                  key={type}
+                  type="button"
+                  onClick={() => chooseOrderType(type)}
+                  disabled={Boolean(activeTab)}
+                  className={`min-h-10 rounded-md font-semibold disabled:cursor-not-allowed disabled:opacity-60 ${
+                    orderType === type ? "bg-[#4F7CFF] text-white" : "bg-slate-100 text-slate-700"
+                  }`}
+                >
+                  {ORDER_TYPE_LABELS[type]}
+                </button>
+              ))}
+            </div>
+            {!activeTab && orderType === "DINE_IN" && tables.length > 0 ? (
+              <div className="grid grid-cols-4 gap-2">
+                {tables.map((table) => (
+                  <button
+                    key={table.id}
+                    type="button"
+                    onClick={() => setTableId(table.id === tableId ? null : table.id)}
+                    className={`min-h-11 rounded-md text-sm font-bold ${
+                      table.id === tableId
+                        ? "bg-[#2E7D32] text-white"
+                        : "bg-slate-100 text-slate-700 hover:bg-blue-100"
+                    }`}
+                  >
+                    {table.name}
+                  </button>
+                ))}
+              </div>
+            ) : null}
+            <p className="text-xs text-slate-500">
+              Sending to:{" "}
+              {activeTab
+                ? `Tab #${activeTab.orderNumber} · ${describeDestination(activeTab.type, activeTab.tableName)}`
+                : describeDestination(orderType, selectedTable?.name ?? null)}
+            </p>
+          </div>
+
+          {activeTab && activeTab.items.length > 0 ? (
+            <div className="space-y-1 rounded-xl border border-slate-200 bg-slate-50 p-3 text-sm">
+              <p className="font-semibold text-slate-700">Already fired</p>
+              {activeTab.items.map((item) => (
+                <div key={item.id} className="flex items-start justify-between gap-2 text-xs text-slate-600">
+                  <span>
+                    <span className="font-semibold text-slate-500">R{item.round}</span> {item.quantity}x {item.name}
+                    {item.modifiers.length > 0 ? ` (${item.modifiers.join(", ")})` : ""}
+                    {promotionResult.byLine[item.id]?.map((promotion) => (
+                      <span key={promotion.promotionId} className="block font-semibold text-orange-600">
+                        {promotion.name} -{money(promotion.discountCents)}
+                      </span>
+                    ))}
+                  </span>
+                  <span className="font-semibold">{money(item.lineTotalCents)}</span>
+                </div>
+              ))}
+            </div>
+          ) : null}
+
           <div className="max-h-56 space-y-2 overflow-y-auto pr-1">
             {cart.length === 0 ? (
               <p className="rounded-lg bg-slate-100 p-3 text-sm text-slate-500">No items yet.</p>
             ) : (
               cart.map((line) => (
-                <div key={line.id} className="rounded-lg border border-slate-200 p-2">
+                <div key={line.key} className="rounded-lg border border-slate-200 p-2">
                   <div className="flex items-start justify-between gap-2">
                     <div>
                       <p className="text-sm font-semibold text-slate-800">{line.name}</p>
+                      {line.modifiers.length > 0 ? (
+                        <p className="text-xs font-semibold text-blue-700">
+                          + {line.modifiers.map((modifier) => modifier.name).join(", ")}
+                        </p>
+                      ) : null}
                       <p className="text-xs text-slate-500">{line.sku || "NO-SKU"}</p>
+                      {promotionResult.byLine[line.key]?.map((promotion) => (
+                        <p key={promotion.promotionId} className="text-xs font-semibold text-orange-600">
+                          {promotion.name} -{money(promotion.discountCents)}
+                        </p>
+                      ))}
                     </div>
-                    <p className="text-sm font-bold text-[#2E7D32]">{money(line.price * line.quantity)}</p>
+                    <p className="text-sm font-bold text-[#2E7D32]">{money(unitPriceCents(line) * line.quantity)}</p>
                   </div>
                   <div className="mt-2 flex items-center gap-2">
                     <button
                       type="button"
-                      onClick={() => adjustQuantity(line.id, -1)}
+                      onClick={() => adjustQuantity(line.key, -1)}
                       className="min-h-9 min-w-9 rounded-md bg-slate-100 px-2 text-sm font-bold text-slate-700"
                     >
                       -
@@ -603,7 +1913,7 @@ export default function WaiterPage() {
                     <span className="w-7 text-center text-sm font-semibold">{line.quantity}</span>
                     <button
                       type="button"
-                      onClick={() => adjustQuantity(line.id, 1)}
+                      onClick={() => adjustQuantity(line.key, 1)}
                       className="min-h-9 min-w-9 rounded-md bg-slate-100 px-2 text-sm font-bold text-slate-700"
                     >
                       +
@@ -627,27 +1937,45 @@ export default function WaiterPage() {
 
           <div className="grid gap-2 rounded-xl border border-slate-200 p-3 text-sm">
             <p className="font-semibold text-slate-700">Discount</p>
-            <div className="grid grid-cols-3 gap-2">
-              {(["none", "percent", "fixed"] as DiscountMode[]).map((mode) => (
-                <button
-                  key={mode}
-                  type="button"
-                  onClick={() => setDiscountMode(mode)}
-                  className={`min-h-10 rounded-md font-semibold ${
-                    discountMode === mode ? "bg-[#4F7CFF] text-white" : "bg-slate-100 text-slate-700"
-                  }`}
-                >
-                  {mode === "none" ? "None" : mode === "percent" ? "%" : "Fixed"}
-                </button>
+            <select
+              value={discountChoice}
+              onChange={(event) => setDiscountChoice(event.target.value)}
+              aria-label="Discount"
+              className="h-10 rounded-md border border-slate-300 px-2 outline-none"
+            >
+              <option value="none">No discount</option>
+              {discounts.map((discount) => (
+                <option key={discount.id} value={discount.id}>
+                  {discount.name} ({discount.isPercent ? `${discount.value}%` : money(discount.value)})
+                </option>
               ))}
-            </div>
-            <input
-              disabled={discountMode === "none"}
-              value={discountValue}
-              onChange={(event) => setDiscountValue(event.target.value)}
-              placeholder={discountMode === "percent" ? "10 for 10%" : "2.50"}
-              className="h-10 rounded-md border border-slate-300 px-2 outline-none disabled:opacity-40"
-            />
+              <option value="custom">Custom amount (manager)</option>
+            </select>
+            {discountChoice === "custom" ? (
+              <>
+                <div className="grid grid-cols-[auto_auto_1fr] gap-2">
+                  {(["percent", "fixed"] as CustomDiscountMode[]).map((mode) => (
+                    <button
+                      key={mode}
+                      type="button"
+                      onClick={() => setCustomDiscountMode(mode)}
+                      className={`min-h-10 rounded-md px-3 font-semibold ${
+                        customDiscountMode === mode ? "bg-[#4F7CFF] text-white" : "bg-slate-100 text-slate-700"
+                      }`}
+                    >
+                      {mode === "percent" ? "%" : "Fixed"}
+                    </button>
+                  ))}
+                  <input
+                    value={discountValue}
+                    onChange={(event) => setDiscountValue(event.target.value)}
+                    placeholder={customDiscountMode === "percent" ? "10 for 10%" : formatMoneyInput(250, moneyFormat)}
+                    className="h-10 rounded-md border border-slate-300 px-2 outline-none"
+                  />
+                </div>
+                {approvalInputs}
+              </>
+            ) : null}
           </div>
 
           <div className="rounded-xl border border-slate-200 p-3 text-sm">
@@ -698,27 +2026,38 @@ export default function WaiterPage() {
           <div className="space-y-1 rounded-xl bg-slate-900 p-3 text-sm text-slate-100">
             <div className="flex justify-between">
               <span>Subtotal</span>
-              <span>{money(subtotal)}</span>
+              <span>{money(subtotalCents)}</span>
             </div>
+            {promotionCents > 0 ? (
+              <div className="flex justify-between text-orange-300">
+                <span>Promotions</span>
+                <span>-{money(promotionCents)}</span>
+              </div>
+            ) : null}
             <div className="flex justify-between text-orange-300">
               <span>Discount</span>
-              <span>-{money(discountAmount)}</span>
-            </div>
-            <div className="flex justify-between">
-              <span>Tax ({taxRate.toFixed(2)}%)</span>
-              <span>{money(taxAmount)}</span>
+              <span>-{money(discountCents)}</span>
             </div>
+            {pricing.taxLines.map((line) => (
+              <div key={`${line.name}-${line.rateBasisPoints}`} className="flex justify-between">
+                <span>
+                  {line.name} {formatTaxRate(line.rateBasisPoints)}
+                  {pricing.taxInclusive ? " (included)" : ""}
+                </span>
+                <span>{money(line.taxCents)}</span>
+              </div>
+            ))}
             <div className="mt-1 flex justify-between text-base font-bold">
               <span>Total</span>
-              <span>{money(total)}</span>
+              <span>{money(totalCents)}</span>
             </div>
-            <div className={`flex justify-between ${balance > 0 ? "text-red-300" : "text-green-300"}`}>
-              <span>{balance > 0 ? "Remaining" : "Change"}</span>
-              <span>{money(Math.abs(balance))}</span>
+            <div className={`flex justify-between ${balanceCents > 0 ? "text-red-300" : "text-green-300"}`}>
+              <span>{balanceCents > 0 ? "Remaining" : "Change"}</span>
+              <span>{money(Math.abs(balanceCents))}</span>
             </div>
           </div>
 
-          <div className="grid grid-cols-2 gap-2">
+          <div className="grid grid-cols-3 gap-2">
             <button
               type="button"
               onClick={clearOrder}
@@ -728,12 +2067,31 @@ export default function WaiterPage() {
             </button>
             <button
               type="button"
-              onClick={() => void completeSale()}
+              onClick={() => void fireRound()}
               disabled={!hasCart || isSubmitting}
-              className="min-h-11 rounded-lg bg-[#2E7D32] text-sm font-semibold text-white disabled:cursor-not-allowed disabled:opacity-50"
+              className="min-h-11 rounded-lg bg-[#4F7CFF] text-sm font-semibold text-white disabled:cursor-not-allowed disabled:opacity-50"
             >
-              {isSubmitting ? "Processing..." : "Complete Sale"}
+              {activeTab ? "Fire Round" : "Open Tab"}
             </button>
+            {activeTab ? (
+              <button
+                type="button"
+                onClick={() => void payActiveTab()}
+                disabled={hasCart || !shift || isSubmitting}
+                className="min-h-11 rounded-lg bg-[#2E7D32] text-sm font-semibold text-white disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {isSubmitting ? "Processing..." : "Pay Tab"}
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={() => void completeSale()}
+                disabled={!hasCart || !shift || isSubmitting}
+                className="min-h-11 rounded-lg bg-[#2E7D32] text-sm font-semibold text-white disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {isSubmitting ? "Processing..." : "Complete Sale"}
+              </button>
+            )}
           </div>
 
           {statusMessage && (
@@ -742,20 +2100,292 @@ export default function WaiterPage() {
 
           {lastReceipt && (
             <article className="rounded-xl border border-dashed border-slate-300 bg-slate-50 p-3 text-xs text-slate-700">
+              <p className="text-sm font-bold">{store.displayName}</p>
+              {store.address ? <p className="whitespace-pre-line text-slate-500">{store.address}</p> : null}
+              {store.receiptHeader ? <p className="mb-1 whitespace-pre-line">{store.receiptHeader}</p> : null}
               <p className="text-sm font-bold">Receipt #{lastReceipt.receiptNo}</p>
+              <p className="font-semibold">
+                {describeDestination(lastReceipt.orderType, lastReceipt.tableName)}
+              </p>
               <p className="mb-2 text-slate-500">{lastReceipt.createdAt}</p>
               <div className="space-y-1">
                 {lastReceipt.lines.map((line) => (
-                  <div key={line.id} className="flex justify-between">
-                    <span>{line.quantity}x {line.name}</span>
-                    <span>{money(line.price * line.quantity)}</span>
+                  <div key={line.key} className="flex justify-between">
+                    <span>
+                      {line.quantity}x {line.name}
+                      {line.modifiers.length > 0
+                        ? ` (${line.modifiers.map((modifier) => modifier.name).join(", ")})`
+                        : ""}
+                    </span>
+                    <span>{money(unitPriceCents(line) * line.quantity)}</span>
+                  </div>
+                ))}
+                {lastReceipt.promotionCents > 0 ? (
+                  <div className="flex justify-between font-semibold">
+                    <span>Promotions</span>
+                    <span>-{money(lastReceipt.promotionCents)}</span>
+                  </div>
+                ) : null}
+                {lastReceipt.taxLines.map((line) => (
+                  <div key={`${line.name}-${line.rateBasisPoints}`} className="flex justify-between text-slate-500">
+                    <span>
+                      {line.name} {formatTaxRate(line.rateBasisPoints)} on {money(line.taxableCents)}
+                      {lastReceipt.taxInclusive ? " (included)" : ""}
+                    </span>
+                    <span>{money(line.taxCents)}</span>
                   </div>
                 ))}
               </div>
+              {store.receiptFooter ? <p className="mt-2 whitespace-pre-line text-center">{store.receiptFooter}</p> : null}
+              <div className="mt-3 grid gap-2 border-t border-dashed border-slate-300 pt-2">
+                <div className="grid grid-cols-2 gap-2">
+                  <button
+                    type="button"
+                    onClick={() => openReceipt(lastReceipt.receiptNo, false)}
+                    className="min-h-9 rounded-md bg-[#4F7CFF] font-semibold text-white"
+                  >
+                    Print
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => void sendReceiptToPrinter(lastReceipt.receiptNo, false)}
+                    className="min-h-9 rounded-md bg-slate-200 font-semibold text-slate-700"
+                  >
+                    Receipt printer
+                  </button>
+                </div>
+                <div className="flex gap-2">
+                  <input
+                    value={receiptEmail}
+                    onChange={(event) => setReceiptEmail(event.target.value)}
+                    type="email"
+                    placeholder="guest@example.com"
+                    className="h-9 min-w-0 flex-1 rounded-md border border-slate-300 bg-white px-2 outline-none"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => void emailReceipt(lastReceipt.receiptNo)}
+                    className="min-h-9 rounded-md bg-slate-200 px-3 font-semibold text-slate-700"
+                  >
+                    Email
+                  </button>
+                </div>
+              </div>
             </article>
           )}
+
+          <div className="grid gap-2 rounded-xl border border-slate-200 p-3 text-sm">
+            <p className="font-semibold text-slate-700">Reprint Receipt</p>
+            <div className="flex gap-2">
+              <input
+                value={reprintLookup}
+                onChange={(event) => setReprintLookup(event.target.value.replace(/\D/g, ""))}
+                inputMode="numeric"
+                placeholder="Receipt #"
+                className="h-10 min-w-0 flex-1 rounded-md border border-slate-300 px-2 outline-none"
+              />
+              <button
+                type="button"
+                onClick={() => {
+                  const orderNumber = readReprintNumber();
+                  if (orderNumber) {
+                    openReceipt(orderNumber, true);
+                  }
+                }}
+                className="min-h-10 rounded-md bg-slate-100 px-3 font-semibold text-slate-700"
+              >
+                Reprint
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  const orderNumber = readReprintNumber();
+                  if (orderNumber) {
+                    void sendReceiptToPrinter(orderNumber, true);
+                  }
+                }}
+                className="min-h-10 rounded-md bg-slate-100 px-3 font-semibold text-slate-700"
+              >
+                To printer
+              </button>
+            </div>
+          </div>
+
+          <div className="grid gap-2 rounded-xl border border-slate-200 p-3 text-sm">
+            <p className="font-semibold text-slate-700">Refunds &amp; Voids</p>
+            {approvalInputs}
+            <input
+              value={refundReason}
+              onChange={(event) => setRefundReason(event.target.value)}
+              placeholder="Reason (wrong item, customer complaint...)"
+              className="h-10 rounded-md border border-slate-300 px-2 outline-none"
+            />
+            {activeTab ? (
+              <button
+                type="button"
+                onClick={() => void voidActiveTab()}
+                disabled={isSubmitting}
+                className="min-h-10 rounded-md bg-red-600 font-semibold text-white disabled:opacity-50"
+              >
+                Void tab #{activeTab.orderNumber}
+              </button>
+            ) : null}
+            <div className="flex gap-2">
+              <input
+                value={refundLookup}
+                onChange={(event) => setRefundLookup(event.target.value.replace(/\D/g, ""))}
+                inputMode="numeric"
+                placeholder="Receipt #"
+                className="h-10 min-w-0 flex-1 rounded-md border border-slate-300 px-2 outline-none"
+              />
+              <button
+                type="button"
+                onClick={() => void lookupRefundOrder()}
+                className="min-h-10 rounded-md bg-slate-100 px-3 font-semibold text-slate-700"
+              >
+                Look up
+              </button>
+            </div>
+            {refundTarget ? (
+              <div className="space-y-2 rounded-lg bg-slate-50 p-2">
+                <p className="text-xs font-semibold text-slate-600">
+                  #{refundTarget.orderNumber} · {describeDestination(refundTarget.type, refundTarget.tableName)} ·{" "}
+                  {refundTarget.status.toLowerCase()} · paid {money(refundTarget.totalCents)}
+                  {refundTarget.refundedCents > 0 ? `, refunded ${money(refundTarget.refundedCents)}` : ""}
+                </p>
+                {refundTarget.items.map((item) => {
+                  const refundable = item.quantity - item.refundedQty;
+                  return (
+                    <div key={item.id} className="flex items-center justify-between gap-2 text-xs">
+                      <span className={refundable === 0 ? "text-slate-400 line-through" : "text-slate-700"}>
+                        {item.quantity}x {item.name}
+                        {item.modifiers.length > 0 ? ` (${item.modifiers.join(", ")})` : ""}
+                      </span>
+                      {refundable > 0 ? (
+                        <span className="flex items-center gap-1">
+                          <button
+                            type="button"
+                            onClick={() => adjustRefundQuantity(item.id, -1, refundable)}
+                            className="min-h-8 min-w-8 rounded-md bg-white font-bold ring-1 ring-slate-200"
+                          >
+                            -
+                          </button>
+                          <span className="w-6 text-center font-semibold">{refundQuantities[item.id] ?? 0}</span>
+                          <button
+                            type="button"
+                            onClick={() => adjustRefundQuantity(item.id, 1, refundable)}
+                            className="min-h-8 min-w-8 rounded-md bg-white font-bold ring-1 ring-slate-200"
+                          >
+                            +
+                          </button>
+                        </span>
+                      ) : null}
+                    </div>
+                  );
+                })}
+                <div className="grid grid-cols-3 gap-2">
+                  {(["original", "cash", "card"] as const).map((method) => (
+                    <button
+                      key={method}
+                      type="button"
+                      onClick={() => setRefundMethod(method)}
+                      className={`min-h-9 rounded-md text-xs font-semibold ${
+                        refundMethod === method ? "bg-[#4F7CFF] text-white" : "bg-white text-slate-700"
+                      }`}
+                    >
+                      {method === "original" ? "Original tender" : method === "cash" ? "Cash" : "Card"}
+                    </button>
+                  ))}
+                </div>
+                {refundTarget.status === "PAID" ? (
+                  <div className="grid grid-cols-2 gap-2">
+                    <button
+                      type="button"
+                      onClick={() => void submitRefund(false)}
+                      disabled={isSubmitting}
+                      className="min-h-10 rounded-md bg-amber-500 font-semibold text-white disabled:opacity-50"
+                    >
+                      Refund selected
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => void submitRefund(true)}
+                      disabled={isSubmitting}
+                      className="min-h-10 rounded-md bg-red-600 font-semibold text-white disabled:opacity-50"
+                    >
+                      Refund all
+                    </button>
+                  </div>
+                ) : (
+                  <p className="text-xs text-slate-500">Only paid orders can be refunded.</p>
+                )}
+              </div>
+            ) : null}
+          </div>
         </section>
       </div>
+
+      {pickerItem ? (
+        <div className="fixed inset-0 z-10 flex items-center justify-center bg-slate-900/50 p-4">
+          <div className="w-full max-w-md space-y-3 rounded-2xl bg-white p-4 shadow-2xl">
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <p className="text-xs uppercase tracking-[0.2em] text-slate-500">Modifiers</p>
+                <h2 className="text-lg font-bold text-slate-800">{pickerItem.name}</h2>
+              </div>
+              <p className="text-sm font-bold text-[#2E7D32]">{money(pickerItem.priceCents)}</p>
+            </div>
+            <div className="max-h-[55vh] space-y-3 overflow-y-auto pr-1">
+              {pickerItem.modifierGroups.map((group) => (
+                <div key={group.id} className="rounded-xl border border-slate-200 p-3">
+                  <p className="text-sm font-semibold text-slate-700">
+                    {group.name}
+                    <span className="ml-2 text-xs font-normal text-slate-500">
+                      {minSelections(group) > 0 ? "Required" : "Optional"} · up to{" "}
+                      {maxSelections(group)}
+                    </span>
+                  </p>
+                  <div className="mt-2 grid grid-cols-2 gap-2">
+                    {group.modifiers.map((modifier) => (
+                      <button
+                        key={modifier.id}
+                        type="button"
+                        onClick={() => togglePickerModifier(group, modifier.id)}
+                        className={`min-h-11 rounded-lg px-2 text-sm font-semibold ${
+                          pickerSelection.includes(modifier.id)
+                            ? "bg-[#4F7CFF] text-white"
+                            : "bg-slate-100 text-slate-700 hover:bg-blue-100"
+                        }`}
+                      >
+                        {modifier.name}
+                        {modifier.priceCents > 0 ? ` +${money(modifier.priceCents)}` : ""}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+            {pickerError ? <p className="text-sm font-semibold text-[#F57C00]">{pickerError}</p> : null}
+            <div className="grid grid-cols-2 gap-2">
+              <button
+                type="button"
+                onClick={() => setPickerItem(null)}
+                className="min-h-11 rounded-lg bg-slate-100 text-sm font-semibold text-slate-700"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={confirmPicker}
+                disabled={Boolean(pickerError)}
+                className="min-h-11 rounded-lg bg-[#2E7D32] text-sm font-semibold text-white disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                Add to Order
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : null}
     </main>
   );
 }
@@ -0,0 +1,36 @@
+import type { StaffRole } from "./roles";
+
+/** Roles allowed on each guarded page, checked by src/proxy.ts. */
+export const PAGE_ACCESS: Record<string, readonly StaffRole[]> = {
+  "/waiter": ["WAITER", "CASHIER", "MANAGER", "ADMIN"],
+  "/kitchen": ["COOK", "MANAGER", "ADMIN"],
+  "/components/kitchen": ["COOK", "MANAGER", "ADMIN"],
+  "/admin": ["MANAGER", "ADMIN"],
+};
+
+/** Roles that may ring up sales through /api/orders. */
+export const SELLING_ROLES: readonly StaffRole[] = ["WAITER", "CASHIER", "MANAGER", "ADMIN"];
+
+/** Roles whose sign-in or PIN authorizes refunds and voids. */
+export const APPROVER_ROLES: readonly StaffRole[] = ["MANAGER", "ADMIN"];
+
+export function findGuardedPage(pathname: string) {
+  return Object.keys(PAGE_ACCESS).find(
+    (page) => pathname === page || pathname.startsWith(`${page}/`),
+  );
+}
+
+export function canAccessPage(role: StaffRole, pathname: string) {
+  const page = findGuardedPage(pathname);
+  return !page || PAGE_ACCESS[page].includes(role);
+}
+
+export function homePageFor(role: StaffRole) {
+  if (role === "COOK") {
+    return "/kitchen";
+  }
+  if (role === "MANAGER" || role === "ADMIN") {
+    return "/admin";
+  }
+  return "/waiter";
+}
@@ -0,0 +1,123 @@
+/**
+ * Store-local calendar helpers. Every "today" in the app is a business day
+ * in the store's timezone that starts at its cutoff hour, so a sale at 1am
+ * still counts toward the night before when the cutoff is 4.
+ */
+
+export type BusinessDayClock = {
+  /** IANA zone such as "America/New_York". */
+  timeZone: string;
+  /** Hour (0-23) the business day rolls over at. */
+  businessDayCutoffHour: number;
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function partsFormatter(timeZone: string) {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      weekday: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isTimeZone(value: unknown): value is string {
+  if (typeof value !== "string" || !value) {
+    return false;
+  }
+  try {
+    partsFormatter(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Wall-clock fields of `at` in the zone. */
+export function zonedParts(at: Date, timeZone: string) {
+  const fields: Record<string, string> = {};
+  for (const part of partsFormatter(timeZone).formatToParts(at)) {
+    fields[part.type] = part.value;
+  }
+  return {
+    year: Number(fields.year),
+    month: Number(fields.month),
+    day: Number(fields.day),
+    weekday: WEEKDAYS.indexOf(fields.weekday),
+    hour: Number(fields.hour),
+    minute: Number(fields.minute),
+    second: Number(fields.second),
+  };
+}
+
+// The zone's offset from UTC at `at`, in milliseconds.
+function zoneOffset(at: Date, timeZone: string) {
+  const parts = zonedParts(at, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(at.getTime() / 1000) * 1000;
+}
+
+// The instant the zone's clock reads the given wall time. Checking the offset
+// a second time keeps the answer right on the days clocks change.
+function zonedInstant(year: number, month: number, day: number, hour: number, timeZone: string) {
+  const wall = Date.UTC(year, month - 1, day, hour);
+  const first = wall - zoneOffset(new Date(wall), timeZone);
+  return new Date(wall - zoneOffset(new Date(first), timeZone));
+}
+
+function formatDayKey(year: number, month: number, day: number) {
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/** "2026-03-14" for the business day `at` falls in; "" for an invalid date. */
+export function businessDayKey(at: Date | string, clock: BusinessDayClock) {
+  const date = new Date(at);
+  if (Number.isNaN(date.getTime())) {
+    return "";
+  }
+  const shifted = new Date(date.getTime() - clock.businessDayCutoffHour * HOUR_MS);
+  const parts = zonedParts(shifted, clock.timeZone);
+  return formatDayKey(parts.year, parts.month, parts.day);
+}
+
+/** The instant the business day "2026-03-14" opens; `offsetDays` moves to a later or earlier day. */
+export function businessDayStart(dayKey: string, clock: BusinessDayClock, offsetDays = 0) {
+  const [year, month, day] = dayKey.split("-").map(Number);
+  // Date.UTC rolls the offset over month and year ends.
+  const date = new Date(Date.UTC(year, month - 1, day) + offsetDays * DAY_MS);
+  return zonedInstant(
+    date.getUTCFullYear(),
+    date.getUTCMonth() + 1,
+    date.getUTCDate(),
+    clock.businessDayCutoffHour,
+    clock.timeZone,
+  );
+}
+
+/** The business day `at` falls in, as the instants it opens and closes at. */
+export function businessDayBounds(at: Date, clock: BusinessDayClock) {
+  const day = businessDayKey(at, clock);
+  return { day, start: businessDayStart(day, clock), end: businessDayStart(day, clock, 1) };
+}
+
+/** The store's weekday (0 = Sunday) and minutes after midnight at `at`. */
+export function storeClock(at: Date, timeZone: string) {
+  const parts = zonedParts(at, timeZone);
+  return { weekday: parts.weekday, minute: parts.hour * 60 + parts.minute };
+}
@@ -0,0 +1,649 @@
+import { Prisma } from "@prisma/client";
+import { OrderError } from "./order-error";
+import { DEFAULT_PREP_STATION, isPrepStation, PREP_STATIONS, type PrepStation } from "./prep-stations";
+import { prisma } from "./prisma";
+import { isPromotionType, MINUTES_PER_DAY, type PromotionRule } from "./promotions";
+import { categoryThresholds, MAX_PREP_MINUTES } from "./ticket-timing";
+
+export class CatalogError extends OrderError {
+  constructor(message: string, status = 400) {
+    super(message, status);
+    this.name = "CatalogError";
+  }
+}
+
+/** Entities the admin catalog editor manages; each maps to /api/admin/catalog/<entity>. */
+export const CATALOG_ENTITIES = [
+  "categories",
+  "products",
+  "modifier-groups",
+  "modifiers",
+  "discounts",
+  "promotions",
+  "tax-profiles",
+  "tables",
+] as const;
+
+export type CatalogEntity = (typeof CATALOG_ENTITIES)[number];
+
+export function isCatalogEntity(value: unknown): value is CatalogEntity {
+  return CATALOG_ENTITIES.some((entity) => entity === value);
+}
+
+export type AdminCategory = {
+  id: string;
+  name: string;
+  sortOrder: number;
+  taxProfileId: string | null;
+  prepWarnMinutes: number | null;
+  prepLateMinutes: number | null;
+  isActive: boolean;
+};
+
+export type AdminProduct = {
+  id: string;
+  name: string;
+  description: string | null;
+  sku: string | null;
+  imageUrl: string | null;
+  priceCents: number;
+  costCents: number | null;
+  categoryId: string | null;
+  taxProfileId: string | null;
+  prepStation: PrepStation;
+  isActive: boolean;
+  trackStock: boolean;
+  reorderLevel: number;
+};
+
+export type AdminModifierGroup = {
+  id: string;
+  name: string;
+  isRequired: boolean;
+  minSelect: number;
+  maxSelect: number;
+  isActive: boolean;
+};
+
+export type AdminModifier = {
+  id: string;
+  productId: string;
+  modifierGroupId: string | null;
+  groupName: string;
+  name: string;
+  priceCents: number;
+  isRequired: boolean;
+  minSelect: number;
+  maxSelect: number;
+  isActive: boolean;
+};
+
+export type AdminDiscount = {
+  id: string;
+  name: string;
+  isPercent: boolean;
+  value: number;
+  isActive: boolean;
+};
+
+export type AdminPromotion = PromotionRule & { isActive: boolean };
+
+export type AdminTaxProfile = {
+  id: string;
+  name: string;
+  rateBasisPoints: number;
+  takeoutBasisPoints: number | null;
+  deliveryBasisPoints: number | null;
+  isActive: boolean;
+};
+
+export type AdminTable = {
+  id: string;
+  name: string;
+  isActive: boolean;
+};
+
+export type AdminCatalog = {
+  categories: AdminCategory[];
+  products: AdminProduct[];
+  modifierGroups: AdminModifierGroup[];
+  modifiers: AdminModifier[];
+  discounts: AdminDiscount[];
+  promotions: AdminPromotion[];
+  taxProfiles: AdminTaxProfile[];
+  tables: AdminTable[];
+};
+
+const MAX_PRICE_CENTS = 10000000;
+const MAX_SELECT = 20;
+const MAX_PROMOTION_QTY = 20;
+const MAX_TAX_BASIS_POINTS = 10000;
+
+/** Everything the editor shows, inactive rows included. */
+export async function loadAdminCatalog(): Promise<AdminCatalog> {
+  const [
+    categories,
+    products,
+    modifierGroups,
+    modifiers,
+    discounts,
+    promotions,
+    taxProfiles,
+    tables,
+  ] = await Promise.all([
+    prisma.category.findMany({
+      orderBy: [{ sortOrder: "asc" }, { name: "asc" }],
+      select: {
+        id: true,
+        name: true,
+        sortOrder: true,
+        taxProfileId: true,
+        prepWarnMinutes: true,
+        prepLateMinutes: true,
+        isActive: true,
+      },
+    }),
+    prisma.product.findMany({
+      orderBy: { name: "asc" },
+      select: {
+        id: true,
+        name: true,
+        description: true,
+        sku: true,
+        imageUrl: true,
+        priceCents: true,
+        costCents: true,
+        categoryId: true,
+        taxProfileId: true,
+        prepStation: true,
+        isActive: true,
+        trackStock: true,
+        reorderLevel: true,
+      },
+    }),
+    prisma.modifierGroup.findMany({
+      orderBy: { name: "asc" },
+      select: { id: true, name: true, isRequired: true, minSelect: true, maxSelect: true, isActive: true },
+    }),
+    prisma.modifier.findMany({
+      orderBy: [{ groupName: "asc" }, { priceCents: "asc" }, { name: "asc" }],
+      select: {
+        id: true,
+        productId: true,
+        modifierGroupId: true,
+        groupName: true,
+        name: true,
+        priceCents: true,
+        isRequired: true,
+        minSelect: true,
+        maxSelect: true,
+        isActive: true,
+      },
+    }),
+    prisma.discount.findMany({
+      orderBy: { name: "asc" },
+      select: { id: true, name: true, isPercent: true, value: true, isActive: true },
+    }),
+    prisma.promotion.findMany({
+      orderBy: [{ priority: "desc" }, { name: "asc" }],
+      omit: { createdAt: true, updatedAt: true },
+      include: { scope: { select: { productId: true, categoryId: true, quantity: true } } },
+    }),
+    prisma.taxProfile.findMany({
+      orderBy: { name: "asc" },
+      omit: { createdAt: true, updatedAt: true },
+    }),
+    prisma.table.findMany({
+      orderBy: { name: "asc" },
+      select: { id: true, name: true, isActive: true },
+    }),
+  ]);
+
+  return { categories, products, modifierGroups, modifiers, discounts, promotions, taxProfiles, tables };
+}
+
+function readName(body: Record<string, unknown>, label: string) {
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  if (!name) {
+    throw new CatalogError(`${label} name is required.`);
+  }
+  if (name.length > 80) {
+    throw new CatalogError(`${label} name must be 80 characters or fewer.`);
+  }
+  return name;
+}
+
+function readText(body: Record<string, unknown>, field: string) {
+  const value = body[field];
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (typeof value !== "string") {
+    throw new CatalogError(`${field} must be text.`);
+  }
+  return value.trim() || null;
+}
+
+function readFlag(body: Record<string, unknown>, field: string, fallback: boolean) {
+  const value = body[field];
+  if (value === undefined) {
+    return fallback;
+  }
+  if (typeof value !== "boolean") {
+    throw new CatalogError(`${field} must be true or false.`);
+  }
+  return value;
+}
+
+function readCount(body: Record<string, unknown>, field: string, fallback: number, max: number) {
+  const value = body[field] ?? fallback;
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0 || count > max) {
+    throw new CatalogError(`${field} must be a whole number between 0 and ${max}.`);
+  }
+  return count;
+}
+
+function readCents(body: Record<string, unknown>, field: string) {
+  const cents = Number(body[field]);
+  if (!Number.isInteger(cents) || cents < 0 || cents > MAX_PRICE_CENTS) {
+    throw new CatalogError(`${field} must be a non-negative amount in cents.`);
+  }
+  return cents;
+}
+
+function readId(body: Record<string, unknown>, field: string) {
+  const value = body[field];
+  if (value === undefined || value === null || value === "") {
+    return null;
+  }
+  if (typeof value !== "string") {
+    throw new CatalogError(`${field} must be an id.`);
+  }
+  return value;
+}
+
+function readOptionalMinutes(body: Record<string, unknown>, field: string) {
+  if (body[field] === null || body[field] === undefined) {
+    return null;
+  }
+  const minutes = readCount(body, field, 0, MAX_PREP_MINUTES);
+  if (minutes === 0) {
+    throw new CatalogError(`${field} must be at least 1 minute.`);
+  }
+  return minutes;
+}
+
+function parseCategory(body: Record<string, unknown>) {
+  const prepWarnMinutes = readOptionalMinutes(body, "prepWarnMinutes");
+  const prepLateMinutes = readOptionalMinutes(body, "prepLateMinutes");
+  const thresholds = categoryThresholds({ prepWarnMinutes, prepLateMinutes });
+  if (thresholds.lateMinutes <= thresholds.warnMinutes) {
+    throw new CatalogError(
+      `Tickets must turn red later than amber (${thresholds.warnMinutes} min amber, ${thresholds.lateMinutes} min red).`,
+    );
+  }
+  return {
+    name: readName(body, "Category"),
+    taxProfileId: readId(body, "taxProfileId"),
+    prepWarnMinutes,
+    prepLateMinutes,
+    isActive: readFlag(body, "isActive", true),
+  };
+}
+
+function parseProduct(body: Record<string, unknown>) {
+  const imageUrl = readText(body, "imageUrl");
+  if (imageUrl && !/^(https?:\/\/|\/)/.test(imageUrl)) {
+    throw new CatalogError("imageUrl must be an http(s) URL or a path starting with /.");
+  }
+  const sku = readText(body, "sku");
+  const prepStation = body.prepStation ?? DEFAULT_PREP_STATION;
+  if (!isPrepStation(prepStation)) {
+    throw new CatalogError(`prepStation must be one of ${PREP_STATIONS.join(", ")}.`);
+  }
+  return {
+    name: readName(body, "Product"),
+    description: readText(body, "description"),
+    sku: sku ? sku.toUpperCase() : null,
+    imageUrl,
+    priceCents: readCents(body, "priceCents"),
+    costCents: body.costCents === null || body.costCents === undefined ? null : readCents(body, "costCents"),
+    categoryId: readId(body, "categoryId"),
+    taxProfileId: readId(body, "taxProfileId"),
+    prepStation,
+    isActive: readFlag(body, "isActive", true),
+    trackStock: readFlag(body, "trackStock", false),
+    reorderLevel: readCount(body, "reorderLevel", 0, 100000),
+  };
+}
+
+function readSelectRange(body: Record<string, unknown>) {
+  const isRequired = readFlag(body, "isRequired", false);
+  const minSelect = readCount(body, "minSelect", 0, MAX_SELECT);
+  const maxSelect = readCount(body, "maxSelect", 1, MAX_SELECT);
+  if (maxSelect < 1) {
+    throw new CatalogError("maxSelect must allow at least one choice.");
+  }
+  if (minSelect > maxSelect) {
+    throw new CatalogError("minSelect cannot be more than maxSelect.");
+  }
+  return { isRequired, minSelect, maxSelect };
+}
+
+function parseModifierGroup(body: Record<string, unknown>) {
+  return {
+    name: readName(body, "Modifier group"),
+    ...readSelectRange(body),
+    isActive: readFlag(body, "isActive", true),
+  };
+}
+
+/**
+ * Modifiers in a shared group take the group's name; the group's rules win
+ * in the catalog, so the per-modifier rules only matter for ungrouped ones.
+ */
+async function parseModifier(body: Record<string, unknown>) {
+  const productId = readId(body, "productId");
+  if (!productId) {
+    throw new CatalogError("Choose the product this modifier belongs to.");
+  }
+  const modifierGroupId = readId(body, "modifierGroupId");
+  let groupName = typeof body.groupName === "string" ? body.groupName.trim() : "";
+  if (modifierGroupId) {
+    const group = await prisma.modifierGroup.findUnique({ where: { id: modifierGroupId } });
+    if (!group) {
+      throw new CatalogError("Modifier group not found.", 404);
+    }
+    groupName = group.name;
+  }
+  if (!groupName) {
+    throw new CatalogError("Choose a modifier group or name one.");
+  }
+  return {
+    productId,
+    modifierGroupId,
+    groupName,
+    name: readName(body, "Modifier"),
+    priceCents: readCents(body, "priceCents"),
+    ...readSelectRange(body),
+    isActive: readFlag(body, "isActive", true),
+  };
+}
+
+function parseDiscount(body: Record<string, unknown>) {
+  const isPercent = readFlag(body, "isPercent", true);
+  const value = Number(body.value);
+  if (isPercent && (!Number.isInteger(value) || value < 0 || value > 100)) {
+    throw new CatalogError("A percent discount must be a whole number between 0 and 100.");
+  }
+  if (!isPercent && (!Number.isInteger(value) || value < 0 || value > MAX_PRICE_CENTS)) {
+    throw new CatalogError("A fixed discount must be a non-negative amount in cents.");
+  }
+  return {
+    name: readName(body, "Discount"),
+    isPercent,
+    value,
+    isActive: readFlag(body, "isActive", true),
+  };
+}
+
+function readMinute(body: Record<string, unknown>, field: string) {
+  const value = body[field];
+  if (value === undefined || value === null) {
+    return null;
+  }
+  const minute = Number(value);
+  if (!Number.isInteger(minute) || minute < 0 || minute > MINUTES_PER_DAY) {
+    throw new CatalogError(`${field} must be minutes after midnight.`);
+  }
+  return minute;
+}
+
+function readScope(body: Record<string, unknown>) {
+  if (!Array.isArray(body.scope) || body.scope.length === 0) {
+    throw new CatalogError("Choose at least one product or category for the promotion.");
+  }
+  return body.scope.map((entry: unknown) => {
+    const scope = entry && typeof entry === "object" ? (entry as Record<string, unknown>) : {};
+    const productId = readId(scope, "productId");
+    const categoryId = readId(scope, "categoryId");
+    if ((productId === null) === (categoryId === null)) {
+      throw new CatalogError("Each promotion item must be either a product or a category.");
+    }
+    return { productId, categoryId, quantity: Math.max(1, readCount(scope, "quantity", 1, MAX_PROMOTION_QTY)) };
+  });
+}
+
+/**
+ * Only the settings for the chosen rule type are kept; the others are
+ * cleared so a promotion never carries values it does not use.
+ */
+function parsePromotion(body: Record<string, unknown>) {
+  if (!isPromotionType(body.type)) {
+    throw new CatalogError("Choose a combo, percent off or buy-X-get-Y rule.");
+  }
+  const type = body.type;
+  const days = Array.isArray(body.daysOfWeek) ? body.daysOfWeek.map(Number) : [];
+  if (days.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+    throw new CatalogError("daysOfWeek must list weekdays from 0 (Sunday) to 6.");
+  }
+  const startMinute = readMinute(body, "startMinute");
+  const endMinute = readMinute(body, "endMinute");
+  if ((startMinute === null) !== (endMinute === null)) {
+    throw new CatalogError("Give the promotion both a start and an end time, or neither.");
+  }
+  if (startMinute !== null && startMinute === endMinute) {
+    throw new CatalogError("The promotion must end at a different time than it starts.");
+  }
+
+  const percentOff = type === "CATEGORY_PERCENT" ? readCount(body, "percentOff", 0, 100) : null;
+  if (percentOff === 0) {
+    throw new CatalogError("percentOff must be between 1 and 100.");
+  }
+  const buyQty = type === "BUY_X_GET_Y" ? readCount(body, "buyQty", 0, MAX_PROMOTION_QTY) : null;
+  const getQty = type === "BUY_X_GET_Y" ? readCount(body, "getQty", 0, MAX_PROMOTION_QTY) : null;
+  if (buyQty === 0 || getQty === 0) {
+    throw new CatalogError("Buy and get quantities must be at least 1.");
+  }
+
+  return {
+    name: readName(body, "Promotion"),
+    type,
+    isActive: readFlag(body, "isActive", true),
+    priority: readCount(body, "priority", 0, 100),
+    daysOfWeek: Array.from(new Set(days)).sort((a, b) => a - b),
+    startMinute,
+    endMinute,
+    percentOff,
+    comboPriceCents: type === "COMBO_PRICE" ? readCents(body, "comboPriceCents") : null,
+    buyQty,
+    getQty,
+    scope: readScope(body),
+  };
+}
+
+/** Takeout and delivery rates are optional; without one the main rate applies. */
+function parseTaxProfile(body: Record<string, unknown>) {
+  const optionalRate = (field: string) =>
+    body[field] === null || body[field] === undefined ? null : readCount(body, field, 0, MAX_TAX_BASIS_POINTS);
+  return {
+    name: readName(body, "Tax profile"),
+    rateBasisPoints: readCount(body, "rateBasisPoints", 0, MAX_TAX_BASIS_POINTS),
+    takeoutBasisPoints: optionalRate("takeoutBasisPoints"),
+    deliveryBasisPoints: optionalRate("deliveryBasisPoints"),
+    isActive: readFlag(body, "isActive", true),
+  };
+}
+
+function parseTable(body: Record<string, unknown>) {
+  return {
+    name: readName(body, "Table"),
+    isActive: readFlag(body, "isActive", true),
+  };
+}
+
+/** Turns constraint failures into messages the editor can show. */
+async function withCatalogErrors<T>(work: Promise<T>, conflictMessage: string): Promise<T> {
+  try {
+    return await work;
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError) {
+      if (error.code === "P2002") {
+        throw new CatalogError(conflictMessage, 409);
+      }
+      if (error.code === "P2003") {
+        throw new CatalogError("It refers to a record that does not exist.");
+      }
+      if (error.code === "P2025") {
+        throw new CatalogError("That record no longer exists.", 404);
+      }
+    }
+    throw error;
+  }
+}
+
+/**
+ * Nothing is ever deleted: past orders reference catalog rows, so the editor
+ * retires them with `isActive: false` instead.
+ */
+export async function createCatalogEntry(entity: CatalogEntity, body: Record<string, unknown>) {
+  switch (entity) {
+    case "categories": {
+      const data = parseCategory(body);
+      const last = await prisma.category.aggregate({ _max: { sortOrder: true } });
+      return withCatalogErrors(
+        prisma.category.create({ data: { ...data, sortOrder: (last._max.sortOrder ?? 0) + 1 } }),
+        `A category named ${data.name} already exists.`,
+      );
+    }
+    case "products": {
+      const data = parseProduct(body);
+      return withCatalogErrors(prisma.product.create({ data }), `SKU ${data.sku} is already in use.`);
+    }
+    case "modifier-groups": {
+      const data = parseModifierGroup(body);
+      return withCatalogErrors(
+        prisma.modifierGroup.create({ data }),
+        `A modifier group named ${data.name} already exists.`,
+      );
+    }
+    case "modifiers": {
+      const data = await parseModifier(body);
+      return withCatalogErrors(prisma.modifier.create({ data }), "That modifier already exists.");
+    }
+    case "discounts": {
+      const data = parseDiscount(body);
+      return withCatalogErrors(
+        prisma.discount.create({ data }),
+        `A discount named ${data.name} already exists.`,
+      );
+    }
+    case "promotions": {
+      const { scope, ...data } = parsePromotion(body);
+      return withCatalogErrors(
+        prisma.promotion.create({ data: { ...data, scope: { create: scope } } }),
+        `A promotion named ${data.name} already exists.`,
+      );
+    }
+    case "tax-profiles": {
+      const data = parseTaxProfile(body);
+      return withCatalogErrors(
+        prisma.taxProfile.create({ data }),
+        `A tax profile named ${data.name} already exists.`,
+      );
+    }
+    case "tables": {
+      const data = parseTable(body);
+      return withCatalogErrors(prisma.table.create({ data }), `A table named ${data.name} already exists.`);
+    }
+  }
+}
+
+/** Replaces every editable field of one row; stock levels stay with the inventory ledger. */
+export async function updateCatalogEntry(
+  entity: CatalogEntity,
+  id: string,
+  body: Record<string, unknown>,
+) {
+  switch (entity) {
+    case "categories": {
+      const data = parseCategory(body);
+      return withCatalogErrors(
+        prisma.category.update({ where: { id }, data }),
+        `A category named ${data.name} already exists.`,
+      );
+    }
+    case "products": {
+      const data = parseProduct(body);
+      return withCatalogErrors(
+        prisma.product.update({ where: { id }, data }),
+        `SKU ${data.sku} is already in use.`,
+      );
+    }
+    case "modifier-groups": {
+      const data = parseModifierGroup(body);
+      // Modifiers keep a copy of their group's name; rename them with it.
+      return withCatalogErrors(
+        prisma.$transaction(async (tx) => {
+          const group = await tx.modifierGroup.update({ where: { id }, data });
+          await tx.modifier.updateMany({ where: { modifierGroupId: id }, data: { groupName: group.name } });
+          return group;
+        }),
+        `A modifier group named ${data.name} already exists.`,
+      );
+    }
+    case "modifiers": {
+      const data = await parseModifier(body);
+      return withCatalogErrors(prisma.modifier.update({ where: { id }, data }), "That modifier already exists.");
+    }
+    case "discounts": {
+      const data = parseDiscount(body);
+      return withCatalogErrors(
+        prisma.discount.update({ where: { id }, data }),
+        `A discount named ${data.name} already exists.`,
+      );
+    }
+    case "promotions": {
+      const { scope, ...data } = parsePromotion(body);
+      // Scope rows have no identity of their own; the saved list replaces them.
+      return withCatalogErrors(
+        prisma.promotion.update({
+          where: { id },
+          data: { ...data, scope: { deleteMany: {}, create: scope } },
+        }),
+        `A promotion named ${data.name} already exists.`,
+      );
+    }
+    case "tax-profiles": {
+      const data = parseTaxProfile(body);
+      return withCatalogErrors(
+        prisma.taxProfile.update({ where: { id }, data }),
+        `A tax profile named ${data.name} already exists.`,
+      );
+    }
+    case "tables": {
+      const data = parseTable(body);
+      return withCatalogErrors(
+        prisma.table.update({ where: { id }, data }),
+        `A table named ${data.name} already exists.`,
+      );
+    }
+  }
+}
+
+/** Stores the given category order as sortOrder 1..n. */
+export async function reorderCategories(categoryIds: string[]) {
+  if (new Set(categoryIds).size !== categoryIds.length) {
+    throw new CatalogError("Each category may appear only once.");
+  }
+  await prisma.$transaction(async (tx) => {
+    const known = await tx.category.count({ where: { id: { in: categoryIds } } });
+    if (known !== categoryIds.length) {
+      throw new CatalogError("Category order refers to an unknown category.");
+    }
+    for (const [index, id] of categoryIds.entries()) {
+      await tx.category.update({ where: { id }, data: { sortOrder: index + 1 } });
+    }
+  });
+}
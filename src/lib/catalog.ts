@@ -0,0 +1,269 @@
+import { createHash } from "crypto";
+import type { Prisma } from "@prisma/client";
+import type { CatalogModifierGroup } from "./modifiers";
+import type { PrepStation } from "./prep-stations";
+import { prisma } from "./prisma";
+import type { PromotionRule } from "./promotions";
+import { getTaxPercent, loadStoreSettings, loadTaxSetup, toStoreProfile } from "./store-config";
+import type { StoreProfile } from "./store-settings";
+import type { TaxProfileRates, TaxRounding } from "./tax";
+import type { CategoryPrepThresholds } from "./ticket-timing";
+
+export type { CatalogModifier, CatalogModifierGroup } from "./modifiers";
+
+export type CatalogProduct = {
+  id: string;
+  name: string;
+  sku: string;
+  description: string | null;
+  imageUrl: string | null;
+  priceCents: number;
+  /** Units on hand, or null when the product does not track stock. */
+  stockQty: number | null;
+  reorderLevel: number;
+  /** The product's own tax profile or its category's; null means the store default. */
+  taxProfileId: string | null;
+  /** Which station's kitchen ticket the product goes on. */
+  prepStation: PrepStation;
+  modifierGroups: CatalogModifierGroup[];
+};
+
+export type CatalogCategory = CategoryPrepThresholds & {
+  id: string;
+  name: string;
+  sortOrder: number;
+  products: CatalogProduct[];
+};
+
+export type CatalogPayload = {
+  categories: CatalogCategory[];
+  /** Active promotions; the waiter screen evaluates them against the store's clock. */
+  promotions: PromotionRule[];
+  /** For products without a tax profile when the store has no default profile either. */
+  taxPercent: number;
+  taxProfiles: TaxProfileRates[];
+  /** The store's default profile when it is active; one of taxProfiles. */
+  defaultTaxProfileId: string | null;
+  taxInclusive: boolean;
+  taxRounding: TaxRounding;
+  store: StoreProfile;
+  updatedAt: string | null;
+};
+
+type ModifierRow = {
+  id: string;
+  name: string;
+  priceCents: number;
+  groupName: string;
+  minSelect: number;
+  maxSelect: number;
+  isRequired: boolean;
+  modifierGroup: {
+    id: string;
+    name: string;
+    isRequired: boolean;
+    minSelect: number;
+    maxSelect: number;
+    isActive: boolean;
+  } | null;
+};
+
+// Modifiers either belong to a shared ModifierGroup or carry their own
+// group rules keyed by groupName; both shapes are folded into one list.
+export function groupModifiers(rows: ModifierRow[]): CatalogModifierGroup[] {
+  const groups = new Map<string, CatalogModifierGroup>();
+
+  for (const row of rows) {
+    const shared = row.modifierGroup;
+    if (shared && !shared.isActive) {
+      continue;
+    }
+
+    const key = shared ? shared.id : `group:${row.groupName}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = shared
+        ? {
+            id: shared.id,
+            name: shared.name,
+            isRequired: shared.isRequired,
+            minSelect: shared.minSelect,
+            maxSelect: shared.maxSelect,
+            modifiers: [],
+          }
+        : {
+            id: key,
+            name: row.groupName,
+            isRequired: row.isRequired,
+            minSelect: row.minSelect,
+            maxSelect: row.maxSelect,
+            modifiers: [],
+          };
+      groups.set(key, group);
+    }
+    group.modifiers.push({ id: row.id, name: row.name, priceCents: row.priceCents });
+  }
+
+  return Array.from(groups.values());
+}
+
+type TaxProfileRow = TaxProfileRates & { isActive: boolean };
+
+function toTaxRates(profile: TaxProfileRow): TaxProfileRates {
+  return {
+    id: profile.id,
+    name: profile.name,
+    rateBasisPoints: profile.rateBasisPoints,
+    takeoutBasisPoints: profile.takeoutBasisPoints,
+    deliveryBasisPoints: profile.deliveryBasisPoints,
+  };
+}
+
+/** A product's own active profile wins over its category's; retired profiles are skipped. */
+export function effectiveTaxProfile(product: {
+  taxProfile: TaxProfileRow | null;
+  category: { taxProfile: TaxProfileRow | null } | null;
+}): TaxProfileRates | null {
+  const own = product.taxProfile?.isActive ? product.taxProfile : null;
+  const inherited = product.category?.taxProfile?.isActive ? product.category.taxProfile : null;
+  const profile = own ?? inherited;
+  return profile ? toTaxRates(profile) : null;
+}
+
+async function latestStamp(
+  query: Promise<{ _max: { updatedAt: Date | null }; _count: { _all: number } }>,
+) {
+  const result = await query;
+  return `${result._count._all}:${result._max.updatedAt?.getTime() ?? 0}`;
+}
+
+/**
+ * Cheap fingerprint of everything that feeds the catalog, so callers can
+ * answer conditional requests without loading the full menu.
+ */
+export async function getCatalogVersion() {
+  const stamps = await Promise.all([
+    latestStamp(prisma.category.aggregate({ _max: { updatedAt: true }, _count: { _all: true } })),
+    latestStamp(prisma.product.aggregate({ _max: { updatedAt: true }, _count: { _all: true } })),
+    latestStamp(prisma.modifier.aggregate({ _max: { updatedAt: true }, _count: { _all: true } })),
+    latestStamp(
+      prisma.modifierGroup.aggregate({ _max: { updatedAt: true }, _count: { _all: true } }),
+    ),
+    latestStamp(prisma.promotion.aggregate({ _max: { updatedAt: true }, _count: { _all: true } })),
+    latestStamp(prisma.taxProfile.aggregate({ _max: { updatedAt: true }, _count: { _all: true } })),
+  ]);
+  // Settings may still come from the environment, so hash their values rather than a row stamp.
+  const settings = await loadStoreSettings();
+  const hash = createHash("sha1")
+    .update([...stamps, getTaxPercent(), JSON.stringify(settings)].join("|"))
+    .digest("hex")
+    .slice(0, 20);
+
+  const lastModified = stamps.reduce((latest, stamp) => {
+    const time = Number(stamp.split(":")[1]);
+    return Math.max(latest, time);
+  }, 0);
+
+  return {
+    etag: `W/"catalog-${hash}"`,
+    lastModified: lastModified > 0 ? new Date(lastModified) : null,
+  };
+}
+
+/** Active promotions in the shape the pricing engine takes; retired ones are skipped. */
+export async function loadPromotionRules(
+  db: Prisma.TransactionClient = prisma,
+): Promise<PromotionRule[]> {
+  const promotions = await db.promotion.findMany({
+    where: { isActive: true },
+    orderBy: [{ priority: "desc" }, { name: "asc" }],
+    include: { scope: true },
+  });
+  return promotions.map((promotion) => ({
+    id: promotion.id,
+    name: promotion.name,
+    type: promotion.type,
+    priority: promotion.priority,
+    daysOfWeek: promotion.daysOfWeek,
+    startMinute: promotion.startMinute,
+    endMinute: promotion.endMinute,
+    percentOff: promotion.percentOff,
+    comboPriceCents: promotion.comboPriceCents,
+    buyQty: promotion.buyQty,
+    getQty: promotion.getQty,
+    scope: promotion.scope.map((entry) => ({
+      productId: entry.productId,
+      categoryId: entry.categoryId,
+      quantity: entry.quantity,
+    })),
+  }));
+}
+
+export async function loadCatalog(): Promise<CatalogPayload> {
+  const categories = await prisma.category.findMany({
+    where: { isActive: true },
+    orderBy: [{ sortOrder: "asc" }, { name: "asc" }],
+    include: {
+      taxProfile: true,
+      products: {
+        where: { isActive: true },
+        orderBy: { name: "asc" },
+        include: {
+          taxProfile: true,
+          modifiers: {
+            where: { isActive: true },
+            orderBy: [{ groupName: "asc" }, { priceCents: "asc" }, { name: "asc" }],
+            include: { modifierGroup: true },
+          },
+        },
+      },
+    },
+  });
+
+  let updatedAt = 0;
+  const payload = categories.map((category) => {
+    updatedAt = Math.max(updatedAt, category.updatedAt.getTime());
+    return {
+      id: category.id,
+      name: category.name,
+      sortOrder: category.sortOrder,
+      prepWarnMinutes: category.prepWarnMinutes,
+      prepLateMinutes: category.prepLateMinutes,
+      products: category.products.map((product) => {
+        updatedAt = Math.max(updatedAt, product.updatedAt.getTime());
+        return {
+          id: product.id,
+          name: product.name,
+          sku: product.sku ?? "",
+          description: product.description,
+          imageUrl: product.imageUrl,
+          priceCents: product.priceCents,
+          stockQty: product.trackStock ? product.stockQty : null,
+          reorderLevel: product.reorderLevel,
+          taxProfileId: effectiveTaxProfile({ taxProfile: product.taxProfile, category })?.id ?? null,
+          prepStation: product.prepStation,
+          modifierGroups: groupModifiers(product.modifiers),
+        };
+      }),
+    };
+  });
+
+  const [promotions, taxProfiles, settings, taxSetup] = await Promise.all([
+    loadPromotionRules(),
+    prisma.taxProfile.findMany({ where: { isActive: true }, orderBy: { name: "asc" } }),
+    loadStoreSettings(),
+    loadTaxSetup(),
+  ]);
+
+  return {
+    categories: payload,
+    promotions,
+    taxPercent: getTaxPercent(),
+    taxProfiles: taxProfiles.map(toTaxRates),
+    defaultTaxProfileId: taxSetup.defaultProfile?.id ?? null,
+    taxInclusive: taxSetup.settings.inclusive,
+    taxRounding: taxSetup.settings.rounding,
+    store: toStoreProfile(settings),
+    updatedAt: updatedAt > 0 ? new Date(updatedAt).toISOString() : null,
+  };
+}
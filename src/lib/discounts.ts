@@ -0,0 +1,118 @@
+import { OrderStatus } from "@prisma/client";
+import { prisma } from "./prisma";
+
+export type DiscountOption = {
+  id: string;
+  name: string;
+  isPercent: boolean;
+  /** Percent when isPercent, otherwise cents. */
+  value: number;
+};
+
+export type WaiterDiscountTotals = {
+  waiterId: string | null;
+  waiterName: string;
+  discountedOrders: number;
+  discountCents: number;
+  /** Custom amounts a manager approved, as opposed to presets. */
+  overrideOrders: number;
+  overrideCents: number;
+  byDiscount: Array<{ name: string; orders: number; discountCents: number }>;
+};
+
+/** Custom discount amounts a manager approved, per approver. */
+export type ApproverDiscountTotals = {
+  approverId: string | null;
+  approverName: string;
+  approvedOrders: number;
+  discountCents: number;
+};
+
+export type DiscountReport = {
+  /** Per seller who applied the discount. */
+  waiters: WaiterDiscountTotals[];
+  approvers: ApproverDiscountTotals[];
+};
+
+export async function listActiveDiscounts(): Promise<DiscountOption[]> {
+  return prisma.discount.findMany({
+    where: { isActive: true },
+    orderBy: { name: "asc" },
+    select: { id: true, name: true, isPercent: true, value: true },
+  });
+}
+
+const CUSTOM_LABEL = "Custom (manager approved)";
+
+/** Discounts given on settled orders created in [from, to): who gave them and who approved them. */
+export async function discountReport(from: Date, to: Date): Promise<DiscountReport> {
+  const orders = await prisma.order.findMany({
+    where: {
+      createdAt: { gte: from, lt: to },
+      status: { in: [OrderStatus.PAID, OrderStatus.REFUNDED] },
+      discountCents: { gt: 0 },
+    },
+    select: {
+      cashierId: true,
+      discountAppliedById: true,
+      discountApprovedById: true,
+      discountCents: true,
+      cashier: { select: { fullName: true } },
+      discountAppliedBy: { select: { fullName: true } },
+      discountApprovedBy: { select: { fullName: true } },
+      discount: { select: { name: true } },
+    },
+  });
+
+  const waiters = new Map<string, WaiterDiscountTotals>();
+  const approvers = new Map<string, ApproverDiscountTotals>();
+  for (const order of orders) {
+    // Orders settled before the applying seller was stored fall back to the order's seller.
+    const waiterId = order.discountAppliedById ?? order.cashierId;
+    const key = waiterId ?? "unknown";
+    const entry = waiters.get(key) ?? {
+      waiterId,
+      waiterName: (order.discountAppliedBy ?? order.cashier)?.fullName ?? "Unknown Waiter",
+      discountedOrders: 0,
+      discountCents: 0,
+      overrideOrders: 0,
+      overrideCents: 0,
+      byDiscount: [],
+    };
+    entry.discountedOrders += 1;
+    entry.discountCents += order.discountCents;
+    if (!order.discount) {
+      entry.overrideOrders += 1;
+      entry.overrideCents += order.discountCents;
+    }
+
+    const name = order.discount?.name ?? CUSTOM_LABEL;
+    const line = entry.byDiscount.find((row) => row.name === name);
+    if (line) {
+      line.orders += 1;
+      line.discountCents += order.discountCents;
+    } else {
+      entry.byDiscount.push({ name, orders: 1, discountCents: order.discountCents });
+    }
+    waiters.set(key, entry);
+
+    // Presets are approved by whoever applies them; only custom amounts have a manager behind them.
+    if (!order.discount) {
+      const approverKey = order.discountApprovedById ?? "unknown";
+      const approval = approvers.get(approverKey) ?? {
+        approverId: order.discountApprovedById,
+        approverName: order.discountApprovedBy?.fullName ?? "Unknown Manager",
+        approvedOrders: 0,
+        discountCents: 0,
+      };
+      approval.approvedOrders += 1;
+      approval.discountCents += order.discountCents;
+      approvers.set(approverKey, approval);
+    }
+  }
+
+  return {
+    waiters: Array.from(waiters.values()).sort((a, b) => b.discountCents - a.discountCents),
+    approvers: Array.from(approvers.values()).sort((a, b) => b.discountCents - a.discountCents),
+  };
+}
@@ -0,0 +1,300 @@
+import { IngredientUnit, InventoryMovementType, Prisma } from "@prisma/client";
+import { InventoryError, manualDelta, type ManualMovementType, type MovementContext } from "./inventory";
+import { prisma } from "./prisma";
+
+type Tx = Prisma.TransactionClient;
+
+export type IngredientLevel = {
+  id: string;
+  name: string;
+  unit: IngredientUnit;
+  stockQty: number;
+  ledgerQty: number;
+  isActive: boolean;
+};
+
+export type RecipeLine = {
+  ingredientId: string;
+  quantity: number;
+};
+
+export type RecipeBook = {
+  products: Array<{
+    id: string;
+    name: string;
+    items: RecipeLine[];
+    modifiers: Array<{ id: string; name: string; items: RecipeLine[] }>;
+  }>;
+};
+
+export type IngredientUsage = {
+  ingredientId: string;
+  name: string;
+  unit: IngredientUnit;
+  theoreticalUsage: number;
+  wastage: number;
+  deliveries: number;
+  /** Stock that disappeared without a sale or recorded wastage (counts and adjustments). */
+  unexplainedLoss: number;
+  actualUsage: number;
+  variancePercent: number | null;
+};
+
+type SoldLine = {
+  productId: string;
+  modifierIds: string[];
+  quantity: number;
+};
+
+/**
+ * Takes the recipe quantities for sold lines out of ingredient stock. Each
+ * line uses its product recipe adjusted by its modifiers' recipes; a swap
+ * that removes more than the product uses bottoms out at zero. Ingredient
+ * stock may go negative: sales are never blocked on theoretical stock.
+ */
+export async function depleteIngredients(tx: Tx, lines: SoldLine[], context: MovementContext) {
+  const productIds = Array.from(new Set(lines.map((line) => line.productId)));
+  const modifierIds = Array.from(new Set(lines.flatMap((line) => line.modifierIds)));
+  const [productItems, modifierItems] = await Promise.all([
+    tx.productRecipeItem.findMany({ where: { productId: { in: productIds } } }),
+    modifierIds.length > 0
+      ? tx.modifierRecipeItem.findMany({ where: { modifierId: { in: modifierIds } } })
+      : Promise.resolve([]),
+  ]);
+  if (productItems.length === 0 && modifierItems.length === 0) {
+    return;
+  }
+
+  const usage = new Map<string, number>();
+  for (const line of lines) {
+    const perUnit = new Map<string, number>();
+    const add = (ingredientId: string, quantity: number) =>
+      perUnit.set(ingredientId, (perUnit.get(ingredientId) ?? 0) + quantity);
+
+    productItems
+      .filter((item) => item.productId === line.productId)
+      .forEach((item) => add(item.ingredientId, item.quantity));
+    modifierItems
+      .filter((item) => line.modifierIds.includes(item.modifierId))
+      .forEach((item) => add(item.ingredientId, item.quantity));
+
+    for (const [ingredientId, quantity] of perUnit) {
+      if (quantity > 0) {
+        usage.set(ingredientId, (usage.get(ingredientId) ?? 0) + quantity * line.quantity);
+      }
+    }
+  }
+
+  for (const [ingredientId, quantity] of usage) {
+    const updated = await tx.ingredient.update({
+      where: { id: ingredientId },
+      data: { stockQty: { decrement: quantity } },
+    });
+    await recordIngredientMovement(tx, ingredientId, -quantity, updated.stockQty, context);
+  }
+}
+
+function recordIngredientMovement(
+  tx: Tx,
+  ingredientId: string,
+  quantity: number,
+  stockAfter: number,
+  context: MovementContext,
+) {
+  return tx.ingredientMovement.create({
+    data: {
+      ingredientId,
+      type: context.type,
+      quantity,
+      stockAfter,
+      reason: context.reason ?? null,
+      userId: context.userId,
+      orderId: context.orderId ?? null,
+    },
+  });
+}
+
+export function isIngredientUnit(value: unknown): value is IngredientUnit {
+  return Object.values(IngredientUnit).some((unit) => unit === value);
+}
+
+export async function listIngredients(): Promise<IngredientLevel[]> {
+  const [ingredients, sums] = await Promise.all([
+    prisma.ingredient.findMany({ orderBy: { name: "asc" } }),
+    prisma.ingredientMovement.groupBy({ by: ["ingredientId"], _sum: { quantity: true } }),
+  ]);
+  const ledgerById = new Map(sums.map((entry) => [entry.ingredientId, entry._sum.quantity ?? 0]));
+
+  return ingredients.map((ingredient) => ({
+    id: ingredient.id,
+    name: ingredient.name,
+    unit: ingredient.unit,
+    stockQty: ingredient.stockQty,
+    ledgerQty: ledgerById.get(ingredient.id) ?? 0,
+    isActive: ingredient.isActive,
+  }));
+}
+
+export async function createIngredient(input: { name: string; unit: IngredientUnit }) {
+  try {
+    return await prisma.ingredient.create({ data: input });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      throw new InventoryError(`An ingredient named ${input.name} already exists.`, 409);
+    }
+    throw error;
+  }
+}
+
+/** Manual ingredient movement; counts re-baseline against the ledger like products do. */
+export async function recordManualIngredientMovement(input: {
+  ingredientId: string;
+  userId: string;
+  type: ManualMovementType;
+  quantity: number;
+  reason: string;
+}) {
+  return prisma.$transaction(async (tx) => {
+    const ingredient = await tx.ingredient.findUnique({ where: { id: input.ingredientId } });
+    if (!ingredient) {
+      throw new InventoryError("Ingredient not found.", 404);
+    }
+
+    const context = { type: input.type, userId: input.userId, reason: input.reason };
+    if (input.type === InventoryMovementType.COUNT_CORRECTION) {
+      const ledger = await tx.ingredientMovement.aggregate({
+        where: { ingredientId: ingredient.id },
+        _sum: { quantity: true },
+      });
+      const delta = input.quantity - (ledger._sum.quantity ?? 0);
+      await tx.ingredient.update({ where: { id: ingredient.id }, data: { stockQty: input.quantity } });
+      await recordIngredientMovement(tx, ingredient.id, delta, input.quantity, context);
+      return { ...ingredient, stockQty: input.quantity };
+    }
+
+    const delta = manualDelta(input.type, input.quantity);
+    if (delta === 0) {
+      throw new InventoryError("Quantity must not be zero.");
+    }
+    const updated = await tx.ingredient.update({
+      where: { id: ingredient.id },
+      data: { stockQty: { increment: delta } },
+    });
+    await recordIngredientMovement(tx, ingredient.id, delta, updated.stockQty, context);
+    return updated;
+  });
+}
+
+export async function loadRecipeBook(): Promise<RecipeBook> {
+  const products = await prisma.product.findMany({
+    where: { isActive: true },
+    orderBy: { name: "asc" },
+    include: {
+      recipeItems: true,
+      modifiers: {
+        where: { isActive: true },
+        orderBy: [{ groupName: "asc" }, { name: "asc" }],
+        include: { recipeItems: true },
+      },
+    },
+  });
+
+  const toLines = (items: RecipeLine[]) =>
+    items.map((item) => ({ ingredientId: item.ingredientId, quantity: item.quantity }));
+
+  return {
+    products: products.map((product) => ({
+      id: product.id,
+      name: product.name,
+      items: toLines(product.recipeItems),
+      modifiers: product.modifiers.map((modifier) => ({
+        id: modifier.id,
+        name: modifier.name,
+        items: toLines(modifier.recipeItems),
+      })),
+    })),
+  };
+}
+
+/**
+ * Replaces a product or modifier recipe. Product recipes only add
+ * ingredients; modifier recipes may also subtract them.
+ */
+export async function saveRecipe(target: "product" | "modifier", id: string, lines: RecipeLine[]) {
+  const merged = new Map<string, number>();
+  for (const line of lines) {
+    merged.set(line.ingredientId, (merged.get(line.ingredientId) ?? 0) + line.quantity);
+  }
+  const items = Array.from(merged, ([ingredientId, quantity]) => ({ ingredientId, quantity })).filter(
+    (item) => item.quantity !== 0,
+  );
+  if (target === "product" && items.some((item) => item.quantity < 0)) {
+    throw new InventoryError("Product recipes cannot use negative quantities.");
+  }
+
+  await prisma.$transaction(async (tx) => {
+    const known = await tx.ingredient.count({
+      where: { id: { in: items.map((item) => item.ingredientId) } },
+    });
+    if (known !== items.length) {
+      throw new InventoryError("Recipe refers to an unknown ingredient.");
+    }
+
+    if (target === "product") {
+      if (!(await tx.product.findUnique({ where: { id }, select: { id: true } }))) {
+        throw new InventoryError("Product not found.", 404);
+      }
+      await tx.productRecipeItem.deleteMany({ where: { productId: id } });
+      await tx.productRecipeItem.createMany({ data: items.map((item) => ({ ...item, productId: id })) });
+    } else {
+      if (!(await tx.modifier.findUnique({ where: { id }, select: { id: true } }))) {
+        throw new InventoryError("Modifier not found.", 404);
+      }
+      await tx.modifierRecipeItem.deleteMany({ where: { modifierId: id } });
+      await tx.modifierRecipeItem.createMany({ data: items.map((item) => ({ ...item, modifierId: id })) });
+    }
+  });
+}
+
+/**
+ * Theoretical usage is what recipes say sales consumed. Actual usage adds
+ * recorded wastage and anything counts or adjustments found missing, so the
+ * variance between the two is the waste nobody wrote down.
+ */
+export async function ingredientUsageReport(from: Date, to: Date): Promise<IngredientUsage[]> {
+  const [ingredients, sums] = await Promise.all([
+    prisma.ingredient.findMany({ orderBy: { name: "asc" } }),
+    prisma.ingredientMovement.groupBy({
+      by: ["ingredientId", "type"],
+      where: { createdAt: { gte: from, lt: to } },
+      _sum: { quantity: true },
+    }),
+  ]);
+
+  return ingredients.map((ingredient) => {
+    const total = (type: InventoryMovementType) =>
+      sums.find((entry) => entry.ingredientId === ingredient.id && entry.type === type)?._sum.quantity ?? 0;
+
+    const theoreticalUsage = -total(InventoryMovementType.SALE);
+    const wastage = -total(InventoryMovementType.WASTAGE);
+    const unexplainedLoss = -(
+      total(InventoryMovementType.COUNT_CORRECTION) + total(InventoryMovementType.ADJUSTMENT)
+    );
+    const actualUsage = theoreticalUsage + wastage + unexplainedLoss;
+
+    return {
+      ingredientId: ingredient.id,
+      name: ingredient.name,
+      unit: ingredient.unit,
+      theoreticalUsage,
+      wastage,
+      deliveries: total(InventoryMovementType.DELIVERY),
+      unexplainedLoss,
+      actualUsage,
+      variancePercent:
+        theoreticalUsage > 0
+          ? Math.round(((actualUsage - theoreticalUsage) / theoreticalUsage) * 1000) / 10
+          : null,
+    };
+  });
+}
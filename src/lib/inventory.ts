@@ -0,0 +1,222 @@
+import { InventoryMovementType, type Prisma } from "@prisma/client";
+import { OrderError } from "./order-error";
+import { prisma } from "./prisma";
+
+type Tx = Prisma.TransactionClient;
+
+export class InventoryError extends OrderError {
+  constructor(message: string, status = 400) {
+    super(message, status);
+    this.name = "InventoryError";
+  }
+}
+
+/** Movements staff can record by hand; the rest come from orders. */
+export const MANUAL_MOVEMENT_TYPES = [
+  InventoryMovementType.DELIVERY,
+  InventoryMovementType.WASTAGE,
+  InventoryMovementType.ADJUSTMENT,
+  InventoryMovementType.COUNT_CORRECTION,
+] as const;
+
+export type ManualMovementType = (typeof MANUAL_MOVEMENT_TYPES)[number];
+
+const MAX_MOVEMENT_QUANTITY = 1000000;
+
+/** Reads `{ type, quantity, reason }` for a manual product or ingredient movement. */
+export function parseManualMovement(body: Record<string, unknown>) {
+  const type = MANUAL_MOVEMENT_TYPES.find((value) => value === body.type);
+  if (!type) {
+    throw new InventoryError(`type must be one of ${MANUAL_MOVEMENT_TYPES.join(", ")}.`);
+  }
+  const quantity = Number(body.quantity);
+  if (!Number.isInteger(quantity) || Math.abs(quantity) > MAX_MOVEMENT_QUANTITY) {
+    throw new InventoryError("Quantity must be a whole number.");
+  }
+  if (type === InventoryMovementType.COUNT_CORRECTION && quantity < 0) {
+    throw new InventoryError("A counted quantity cannot be negative.");
+  }
+  const reason = typeof body.reason === "string" ? body.reason.trim() : "";
+  if (!reason) {
+    throw new InventoryError("Every stock movement needs a reason.");
+  }
+  return { type, quantity, reason };
+}
+
+/** Signed change for a non-count manual movement. */
+export function manualDelta(type: ManualMovementType, quantity: number) {
+  if (type === InventoryMovementType.DELIVERY) {
+    return Math.abs(quantity);
+  }
+  if (type === InventoryMovementType.WASTAGE) {
+    return -Math.abs(quantity);
+  }
+  return quantity;
+}
+
+export type MovementContext = {
+  type: InventoryMovementType;
+  userId: string | null;
+  orderId?: string | null;
+  reason?: string | null;
+};
+
+export type StockLevel = {
+  productId: string;
+  name: string;
+  sku: string | null;
+  stockQty: number;
+  ledgerQty: number;
+  reorderLevel: number;
+  lastMovementAt: string | null;
+};
+
+export type MovementEntry = {
+  id: string;
+  type: InventoryMovementType;
+  quantity: number;
+  stockAfter: number;
+  reason: string | null;
+  userName: string | null;
+  orderNumber: number | null;
+  createdAt: string;
+};
+
+/**
+ * Appends one ledger row. Callers have already changed Product.stockQty in
+ * the same transaction and pass the resulting level as `stockAfter`.
+ */
+export function recordMovement(
+  tx: Tx,
+  productId: string,
+  quantity: number,
+  stockAfter: number,
+  context: MovementContext,
+) {
+  return tx.inventoryMovement.create({
+    data: {
+      productId,
+      type: context.type,
+      quantity,
+      stockAfter,
+      reason: context.reason ?? null,
+      userId: context.userId,
+      orderId: context.orderId ?? null,
+    },
+  });
+}
+
+async function ledgerQty(tx: Tx, productId: string) {
+  const result = await tx.inventoryMovement.aggregate({
+    where: { productId },
+    _sum: { quantity: true },
+  });
+  return result._sum.quantity ?? 0;
+}
+
+/**
+ * Records a manual movement for a stock-tracked product. Deliveries add,
+ * wastage removes, adjustments apply a signed change, and counts set the
+ * level outright: the correction is measured against the ledger, so a count
+ * also clears any drift between the ledger and the cached stockQty.
+ */
+export async function recordManualMovement(input: {
+  productId: string;
+  userId: string;
+  type: ManualMovementType;
+  quantity: number;
+  reason: string;
+}): Promise<StockLevel> {
+  return prisma.$transaction(async (tx) => {
+    const product = await tx.product.findUnique({ where: { id: input.productId } });
+    if (!product) {
+      throw new InventoryError("Product not found.", 404);
+    }
+    if (!product.trackStock) {
+      throw new InventoryError(`${product.name} does not track stock.`);
+    }
+
+    const context = { type: input.type, userId: input.userId, reason: input.reason };
+    if (input.type === InventoryMovementType.COUNT_CORRECTION) {
+      const delta = input.quantity - (await ledgerQty(tx, product.id));
+      await tx.product.update({ where: { id: product.id }, data: { stockQty: input.quantity } });
+      await recordMovement(tx, product.id, delta, input.quantity, context);
+    } else {
+      const delta = manualDelta(input.type, input.quantity);
+      if (delta === 0) {
+        throw new InventoryError("Quantity must not be zero.");
+      }
+      // Re-checked in the write, as deductStock does, so a sale landing in
+      // between cannot take the shelf below zero.
+      const updated = await tx.product.updateMany({
+        where: { id: product.id, stockQty: { gte: Math.max(0, -delta) } },
+        data: { stockQty: { increment: delta } },
+      });
+      const after = await tx.product.findUnique({ where: { id: product.id }, select: { stockQty: true } });
+      const stockQty = after?.stockQty ?? 0;
+      if (updated.count === 0) {
+        throw new InventoryError(`Only ${stockQty} ${product.name} in stock.`, 409);
+      }
+      await recordMovement(tx, product.id, delta, stockQty, context);
+    }
+
+    const levels = await loadStockLevels(tx, [product.id]);
+    return levels[0];
+  });
+}
+
+async function loadStockLevels(db: Tx | typeof prisma, productIds?: string[]): Promise<StockLevel[]> {
+  const products = await db.product.findMany({
+    where: productIds ? { id: { in: productIds } } : { trackStock: true },
+    orderBy: { name: "asc" },
+    select: { id: true, name: true, sku: true, stockQty: true, reorderLevel: true },
+  });
+  const sums = await db.inventoryMovement.groupBy({
+    by: ["productId"],
+    where: { productId: { in: products.map((product) => product.id) } },
+    _sum: { quantity: true },
+    _max: { createdAt: true },
+  });
+  const sumsByProduct = new Map(sums.map((entry) => [entry.productId, entry]));
+
+  return products.map((product) => {
+    const ledger = sumsByProduct.get(product.id);
+    return {
+      productId: product.id,
+      name: product.name,
+      sku: product.sku,
+      stockQty: product.stockQty,
+      ledgerQty: ledger?._sum.quantity ?? 0,
+      reorderLevel: product.reorderLevel,
+      lastMovementAt: ledger?._max.createdAt?.toISOString() ?? null,
+    };
+  });
+}
+
+/** Every stock-tracked product with its cached level and its ledger total. */
+export function listStockLevels() {
+  return loadStockLevels(prisma);
+}
+
+export async function listMovements(productId: string, limit = 100): Promise<MovementEntry[]> {
+  const movements = await prisma.inventoryMovement.findMany({
+    where: { productId },
+    orderBy: { createdAt: "desc" },
+    take: limit,
+    include: {
+      user: { select: { fullName: true } },
+      order: { select: { orderNumber: true } },
+    },
+  });
+
+  return movements.map((movement) => ({
+    id: movement.id,
+    type: movement.type,
+    quantity: movement.quantity,
+    stockAfter: movement.stockAfter,
+    reason: movement.reason,
+    userName: movement.user?.fullName ?? null,
+    orderNumber: movement.order?.orderNumber ?? null,
+    createdAt: movement.createdAt.toISOString(),
+  }));
+}
@@ -1,25 +1,83 @@
+import type { OrderTypeCode } from "./order-types";
+import { PICKUP_DISPLAY_ROLE, type PickupBoard } from "./pickup";
+import type { SocketErrorPayload } from "./socket-protocol";
+import { DEFAULT_PREP_STATION, PREP_STATIONS, type PrepStation } from "./prep-stations";
+import type { StaffRole } from "./roles";
+
 export type KitchenTicketStatus = "new" | "in_progress" | "done";
 
 export type KitchenTicketItem = {
   id: string;
   name: string;
   quantity: number;
+  modifiers?: string[];
+  /** The product's prep station; sellers set it so the server can split the ticket. */
+  station?: PrepStation;
+  /** Bumped by the station on its own; the ticket is done once every item is. */
+  done?: boolean;
+  /** When the item was bumped, stamped by the socket server. */
+  doneAt?: string;
+  productId?: string;
+  /** Picks the board's amber and red thresholds; see src/lib/ticket-timing.ts. */
+  categoryId?: string | null;
 };
 
 export type KitchenTicket = {
   id: string;
   receiptNo: number;
+  /** Tabs fire in rounds; absent or 1 for a first (or only) round. */
+  round?: number;
   createdAt: string;
   note: string | null;
+  orderType: OrderTypeCode;
+  tableName: string | null;
   status: KitchenTicketStatus;
+  /**
+   * Set on the tickets the server splits a NEW_ORDER into, one per station.
+   * Tickets journaled before stations existed have none and belong to the
+   * kitchen.
+   */
+  station?: PrepStation;
+  /** Stamped by the socket server the first time the ticket moves to in progress. */
+  startedAt?: string;
+  /** Stamped by the socket server when the ticket is done. */
+  completedAt?: string;
+  /** Staff id of the seller who sent the order, stamped by the socket server for ORDER_READY. */
+  sentBy?: string;
   items: KitchenTicketItem[];
 };
 
+/** Sent once every station ticket of an order's round is done. */
+export type OrderReadyNotice = {
+  receiptNo: number;
+  round: number;
+  orderType: OrderTypeCode;
+  tableName: string | null;
+  readyAt: string;
+};
+
+/**
+ * A line in the live sales feed. Sellers send one after an order is paid or
+ * refunded, but the server only reads its `receiptNo` and rebuilds the
+ * records from the order's payments (see src/lib/live-sales.ts).
+ */
 export type SaleRecord = {
   id: string;
   receiptNo: number;
+  /** Refunds are recorded alongside sales with a negative total. */
+  kind?: "sale" | "refund";
+  waiterId?: string;
   waiterName: string;
-  total: number;
+  /** Integer minor units, so daily totals add up without float drift. */
+  totalCents: number;
+  createdAt: string;
+};
+
+export type LowStockRecord = {
+  productId: string;
+  name: string;
+  stockQty: number;
+  reorderLevel: number;
   createdAt: string;
 };
 
@@ -32,25 +90,242 @@ export type KitchenSocketMessage =
       type: "ORDER_SNAPSHOT";
       payload: KitchenTicket[];
     }
+  | {
+      /** Tickets finished this business day, newest first; sent on connect so boards can recall them. */
+      type: "COMPLETED_SNAPSHOT";
+      payload: KitchenTicket[];
+    }
   | {
       type: "UPDATE_ORDER_STATUS";
       payload: {
         id: string;
         status: KitchenTicketStatus;
+        /** When the server applied the change; cooks leave it out. */
+        at?: string;
+      };
+    }
+  | {
+      /** One item on a station ticket was finished, or un-bumped. */
+      type: "BUMP_ITEM";
+      payload: {
+        ticketId: string;
+        itemId: string;
+        done: boolean;
+        /** When the server applied the bump; cooks leave it out. */
+        at?: string;
+      };
+    }
+  | {
+      /** Puts a finished ticket back in the queue; the server relays it with the restored ticket. */
+      type: "RECALL_ORDER";
+      payload: {
+        id: string;
+        ticket?: KitchenTicket;
+      };
+    }
+  | {
+      /**
+       * Only the socket server sends this, when the last station ticket of a
+       * round is done: to the kitchen and managers, and among sellers only to
+       * the one who sent the order.
+       */
+      type: "ORDER_READY";
+      payload: OrderReadyNotice;
+    }
+  | {
+      /** Order numbers for the pickup display, resent whenever they change. */
+      type: "PICKUP_BOARD";
+      payload: PickupBoard;
+    }
+  | {
+      type: "ORDER_VOIDED";
+      payload: {
+        receiptNo: number;
       };
     }
   | {
       type: "NEW_SALE";
       payload: SaleRecord;
     }
+  | {
+      type: "NEW_REFUND";
+      payload: SaleRecord;
+    }
+  | {
+      type: "LOW_STOCK";
+      payload: LowStockRecord;
+    }
+  | {
+      /** The admin catalog editor saved a change; tablets refetch the menu. */
+      type: "CATALOG_CHANGED";
+      payload: {
+        updatedAt: string;
+      };
+    }
+  | {
+      /** Store settings were saved; screens refetch them and the server re-reads its business day. */
+      type: "STORE_SETTINGS_CHANGED";
+      payload: {
+        updatedAt: string;
+      };
+    }
   | {
       type: "SALES_SNAPSHOT";
       payload: {
         day: string;
         sales: SaleRecord[];
       };
+    }
+  | {
+      /** The server applied the sender's frame; `ref` is the one the frame carried. */
+      type: "ACK";
+      payload: {
+        ref?: string;
+        type: string;
+      };
+    }
+  | {
+      /** The server refused the sender's frame; see src/lib/socket-protocol.ts for the codes. */
+      type: "ERROR";
+      payload: SocketErrorPayload;
     };
 
+export type KitchenSocketMessageType = KitchenSocketMessage["type"];
+
+type SocketPermissions = {
+  send: readonly KitchenSocketMessageType[];
+  receive: readonly KitchenSocketMessageType[];
+};
+
+const kitchenFeed = [
+  "ORDER_SNAPSHOT",
+  "COMPLETED_SNAPSHOT",
+  "NEW_ORDER",
+  "UPDATE_ORDER_STATUS",
+  "BUMP_ITEM",
+  "RECALL_ORDER",
+  "ORDER_READY",
+  "ORDER_VOIDED",
+] as const;
+const salesFeed = ["SALES_SNAPSHOT", "NEW_SALE", "NEW_REFUND", "LOW_STOCK"] as const;
+const sellerMessages = ["NEW_ORDER", "NEW_SALE", "NEW_REFUND", "ORDER_VOIDED", "LOW_STOCK"] as const;
+const managerMessages = [...sellerMessages, "CATALOG_CHANGED", "STORE_SETTINGS_CHANGED"] as const;
+const storeFeed = ["CATALOG_CHANGED", "STORE_SETTINGS_CHANGED"] as const;
+const sellerFeed = [...storeFeed, "ORDER_READY"] as const;
+// Replies go only to the socket that sent the frame.
+const replies = ["ACK", "ERROR"] as const;
+
+/** Staff sign in; the pickup display connects with a token of its own. */
+export type SocketRole = StaffRole | typeof PICKUP_DISPLAY_ROLE;
+
+/** Which message types each role may send to, and receive from, the socket server. */
+export const SOCKET_PERMISSIONS: Record<SocketRole, SocketPermissions> = {
+  WAITER: { send: sellerMessages, receive: [...sellerFeed, ...replies] },
+  CASHIER: { send: sellerMessages, receive: [...sellerFeed, ...replies] },
+  COOK: {
+    send: ["UPDATE_ORDER_STATUS", "BUMP_ITEM", "RECALL_ORDER"],
+    receive: [...kitchenFeed, ...storeFeed, ...replies],
+  },
+  MANAGER: { send: managerMessages, receive: [...kitchenFeed, ...salesFeed, ...storeFeed, ...replies] },
+  ADMIN: { send: managerMessages, receive: [...kitchenFeed, ...salesFeed, ...storeFeed, ...replies] },
+  PICKUP_DISPLAY: { send: [], receive: ["PICKUP_BOARD", "STORE_SETTINGS_CHANGED", ...replies] },
+};
+
+export function canSend(role: SocketRole, type: KitchenSocketMessageType) {
+  return SOCKET_PERMISSIONS[role].send.includes(type);
+}
+
+export function canReceive(role: SocketRole, type: KitchenSocketMessageType) {
+  return SOCKET_PERMISSIONS[role].receive.includes(type);
+}
+
+export function ticketStation(ticket: Pick<KitchenTicket, "station">) {
+  return ticket.station ?? DEFAULT_PREP_STATION;
+}
+
+/**
+ * Splits a seller's NEW_ORDER into one ticket per prep station, in
+ * PREP_STATIONS order. Each keeps the order's receipt number and round, so
+ * the server can tell when all of them are done.
+ */
+export function splitTicketByStation(ticket: KitchenTicket): KitchenTicket[] {
+  if (ticket.station) {
+    return [ticket];
+  }
+  return PREP_STATIONS.flatMap((station) => {
+    const items = ticket.items.filter((item) => (item.station ?? DEFAULT_PREP_STATION) === station);
+    return items.length > 0 ? [{ ...ticket, id: `${ticket.id}-${station.toLowerCase()}`, station, items }] : [];
+  });
+}
+
+/**
+ * The ticket in its new status. `at` stamps the first start and the finish;
+ * it is left out on screens, where only the socket server's times count.
+ */
+export function withTicketStatus(ticket: KitchenTicket, status: KitchenTicketStatus, at?: string): KitchenTicket {
+  const next = { ...ticket, status };
+  if (at && status === "in_progress" && !ticket.startedAt) {
+    next.startedAt = at;
+  }
+  if (at && status === "done") {
+    next.completedAt = at;
+  }
+  return next;
+}
+
+/** The ticket after one item is bumped: its first bump starts it and its last finishes it. */
+export function bumpTicketItem(ticket: KitchenTicket, itemId: string, done: boolean, at?: string): KitchenTicket {
+  const items = ticket.items.map((item) =>
+    item.id === itemId ? { ...item, done, doneAt: done ? at : undefined } : item,
+  );
+  let status = ticket.status;
+  if (items.every((item) => item.done)) {
+    status = "done";
+  } else if (done && status === "new") {
+    status = "in_progress";
+  }
+  return withTicketStatus({ ...ticket, items }, status, at);
+}
+
+/**
+ * A finished ticket back in progress. Bumps are kept so a mistaken "done"
+ * costs nothing, unless every item was bumped, in which case they are all
+ * cleared; otherwise the ticket would have nothing left to bump.
+ */
+export function recallTicket(ticket: KitchenTicket): KitchenTicket {
+  const items = ticket.items.every((item) => item.done)
+    ? ticket.items.map((item) => ({ ...item, done: false, doneAt: undefined }))
+    : ticket.items;
+  return { ...ticket, status: "in_progress", completedAt: undefined, items };
+}
+
+/** Close code the socket server uses when a handshake token is missing or invalid. */
+export const SOCKET_UNAUTHORIZED_CODE = 4401;
+
+export type KitchenSocketGrant = {
+  token: string;
+  role: StaffRole;
+  name: string;
+};
+
+/** Fetches a short-lived handshake token for the signed-in user, or null when signed out. */
+export async function fetchKitchenSocketGrant(): Promise<KitchenSocketGrant | null> {
+  try {
+    const response = await fetch("/api/socket-token", { cache: "no-store" });
+    if (!response.ok) {
+      return null;
+    }
+    return (await response.json()) as KitchenSocketGrant;
+  } catch {
+    return null;
+  }
+}
+
+export function withSocketToken(url: string, token: string) {
+  const separator = url.includes("?") ? "&" : "?";
+  return `${url}${separator}token=${encodeURIComponent(token)}`;
+}
+
 export function getKitchenSocketUrl() {
   const configuredUrl = process.env.NEXT_PUBLIC_KITCHEN_WS_URL;
   if (configuredUrl && configuredUrl.trim().length > 0) {
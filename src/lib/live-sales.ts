@@ -0,0 +1,81 @@
+import { OrderStatus } from "@prisma/client";
+import type { LowStockRecord, SaleRecord } from "./kitchen-socket";
+import { prisma } from "./prisma";
+
+/**
+ * The live sales records for an order, built from its committed Payment rows
+ * so a tablet cannot report a total, refund or seller the database does not
+ * hold. The tenders of a sale become one record and each refund row its own;
+ * ids come from the rows, so rebuilding an order again yields the same records.
+ */
+export async function loadSaleRecords(orderNumber: number): Promise<SaleRecord[]> {
+  const order = await prisma.order.findUnique({
+    where: { orderNumber },
+    select: {
+      id: true,
+      orderNumber: true,
+      status: true,
+      payments: {
+        orderBy: { createdAt: "asc" },
+        select: {
+          id: true,
+          amountCents: true,
+          createdAt: true,
+          cashierId: true,
+          cashier: { select: { fullName: true } },
+        },
+      },
+    },
+  });
+  if (!order || order.status === OrderStatus.OPEN || order.status === OrderStatus.CANCELLED) {
+    return [];
+  }
+
+  const tenders = order.payments.filter((payment) => payment.amountCents > 0);
+  const records: SaleRecord[] = [];
+  if (tenders.length > 0) {
+    const first = tenders[0];
+    records.push({
+      id: `sale-${order.id}`,
+      receiptNo: order.orderNumber,
+      kind: "sale",
+      waiterId: first.cashierId ?? undefined,
+      waiterName: first.cashier?.fullName ?? "Unknown",
+      totalCents: tenders.reduce((sum, payment) => sum + payment.amountCents, 0),
+      createdAt: first.createdAt.toISOString(),
+    });
+  }
+  for (const refund of order.payments.filter((payment) => payment.amountCents < 0)) {
+    records.push({
+      id: `refund-${refund.id}`,
+      receiptNo: order.orderNumber,
+      kind: "refund",
+      waiterId: refund.cashierId ?? undefined,
+      waiterName: refund.cashier?.fullName ?? "Unknown",
+      totalCents: refund.amountCents,
+      createdAt: refund.createdAt.toISOString(),
+    });
+  }
+  return records;
+}
+
+/**
+ * The low-stock alert for a product as the database has it now, or null when
+ * the product is untracked, retired or back above its reorder level.
+ */
+export async function loadLowStockAlert(productId: string): Promise<LowStockRecord | null> {
+  const product = await prisma.product.findUnique({
+    where: { id: productId },
+    select: { id: true, name: true, stockQty: true, reorderLevel: true, trackStock: true, isActive: true },
+  });
+  if (!product?.trackStock || !product.isActive || product.stockQty > product.reorderLevel) {
+    return null;
+  }
+  return {
+    productId: product.id,
+    name: product.name,
+    stockQty: product.stockQty,
+    reorderLevel: product.reorderLevel,
+    createdAt: new Date().toISOString(),
+  };
+}
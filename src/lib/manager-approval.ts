@@ -0,0 +1,43 @@
+import { APPROVER_ROLES } from "./access";
+import { OrderError, type DiscountChoice } from "./orders";
+import { isRecord, parseDiscount } from "./order-requests";
+import { isValidPin } from "./pin";
+import type { StaffSession } from "./session";
+import { checkStaffPin } from "./staff-pin";
+
+/**
+ * Resolves who authorized a refund, void or custom discount. A signed-in
+ * manager approves their own action; anyone else needs a manager to enter
+ * their PIN, sent as `approval: { userId, pin }` in the request body.
+ */
+export async function resolveApprover(session: StaffSession, body: Record<string, unknown>) {
+  if (APPROVER_ROLES.includes(session.role)) {
+    return session.sub;
+  }
+
+  const approval = isRecord(body.approval) ? body.approval : null;
+  if (!approval || typeof approval.userId !== "string" || !isValidPin(approval.pin)) {
+    throw new OrderError("A manager must approve this with their PIN.", 403);
+  }
+
+  const check = await checkStaffPin(approval.userId, approval.pin);
+  if (!check.ok) {
+    throw new OrderError(check.error, check.status);
+  }
+  if (!APPROVER_ROLES.includes(check.user.role)) {
+    throw new OrderError(`${check.user.fullName} is not allowed to give manager approval.`, 403);
+  }
+  return check.user.id;
+}
+
+/** Reads the sale's discount; a custom amount needs the same approval as a refund. */
+export async function resolveDiscount(
+  session: StaffSession,
+  body: Record<string, unknown>,
+): Promise<DiscountChoice> {
+  const discount = parseDiscount(body);
+  if (discount.kind !== "custom") {
+    return discount;
+  }
+  return { ...discount, approvedById: await resolveApprover(session, body) };
+}
@@ -0,0 +1,58 @@
+export type CatalogModifier = {
+  id: string;
+  name: string;
+  priceCents: number;
+};
+
+export type CatalogModifierGroup = {
+  id: string;
+  name: string;
+  isRequired: boolean;
+  minSelect: number;
+  maxSelect: number;
+  modifiers: CatalogModifier[];
+};
+
+/** A required group needs at least one pick even when minSelect is 0. */
+export function minSelections(group: CatalogModifierGroup) {
+  return Math.max(group.minSelect, group.isRequired ? 1 : 0);
+}
+
+export function maxSelections(group: CatalogModifierGroup) {
+  return Math.max(group.maxSelect, minSelections(group));
+}
+
+/**
+ * Checks a set of chosen modifier ids against each group's rules. Returns a
+ * message describing the first violation, or null when the selection is valid.
+ */
+export function validateModifierSelection(
+  groups: CatalogModifierGroup[],
+  selectedIds: readonly string[],
+): string | null {
+  const selected = new Set(selectedIds);
+  const known = new Set<string>();
+
+  for (const group of groups) {
+    const count = group.modifiers.filter((modifier) => {
+      known.add(modifier.id);
+      return selected.has(modifier.id);
+    }).length;
+    const min = minSelections(group);
+    const max = maxSelections(group);
+    if (count < min) {
+      return min === 1 ? `Choose ${group.name}.` : `Choose at least ${min} ${group.name}.`;
+    }
+    if (count > max) {
+      return `Choose at most ${max} ${group.name}.`;
+    }
+  }
+
+  const unknown = selectedIds.find((id) => !known.has(id));
+  return unknown ? `Modifier ${unknown} is not available for this item.` : null;
+}
+
+/** Cart lines merge only when the product and its modifiers match exactly. */
+export function cartLineKey(productId: string, modifierIds: readonly string[]) {
+  return [productId, ...[...modifierIds].sort()].join("|");
+}
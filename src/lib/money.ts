@@ -0,0 +1,105 @@
+/**
+ * Money is kept in integer minor units (cents for USD, yen for JPY) from the
+ * database through the API and socket payloads to the screen. Only this
+ * module turns those integers into text, or typed text back into integers.
+ */
+
+/** An ISO 4217 currency code and the BCP 47 locale to show it in. */
+export type MoneyFormat = {
+  currency: string;
+  locale: string;
+};
+
+export const DEFAULT_MONEY_FORMAT: MoneyFormat = { currency: "USD", locale: "en-US" };
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+function formatterFor(format: MoneyFormat) {
+  const key = `${format.locale}|${format.currency}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(format.locale, { style: "currency", currency: format.currency });
+    formatters.set(key, formatter);
+  }
+  return formatter;
+}
+
+/** True when Intl knows both the currency and the locale. */
+export function isMoneyFormat(format: { currency: unknown; locale: unknown }): format is MoneyFormat {
+  if (typeof format.currency !== "string" || !/^[A-Z]{3}$/.test(format.currency)) {
+    return false;
+  }
+  // Intl formats any three letters, so check the code is a real currency.
+  if (typeof Intl.supportedValuesOf === "function" && !Intl.supportedValuesOf("currency").includes(format.currency)) {
+    return false;
+  }
+  if (typeof format.locale !== "string" || !format.locale) {
+    return false;
+  }
+  try {
+    formatterFor({ currency: format.currency, locale: format.locale });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Digits after the decimal point for the currency: 2 for USD, 0 for JPY, 3 for KWD. */
+export function minorUnitDigits(format: MoneyFormat) {
+  return formatterFor(format).resolvedOptions().maximumFractionDigits ?? 2;
+}
+
+export function isMinorUnits(value: unknown): value is number {
+  return typeof value === "number" && Number.isSafeInteger(value);
+}
+
+/** 450 -> "$4.50" in en-US/USD. */
+export function formatMoney(minorUnits: number, format: MoneyFormat = DEFAULT_MONEY_FORMAT) {
+  return formatterFor(format).format(minorUnits / 10 ** minorUnitDigits(format));
+}
+
+/** Plain major-unit text for an input box, without symbol or grouping: 450 -> "4.50". */
+export function formatMoneyInput(minorUnits: number, format: MoneyFormat = DEFAULT_MONEY_FORMAT) {
+  const digits = minorUnitDigits(format);
+  return (minorUnits / 10 ** digits).toFixed(digits);
+}
+
+/**
+ * Reads a typed amount such as "4.50" (or "4,50" where the locale uses a
+ * decimal comma) into minor units. Grouping separators and currency symbols
+ * are ignored. Returns null for anything that is not a number, and rounds
+ * extra decimals to the nearest minor unit.
+ */
+export function parseMoney(text: string, format: MoneyFormat = DEFAULT_MONEY_FORMAT): number | null {
+  const decimal =
+    formatterFor(format)
+      .formatToParts(1.5)
+      .find((part) => part.type === "decimal")?.value ?? ".";
+  const stripped = text.trim().replace(/[^\d.,-]/g, "");
+  const cleaned =
+    decimal === "," ? stripped.replace(/\./g, "").replace(",", ".") : stripped.replace(/,/g, "");
+  if (!cleaned || cleaned === "-" || cleaned === ".") {
+    return null;
+  }
+  const major = Number(cleaned);
+  if (!Number.isFinite(major)) {
+    return null;
+  }
+  // Going through the decimal string avoids 4.35 * 100 = 434.99999.
+  const digits = minorUnitDigits(format);
+  return Math.round(Number(`${major.toFixed(digits + 2)}e${digits}`));
+}
+
+/** Loads the store's currency and locale for a client screen; USD until it answers. */
+export async function fetchMoneyFormat(): Promise<MoneyFormat> {
+  try {
+    const response = await fetch("/api/store", { cache: "no-store" });
+    if (!response.ok) {
+      return DEFAULT_MONEY_FORMAT;
+    }
+    const payload = (await response.json()) as { money?: { currency: unknown; locale: unknown } };
+    return payload.money && isMoneyFormat(payload.money) ? payload.money : DEFAULT_MONEY_FORMAT;
+  } catch {
+    return DEFAULT_MONEY_FORMAT;
+  }
+}
@@ -0,0 +1,10 @@
+/** An expected order failure; `status` is the HTTP status the route responds with. */
+export class OrderError extends Error {
+  constructor(
+    message: string,
+    readonly status = 400,
+  ) {
+    super(message);
+    this.name = "OrderError";
+  }
+}
@@ -0,0 +1,103 @@
+import { computeTaxes, type TaxBreakdownLine, type TaxRate, type TaxSettings } from "./tax";
+
+export type DiscountMode = "none" | "percent" | "fixed";
+
+export type PricedLine = {
+  unitPriceCents: number;
+  modifierCents: number;
+  quantity: number;
+};
+
+/** A line ready for checkout: its promotion savings and the tax rate it falls under. */
+export type TaxedLine = PricedLine & {
+  promotionCents: number;
+  taxRate: TaxRate;
+};
+
+export type OrderTotals = {
+  subtotalCents: number;
+  promotionCents: number;
+  discountCents: number;
+  taxCents: number;
+  taxInclusive: boolean;
+  totalCents: number;
+};
+
+export type PricedOrder = OrderTotals & {
+  taxLines: TaxBreakdownLine[];
+};
+
+export function lineTotalCents(line: PricedLine) {
+  return (line.unitPriceCents + line.modifierCents) * line.quantity;
+}
+
+export function percentOfCents(cents: number, percent: number) {
+  return Math.round((cents * percent) / 100);
+}
+
+/** `value` is a percent for "percent" and an amount in minor units for "fixed". */
+export function computeDiscountCents(subtotalCents: number, mode: DiscountMode, value: number) {
+  const safeValue = Number.isFinite(value) ? Math.max(0, value) : 0;
+  if (mode === "percent") {
+    return Math.min(subtotalCents, percentOfCents(subtotalCents, Math.min(safeValue, 100)));
+  }
+  if (mode === "fixed") {
+    return Math.min(subtotalCents, Math.round(safeValue));
+  }
+  return 0;
+}
+
+// Splits an order-level discount over the lines in proportion to what each
+// still costs, so every tax rate carries its share; the last line takes the
+// rounding remainder.
+function allocateDiscount(netCents: number[], discountCents: number) {
+  const totalCents = netCents.reduce((sum, cents) => sum + cents, 0);
+  let remaining = discountCents;
+  return netCents.map((cents, index) => {
+    if (index === netCents.length - 1) {
+      return remaining;
+    }
+    const share = totalCents > 0 ? Math.floor((discountCents * cents) / totalCents) : 0;
+    remaining -= share;
+    return share;
+  });
+}
+
+/**
+ * Promotions come off each line first; a discount then applies to what is
+ * left, so the two never discount the same cents twice. Tax is worked out
+ * per rate on the remainder, added on top or backed out of inclusive prices.
+ */
+export function computeOrderTotals(input: {
+  lines: TaxedLine[];
+  discountMode: DiscountMode;
+  discountValue: number;
+  tax: TaxSettings;
+}): PricedOrder {
+  const netCents = input.lines.map((line) => {
+    const gross = lineTotalCents(line);
+    return gross - Math.min(gross, Math.max(0, line.promotionCents));
+  });
+  const subtotalCents = input.lines.reduce((sum, line) => sum + lineTotalCents(line), 0);
+  const afterPromotionsCents = netCents.reduce((sum, cents) => sum + cents, 0);
+  const discountCents = computeDiscountCents(afterPromotionsCents, input.discountMode, input.discountValue);
+  const discountShares = allocateDiscount(netCents, discountCents);
+
+  const taxes = computeTaxes(
+    input.lines.map((line, index) => ({
+      amountCents: netCents[index] - discountShares[index],
+      rate: line.taxRate,
+    })),
+    input.tax,
+  );
+  const payableCents = afterPromotionsCents - discountCents;
+  return {
+    subtotalCents,
+    promotionCents: subtotalCents - afterPromotionsCents,
+    discountCents,
+    taxCents: taxes.taxCents,
+    taxInclusive: input.tax.inclusive,
+    totalCents: input.tax.inclusive ? payableCents : payableCents + taxes.taxCents,
+    taxLines: taxes.breakdown,
+  };
+}
@@ -0,0 +1,132 @@
+import { NextResponse } from "next/server";
+import { OrderStatus } from "@prisma/client";
+import { OrderError } from "./order-error";
+import { getReceiptPrinter, PrinterError, type PrinterSink } from "./printers";
+import { prisma } from "./prisma";
+import {
+  renderReceiptEscPos,
+  renderReceiptHtml,
+  renderReceiptText,
+  type ReceiptDocument,
+  type ReceiptFormat,
+} from "./receipts";
+import { loadStoreProfile } from "./store-config";
+
+export type PrintedReceipt = {
+  orderNumber: number;
+  printer: string;
+  reprint: boolean;
+  bytes: number;
+};
+
+/**
+ * Builds a paid or refunded order's receipt from what was stored at the time
+ * of sale: line snapshots, the tax breakdown and the payment rows. Only the
+ * store header comes from today's settings.
+ */
+export async function loadReceipt(orderNumber: number, options: { reprint?: boolean } = {}): Promise<ReceiptDocument> {
+  const order = await prisma.order.findUnique({
+    where: { orderNumber },
+    include: {
+      table: { select: { name: true } },
+      cashier: { select: { fullName: true } },
+      discount: { select: { name: true } },
+      taxLines: { orderBy: { rateBasisPoints: "asc" } },
+      payments: { orderBy: { createdAt: "asc" } },
+      items: {
+        orderBy: [{ round: "asc" }, { createdAt: "asc" }],
+        include: {
+          product: { select: { name: true } },
+          modifiers: { include: { modifier: { select: { name: true } } } },
+        },
+      },
+    },
+  });
+  if (!order) {
+    throw new OrderError(`Order #${orderNumber} was not found.`, 404);
+  }
+  if (order.status === OrderStatus.OPEN) {
+    throw new OrderError(`Order #${orderNumber} has not been paid yet.`, 409);
+  }
+  if (order.status === OrderStatus.CANCELLED) {
+    throw new OrderError(`Order #${orderNumber} was voided and has no receipt.`, 409);
+  }
+
+  return {
+    store: await loadStoreProfile(),
+    orderNumber: order.orderNumber,
+    orderType: order.type,
+    tableName: order.table?.name ?? null,
+    status: order.status,
+    cashierName: order.cashier?.fullName ?? null,
+    notes: order.notes,
+    createdAt: order.createdAt.toISOString(),
+    lines: order.items.map((item) => ({
+      name: item.product.name,
+      quantity: item.qty,
+      modifiers: item.modifiers.map((entry) =>
+        entry.qty > 1 ? `${entry.qty}x ${entry.modifier.name}` : entry.modifier.name,
+      ),
+      notes: item.notes,
+      lineTotalCents: item.lineTotalCents,
+      promotionCents: item.promotionCents,
+    })),
+    subtotalCents: order.subtotalCents,
+    promotionCents: order.promotionCents,
+    discountName: order.discount?.name ?? null,
+    discountCents: order.discountCents,
+    taxInclusive: order.taxInclusive,
+    taxLines: order.taxLines.map((line) => ({
+      name: line.name,
+      rateBasisPoints: line.rateBasisPoints,
+      taxableCents: line.taxableCents,
+      taxCents: line.taxCents,
+    })),
+    totalCents: order.totalCents,
+    payments: order.payments.map((payment) => ({ method: payment.method, amountCents: payment.amountCents })),
+    refundedCents: order.refundedCents,
+    reprintedAt: options.reprint ? new Date().toISOString() : null,
+  };
+}
+
+/** Sends the receipt as ESC/POS to `printer`, or to POS_RECEIPT_PRINTER when none is given. */
+export async function printReceipt(
+  orderNumber: number,
+  options: { reprint?: boolean; printer?: PrinterSink } = {},
+): Promise<PrintedReceipt> {
+  const printer = options.printer ?? getReceiptPrinter();
+  if (!printer) {
+    throw new PrinterError("No receipt printer is set up (POS_RECEIPT_PRINTER).", 503);
+  }
+  const reprint = options.reprint ?? false;
+  const job = renderReceiptEscPos(await loadReceipt(orderNumber, { reprint }));
+  await printer.print(job);
+  return { orderNumber, printer: printer.name, reprint, bytes: job.length };
+}
+
+/** The receipt as a download: a printable page, plain text, or raw ESC/POS bytes. */
+export function receiptResponse(receipt: ReceiptDocument, format: ReceiptFormat, autoPrint = false) {
+  const name = `receipt-${receipt.orderNumber}${receipt.reprintedAt ? "-reprint" : ""}`;
+  const headers = { "Cache-Control": "no-store" };
+  if (format === "escpos") {
+    return new NextResponse(Buffer.from(renderReceiptEscPos(receipt)), {
+      headers: {
+        ...headers,
+        "Content-Type": "application/octet-stream",
+        "Content-Disposition": `attachment; filename="${name}.bin"`,
+      },
+    });
+  }
+  if (format === "text") {
+    return new NextResponse(renderReceiptText(receipt), {
+      headers: {
+        ...headers,
+        "Content-Type": "text/plain; charset=utf-8",
+        "Content-Disposition": `inline; filename="${name}.txt"`,
+      },
+    });
+  }
+  return new NextResponse(renderReceiptHtml(receipt, { autoPrint }), {
+    headers: { ...headers, "Content-Type": "text/html; charset=utf-8" },
+  });
+}
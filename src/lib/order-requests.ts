@@ -0,0 +1,197 @@
+import { NextResponse } from "next/server";
+import { OrderType, PaymentMethod } from "@prisma/client";
+import { OrderError, type OrderItemInput, type PaymentInput } from "./orders";
+import { isMinorUnits } from "./money";
+import type { DiscountMode } from "./order-pricing";
+import { isReceiptFormat, RECEIPT_FORMATS } from "./receipts";
+import type { RefundLineInput } from "./refunds";
+
+// Request parsing shared by the order, tab, refund, receipt, shift and report routes.
+
+const MAX_LINE_QUANTITY = 999;
+
+const paymentMethods: Record<string, PaymentMethod> = {
+  cash: PaymentMethod.CASH,
+  card: PaymentMethod.CARD,
+  mobile: PaymentMethod.MOBILE,
+  other: PaymentMethod.OTHER,
+};
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+export async function readJsonObject(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw new OrderError("Request body must be valid JSON.");
+  }
+  if (!isRecord(body)) {
+    throw new OrderError("Request body must be a JSON object.");
+  }
+  return body;
+}
+
+export function parseItems(body: Record<string, unknown>): OrderItemInput[] {
+  if (!Array.isArray(body.items) || body.items.length === 0) {
+    throw new OrderError("Order must contain at least one item.");
+  }
+  return body.items.map((item) => {
+    if (!isRecord(item) || typeof item.productId !== "string" || !item.productId) {
+      throw new OrderError("Each item needs a productId.");
+    }
+    const quantity = Number(item.quantity);
+    if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_LINE_QUANTITY) {
+      throw new OrderError(`Invalid quantity for product ${item.productId}.`);
+    }
+    const modifierIds = Array.isArray(item.modifierIds)
+      ? item.modifierIds.filter((id): id is string => typeof id === "string" && id.length > 0)
+      : [];
+    return { productId: item.productId, quantity, modifierIds };
+  });
+}
+
+export function parsePayments(body: Record<string, unknown>): PaymentInput[] {
+  const rawPayments = Array.isArray(body.payments) ? body.payments : [];
+  return rawPayments.map((payment) => {
+    const method = isRecord(payment) ? paymentMethods[String(payment.method)] : undefined;
+    const amountCents = isRecord(payment) ? payment.amountCents : undefined;
+    if (!method || !isMinorUnits(amountCents) || amountCents < 0) {
+      throw new OrderError("Each payment needs a method and a non-negative amountCents.");
+    }
+    return { method, amountCents };
+  });
+}
+
+export type DiscountRequest =
+  | { kind: "none" }
+  | { kind: "preset"; discountId: string }
+  | { kind: "custom"; mode: Exclude<DiscountMode, "none">; value: number };
+
+/**
+ * Reads `discountId` for a preset, or `discountMode` and `discountValue` for
+ * a custom amount: a percent, or minor units for "fixed". Custom amounts
+ * still need a manager; see resolveDiscount.
+ */
+export function parseDiscount(body: Record<string, unknown>): DiscountRequest {
+  const hasPreset = typeof body.discountId === "string" && body.discountId.length > 0;
+  const mode = body.discountMode === "percent" || body.discountMode === "fixed" ? body.discountMode : null;
+  if (hasPreset && mode) {
+    throw new OrderError("Choose either a preset discount or a custom amount, not both.");
+  }
+  if (hasPreset) {
+    return { kind: "preset", discountId: String(body.discountId) };
+  }
+  if (!mode) {
+    return { kind: "none" };
+  }
+
+  const value = Number(body.discountValue);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new OrderError("Discount value must be a non-negative number.");
+  }
+  if (mode === "percent" && value > 100) {
+    throw new OrderError("A percent discount cannot exceed 100.");
+  }
+  if (mode === "fixed" && !isMinorUnits(value)) {
+    throw new OrderError("A fixed discount must be a whole amount in minor units.");
+  }
+  return { kind: "custom", mode, value };
+}
+
+export function parseDestination(body: Record<string, unknown>) {
+  const type = Object.values(OrderType).find((value) => value === body.orderType) ?? OrderType.DINE_IN;
+  const tableId = typeof body.tableId === "string" && body.tableId ? body.tableId : null;
+  return { type, tableId };
+}
+
+/** Reads `items: [{ orderItemId, quantity }]`, or "all" when items is omitted. */
+export function parseRefundLines(body: Record<string, unknown>): RefundLineInput[] | "all" {
+  if (body.items === undefined || body.items === "all") {
+    return "all";
+  }
+  if (!Array.isArray(body.items)) {
+    throw new OrderError('items must be a list or "all".');
+  }
+  return body.items.map((item) => {
+    const quantity = isRecord(item) ? Number(item.quantity) : Number.NaN;
+    if (!isRecord(item) || typeof item.orderItemId !== "string" || !Number.isInteger(quantity) || quantity < 0) {
+      throw new OrderError("Each refund line needs an orderItemId and a whole quantity.");
+    }
+    return { orderItemId: item.orderItemId, quantity };
+  });
+}
+
+export function parseRefundMethod(body: Record<string, unknown>) {
+  if (body.method === undefined || body.method === null || body.method === "") {
+    return null;
+  }
+  const method = paymentMethods[String(body.method)];
+  if (!method) {
+    throw new OrderError("Unknown refund method.");
+  }
+  return method;
+}
+
+export function parseOrderNumber(value: string) {
+  const orderNumber = Number(value);
+  if (!Number.isInteger(orderNumber) || orderNumber <= 0) {
+    throw new OrderError("Order number must be a positive whole number.");
+  }
+  return orderNumber;
+}
+
+/** Reads a counted cash amount in minor units. */
+export function parseCashAmount(body: Record<string, unknown>, field: string) {
+  const amount = body[field];
+  if (!isMinorUnits(amount) || amount < 0) {
+    throw new OrderError(`${field} must be a non-negative whole amount in minor units.`);
+  }
+  return amount;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function readDate(value: string | null, fallback: Date) {
+  if (!value) {
+    return fallback;
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new OrderError(`${value} is not a valid date.`);
+  }
+  return date;
+}
+
+/** Reads report `from` (inclusive) and `to` (exclusive); defaults to the last `fallbackDays`. */
+export function parseDateRange(searchParams: URLSearchParams, fallbackDays: number) {
+  const to = readDate(searchParams.get("to"), new Date());
+  const from = readDate(searchParams.get("from"), new Date(to.getTime() - fallbackDays * DAY_MS));
+  if (from >= to) {
+    throw new OrderError("The start of the range must be before its end.");
+  }
+  return { from, to };
+}
+
+/** `?format=` on the receipt routes; HTML when it is left out. */
+export function parseReceiptFormat(searchParams: URLSearchParams) {
+  const format = searchParams.get("format") ?? "html";
+  if (!isReceiptFormat(format)) {
+    throw new OrderError(`format must be one of ${RECEIPT_FORMATS.join(", ")}.`);
+  }
+  return format;
+}
+
+export function parseNotes(body: Record<string, unknown>) {
+  return typeof body.notes === "string" && body.notes.trim() ? body.notes.trim() : null;
+}
+
+export function orderErrorResponse(error: unknown, fallbackMessage: string) {
+  if (error instanceof OrderError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  console.error(`${fallbackMessage}:`, error);
+  return NextResponse.json({ error: `${fallbackMessage}.` }, { status: 500 });
+}
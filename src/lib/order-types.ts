@@ -0,0 +1,21 @@
+// Mirrors the OrderType enum in prisma/schema.prisma, for client components
+// and the socket server.
+export const ORDER_TYPES = ["DINE_IN", "TAKEOUT", "DELIVERY"] as const;
+
+export type OrderTypeCode = (typeof ORDER_TYPES)[number];
+
+export const ORDER_TYPE_LABELS: Record<OrderTypeCode, string> = {
+  DINE_IN: "Dine-in",
+  TAKEOUT: "Takeout",
+  DELIVERY: "Delivery",
+};
+
+export function isOrderType(value: unknown): value is OrderTypeCode {
+  return typeof value === "string" && (ORDER_TYPES as readonly string[]).includes(value);
+}
+
+/** Where the food goes, e.g. "T4 · Dine-in" or "Takeout". */
+export function describeDestination(orderType: OrderTypeCode, tableName: string | null) {
+  const label = ORDER_TYPE_LABELS[orderType];
+  return tableName ? `${tableName} · ${label}` : label;
+}
@@ -0,0 +1,621 @@
+import {
+  InventoryMovementType,
+  OrderStatus,
+  OrderType,
+  PaymentMethod,
+  type Prisma,
+} from "@prisma/client";
+import { effectiveTaxProfile, groupModifiers, loadPromotionRules } from "./catalog";
+import { depleteIngredients } from "./ingredients";
+import { formatMoney, type MoneyFormat } from "./money";
+import { OrderError } from "./order-error";
+import { validateModifierSelection } from "./modifiers";
+import { prisma } from "./prisma";
+import {
+  computeOrderTotals,
+  lineTotalCents,
+  type DiscountMode,
+  type OrderTotals,
+  type PricedLine,
+  type TaxedLine,
+} from "./order-pricing";
+import {
+  applyPromotions,
+  type AppliedPromotion,
+  type PromotionLine,
+  type PromotionResult,
+} from "./promotions";
+import { deductStock, stockChangeFor, type LowStockAlert } from "./stock";
+import { loadStoreSettings, loadTaxSetup } from "./store-config";
+import { taxRateFor, type TaxBreakdownLine, type TaxProfileRates, type TaxSetup } from "./tax";
+
+export { OrderError };
+
+export type OrderItemInput = {
+  productId: string;
+  quantity: number;
+  modifierIds: string[];
+};
+
+export type PaymentInput = {
+  method: PaymentMethod;
+  amountCents: number;
+};
+
+/** A preset from the Discount table, or a custom amount a manager approved. */
+export type DiscountChoice =
+  | { kind: "none" }
+  | { kind: "preset"; discountId: string }
+  | { kind: "custom"; mode: Exclude<DiscountMode, "none">; value: number; approvedById: string };
+
+export type CreateOrderInput = {
+  cashierId: string;
+  type: OrderType;
+  tableId: string | null;
+  notes: string | null;
+  discount: DiscountChoice;
+  items: OrderItemInput[];
+  payments: PaymentInput[];
+};
+
+export type OpenTabInput = Pick<CreateOrderInput, "cashierId" | "type" | "tableId" | "notes" | "items">;
+
+export type PayTabInput = Pick<CreateOrderInput, "cashierId" | "discount" | "payments">;
+
+export type CreatedOrder = {
+  orderId: string;
+  orderNumber: number;
+  type: OrderType;
+  tableName: string | null;
+  subtotalCents: number;
+  promotionCents: number;
+  discountCents: number;
+  taxCents: number;
+  taxInclusive: boolean;
+  taxLines: TaxBreakdownLine[];
+  totalCents: number;
+  paidCents: number;
+  changeCents: number;
+  /** Tracked products this order pushed down to their reorder level. */
+  lowStock: LowStockAlert[];
+};
+
+export type FiredRound = {
+  orderId: string;
+  orderNumber: number;
+  type: OrderType;
+  tableName: string | null;
+  round: number;
+  subtotalCents: number;
+  lowStock: LowStockAlert[];
+};
+
+type Tx = Prisma.TransactionClient;
+
+type ResolvedLine = PricedLine & {
+  product: { id: string; name: string; categoryId: string | null };
+  modifiers: Array<{ id: string; priceCents: number }>;
+  taxProfile: TaxProfileRates | null;
+};
+
+async function resolveTable(tx: Tx, type: OrderType, tableId: string | null) {
+  if (tableId && type !== OrderType.DINE_IN) {
+    throw new OrderError("Only dine-in orders can be seated at a table.");
+  }
+  if (!tableId) {
+    return null;
+  }
+  const table = await tx.table.findFirst({ where: { id: tableId, isActive: true } });
+  if (!table) {
+    throw new OrderError("Selected table is not available.");
+  }
+  return table;
+}
+
+/** Prices requested items from current catalog rows and checks modifier rules. */
+async function resolveLines(tx: Tx, items: OrderItemInput[]): Promise<ResolvedLine[]> {
+  if (items.length === 0) {
+    throw new OrderError("Order must contain at least one item.");
+  }
+
+  const productIds = Array.from(new Set(items.map((item) => item.productId)));
+  const products = await tx.product.findMany({
+    where: { id: { in: productIds }, isActive: true },
+    include: {
+      modifiers: { where: { isActive: true }, include: { modifierGroup: true } },
+      taxProfile: true,
+      category: { select: { taxProfile: true } },
+    },
+  });
+  const productsById = new Map(products.map((product) => [product.id, product]));
+
+  return items.map((item) => {
+    const product = productsById.get(item.productId);
+    if (!product) {
+      throw new OrderError(`Product ${item.productId} is not available.`);
+    }
+    const modifierIds = Array.from(new Set(item.modifierIds));
+    const selectionError = validateModifierSelection(
+      groupModifiers(product.modifiers),
+      modifierIds,
+    );
+    if (selectionError) {
+      throw new OrderError(`${product.name}: ${selectionError}`);
+    }
+    const modifiers = product.modifiers.filter((modifier) => modifierIds.includes(modifier.id));
+    return {
+      product,
+      modifiers,
+      taxProfile: effectiveTaxProfile(product),
+      quantity: item.quantity,
+      unitPriceCents: product.priceCents,
+      modifierCents: modifiers.reduce((sum, modifier) => sum + modifier.priceCents, 0),
+    };
+  });
+}
+
+// Ingredients are consumed when an item is made, so refunds and voids
+// restock the product but never put ingredients back.
+async function takeStock(tx: Tx, lines: ResolvedLine[], orderId: string, cashierId: string) {
+  const context = { type: InventoryMovementType.SALE, userId: cashierId, orderId };
+  await depleteIngredients(
+    tx,
+    lines.map((line) => ({
+      productId: line.product.id,
+      modifierIds: line.modifiers.map((modifier) => modifier.id),
+      quantity: line.quantity,
+    })),
+    context,
+  );
+  return deductStock(
+    tx,
+    stockChangeFor(lines.map((line) => ({ productId: line.product.id, quantity: line.quantity }))),
+    context,
+  );
+}
+
+/** Promotion savings for one stored line, credited to whichever promotion saved the most. */
+function linePromotionData(applied: AppliedPromotion[] | undefined) {
+  return {
+    promotionCents: (applied ?? []).reduce((sum, entry) => sum + entry.discountCents, 0),
+    promotionId: applied?.[0]?.promotionId ?? null,
+  };
+}
+
+/** Evaluates the promotions open on the store's clock; lines are keyed by their index. */
+async function priceLinePromotions(tx: Tx, lines: ResolvedLine[], timeZone: string) {
+  const promotionLines: PromotionLine[] = lines.map((line, index) => ({
+    key: String(index),
+    productId: line.product.id,
+    categoryId: line.product.categoryId,
+    unitCents: line.unitPriceCents + line.modifierCents,
+    quantity: line.quantity,
+  }));
+  return applyPromotions(await loadPromotionRules(tx), promotionLines, new Date(), timeZone);
+}
+
+function itemCreateData(line: ResolvedLine, round: number, promotions?: AppliedPromotion[]) {
+  return {
+    productId: line.product.id,
+    qty: line.quantity,
+    round,
+    unitPriceCents: line.unitPriceCents,
+    lineTotalCents: lineTotalCents(line),
+    ...linePromotionData(promotions),
+    modifiers: {
+      create: line.modifiers.map((modifier) => ({
+        modifierId: modifier.id,
+        qty: 1,
+        priceCents: modifier.priceCents,
+      })),
+    },
+  };
+}
+
+/**
+ * Turns a discount choice into pricing inputs plus what the order records.
+ * Presets are open to every seller, so the seller counts as their approver.
+ */
+async function applyDiscountChoice(tx: Tx, choice: DiscountChoice, cashierId: string) {
+  if (choice.kind === "none") {
+    return {
+      discountMode: "none" as DiscountMode,
+      discountValue: 0,
+      discountId: null,
+      discountAppliedById: null,
+      discountApprovedById: null,
+    };
+  }
+  if (choice.kind === "custom") {
+    return {
+      discountMode: choice.mode,
+      discountValue: choice.value,
+      discountId: null,
+      discountAppliedById: cashierId,
+      discountApprovedById: choice.approvedById,
+    };
+  }
+
+  const discount = await tx.discount.findFirst({ where: { id: choice.discountId, isActive: true } });
+  if (!discount) {
+    throw new OrderError("That discount is no longer available.");
+  }
+  return {
+    discountMode: (discount.isPercent ? "percent" : "fixed") as DiscountMode,
+    discountValue: discount.value,
+    discountId: discount.id,
+    discountAppliedById: cashierId,
+    discountApprovedById: cashierId,
+  };
+}
+
+// Money may only be taken into a drawer that has been opened with a float.
+export async function requireOpenShift(tx: Tx, cashierId: string) {
+  const shift = await tx.shift.findFirst({ where: { userId: cashierId, closedAt: null }, select: { id: true } });
+  if (!shift) {
+    throw new OrderError("Open a shift before taking payments.", 409);
+  }
+}
+
+/** Record what each tender actually covered; the excess is change. */
+function applyPayments(
+  totals: Pick<OrderTotals, "totalCents">,
+  payments: PaymentInput[],
+  cashierId: string,
+  money: MoneyFormat,
+) {
+  const paidCents = payments.reduce((sum, payment) => sum + payment.amountCents, 0);
+  if (paidCents < totals.totalCents) {
+    throw new OrderError(
+      `Payment is short by ${formatMoney(totals.totalCents - paidCents, money)}.`,
+      422,
+    );
+  }
+
+  let remainingCents = totals.totalCents;
+  const applied = payments.flatMap((payment) => {
+    const amountCents = Math.min(remainingCents, payment.amountCents);
+    remainingCents -= amountCents;
+    return amountCents > 0 ? [{ method: payment.method, amountCents, cashierId }] : [];
+  });
+  return { applied, paidCents, changeCents: paidCents - totals.totalCents };
+}
+
+/**
+ * Creates a paid order from product ids and tendered payments. Prices come
+ * from the database, never from the client, and everything is written in a
+ * single transaction.
+ */
+export async function createPaidOrder(input: CreateOrderInput): Promise<CreatedOrder> {
+  return prisma.$transaction(async (tx) => {
+    await requireOpenShift(tx, input.cashierId);
+    const table = await resolveTable(tx, input.type, input.tableId);
+    const lines = await resolveLines(tx, input.items);
+    const discount = await applyDiscountChoice(tx, input.discount, input.cashierId);
+    const store = await loadStoreSettings(tx);
+    const taxSetup = await loadTaxSetup(tx, store);
+    const promotions = await priceLinePromotions(tx, lines, store.timeZone);
+
+    const { taxLines, ...totals } = computeOrderTotals({
+      lines: lines.map((line, index) => ({
+        ...line,
+        promotionCents: linePromotionData(promotions.byLine[String(index)]).promotionCents,
+        taxRate: taxRateFor(taxSetup, line.taxProfile, input.type),
+      })),
+      discountMode: discount.discountMode,
+      discountValue: discount.discountValue,
+      tax: taxSetup.settings,
+    });
+    const payment = applyPayments(totals, input.payments, input.cashierId, store.money);
+
+    const order = await tx.order.create({
+      data: {
+        status: OrderStatus.PAID,
+        type: input.type,
+        tableId: table?.id ?? null,
+        cashierId: input.cashierId,
+        notes: input.notes,
+        ...totals,
+        discountId: discount.discountId,
+        discountAppliedById: discount.discountAppliedById,
+        discountApprovedById: discount.discountApprovedById,
+        items: {
+          create: lines.map((line, index) => itemCreateData(line, 1, promotions.byLine[String(index)])),
+        },
+        taxLines: { create: taxLines },
+        payments: { create: payment.applied },
+      },
+    });
+    const lowStock = await takeStock(tx, lines, order.id, input.cashierId);
+
+    return {
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      type: order.type,
+      tableName: table?.name ?? null,
+      ...totals,
+      taxLines,
+      paidCents: payment.paidCents,
+      changeCents: payment.changeCents,
+      lowStock,
+    };
+  });
+}
+
+const snapshotItemSelect = {
+  id: true,
+  productId: true,
+  qty: true,
+  lineTotalCents: true,
+  product: { select: { categoryId: true, taxProfile: true, category: { select: { taxProfile: true } } } },
+} satisfies Prisma.OrderItemSelect;
+
+type SnapshotItem = Prisma.OrderItemGetPayload<{ select: typeof snapshotItemSelect }>;
+
+// Each stored line total is already a snapshot, so it is priced as one unit.
+// Tax rates are looked up when the tab is priced, like its promotions.
+function snapshotLines(
+  items: SnapshotItem[],
+  orderType: OrderType,
+  promotions: PromotionResult | null,
+  taxSetup: TaxSetup,
+): TaxedLine[] {
+  return items.map((item) => ({
+    unitPriceCents: item.lineTotalCents,
+    modifierCents: 0,
+    quantity: 1,
+    promotionCents: linePromotionData(promotions?.byLine[item.id]).promotionCents,
+    taxRate: taxRateFor(taxSetup, effectiveTaxProfile(item.product), orderType),
+  }));
+}
+
+// Promotions depend on the whole tab and the time it is paid, so an open
+// tab shows its undiscounted subtotal until payTab prices them.
+async function refreshOpenTotals(tx: Tx, orderId: string, orderType: OrderType) {
+  const items = await tx.orderItem.findMany({ where: { orderId }, select: snapshotItemSelect });
+  const taxSetup = await loadTaxSetup(tx);
+  const priced = computeOrderTotals({
+    lines: snapshotLines(items, orderType, null, taxSetup),
+    discountMode: "none",
+    discountValue: 0,
+    tax: taxSetup.settings,
+  });
+  // The tax breakdown is only stored once the tab is paid.
+  const totals: OrderTotals = {
+    subtotalCents: priced.subtotalCents,
+    promotionCents: priced.promotionCents,
+    discountCents: priced.discountCents,
+    taxCents: priced.taxCents,
+    taxInclusive: priced.taxInclusive,
+    totalCents: priced.totalCents,
+  };
+  await tx.order.update({ where: { id: orderId }, data: totals });
+  return totals;
+}
+
+/** Opens a tab (an OPEN order) and fires its first round of items. */
+export async function openTab(input: OpenTabInput): Promise<FiredRound> {
+  return prisma.$transaction(async (tx) => {
+    const table = await resolveTable(tx, input.type, input.tableId);
+    if (table) {
+      // Held until commit, so a second terminal opening a tab on this table
+      // waits here and then finds this one.
+      await tx.$queryRaw`SELECT "id" FROM "Table" WHERE "id" = ${table.id} FOR UPDATE`;
+      const existing = await tx.order.findFirst({
+        where: { tableId: table.id, status: OrderStatus.OPEN },
+        select: { orderNumber: true },
+      });
+      if (existing) {
+        throw new OrderError(`${table.name} already has open tab #${existing.orderNumber}.`, 409);
+      }
+    }
+    const lines = await resolveLines(tx, input.items);
+
+    const order = await tx.order.create({
+      data: {
+        status: OrderStatus.OPEN,
+        type: input.type,
+        tableId: table?.id ?? null,
+        cashierId: input.cashierId,
+        notes: input.notes,
+        items: { create: lines.map((line) => itemCreateData(line, 1)) },
+      },
+    });
+    const lowStock = await takeStock(tx, lines, order.id, input.cashierId);
+    const totals = await refreshOpenTotals(tx, order.id, order.type);
+
+    return {
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      type: order.type,
+      tableName: table?.name ?? null,
+      round: 1,
+      subtotalCents: totals.subtotalCents,
+      lowStock,
+    };
+  });
+}
+
+/**
+ * Loads an open tab and locks its row until the transaction ends, so a round
+ * being added and the tab being paid never interleave: a round either makes
+ * it onto the bill or finds the tab closed.
+ */
+async function findOpenTab(tx: Tx, orderId: string) {
+  await tx.$queryRaw`SELECT "id" FROM "Order" WHERE "id" = ${orderId} FOR UPDATE`;
+  const order = await tx.order.findUnique({ where: { id: orderId }, include: { table: true } });
+  if (!order) {
+    throw new OrderError("Tab not found.", 404);
+  }
+  if (order.status !== OrderStatus.OPEN) {
+    throw new OrderError(`Order #${order.orderNumber} is no longer open.`, 409);
+  }
+  return order;
+}
+
+/** Adds another round of items to an open tab. */
+export async function addTabRound(
+  orderId: string,
+  cashierId: string,
+  items: OrderItemInput[],
+): Promise<FiredRound> {
+  return prisma.$transaction(async (tx) => {
+    const order = await findOpenTab(tx, orderId);
+    const lines = await resolveLines(tx, items);
+    const lowStock = await takeStock(tx, lines, orderId, cashierId);
+    const last = await tx.orderItem.aggregate({ where: { orderId }, _max: { round: true } });
+    const round = (last._max.round ?? 0) + 1;
+
+    for (const line of lines) {
+      await tx.orderItem.create({ data: { orderId, ...itemCreateData(line, round) } });
+    }
+    const totals = await refreshOpenTotals(tx, orderId, order.type);
+
+    return {
+      orderId,
+      orderNumber: order.orderNumber,
+      type: order.type,
+      tableName: order.table?.name ?? null,
+      round,
+      subtotalCents: totals.subtotalCents,
+      lowStock,
+    };
+  });
+}
+
+/**
+ * Settles an open tab from the prices snapshotted when each round was fired.
+ * Promotions are evaluated across every round as of the moment it is paid.
+ */
+export async function payTab(orderId: string, input: PayTabInput): Promise<CreatedOrder> {
+  return prisma.$transaction(async (tx) => {
+    await requireOpenShift(tx, input.cashierId);
+    const order = await findOpenTab(tx, orderId);
+    const items = await tx.orderItem.findMany({ where: { orderId }, select: snapshotItemSelect });
+    if (items.length === 0) {
+      throw new OrderError("Tab has no items to pay for.");
+    }
+    const discount = await applyDiscountChoice(tx, input.discount, input.cashierId);
+    const store = await loadStoreSettings(tx);
+    const taxSetup = await loadTaxSetup(tx, store);
+    const promotions = applyPromotions(
+      await loadPromotionRules(tx),
+      items.map((item) => ({
+        key: item.id,
+        productId: item.productId,
+        categoryId: item.product.categoryId,
+        unitCents: Math.round(item.lineTotalCents / Math.max(1, item.qty)),
+        quantity: item.qty,
+      })),
+      new Date(),
+      store.timeZone,
+    );
+
+    const { taxLines, ...totals } = computeOrderTotals({
+      lines: snapshotLines(items, order.type, promotions, taxSetup),
+      discountMode: discount.discountMode,
+      discountValue: discount.discountValue,
+      tax: taxSetup.settings,
+    });
+    const payment = applyPayments(totals, input.payments, input.cashierId, store.money);
+
+    // Guard against two terminals settling the same tab at once.
+    const settled = await tx.order.updateMany({
+      where: { id: orderId, status: OrderStatus.OPEN },
+      data: {
+        status: OrderStatus.PAID,
+        ...totals,
+        discountId: discount.discountId,
+        discountAppliedById: discount.discountAppliedById,
+        discountApprovedById: discount.discountApprovedById,
+      },
+    });
+    if (settled.count === 0) {
+      throw new OrderError(`Order #${order.orderNumber} was already settled.`, 409);
+    }
+    for (const item of items) {
+      await tx.orderItem.update({
+        where: { id: item.id },
+        data: linePromotionData(promotions.byLine[item.id]),
+      });
+    }
+    await tx.orderTaxLine.createMany({ data: taxLines.map((line) => ({ ...line, orderId })) });
+    await tx.payment.createMany({
+      data: payment.applied.map((entry) => ({ ...entry, orderId })),
+    });
+
+    return {
+      orderId,
+      orderNumber: order.orderNumber,
+      type: order.type,
+      tableName: order.table?.name ?? null,
+      ...totals,
+      taxLines,
+      paidCents: payment.paidCents,
+      changeCents: payment.changeCents,
+      // Stock left the shelf when each round was fired.
+      lowStock: [],
+    };
+  });
+}
+
+export type OpenTabSummary = {
+  orderId: string;
+  orderNumber: number;
+  type: OrderType;
+  tableName: string | null;
+  cashierName: string | null;
+  notes: string | null;
+  createdAt: string;
+  subtotalCents: number;
+  items: Array<{
+    id: string;
+    productId: string;
+    /** Lets the waiter screen preview promotions across the whole tab. */
+    categoryId: string | null;
+    name: string;
+    quantity: number;
+    round: number;
+    modifiers: string[];
+    lineTotalCents: number;
+  }>;
+};
+
+export async function listOpenTabs(): Promise<OpenTabSummary[]> {
+  const orders = await prisma.order.findMany({
+    where: { status: OrderStatus.OPEN },
+    orderBy: { createdAt: "asc" },
+    include: {
+      table: true,
+      cashier: { select: { fullName: true } },
+      items: {
+        orderBy: [{ round: "asc" }, { createdAt: "asc" }],
+        include: {
+          product: { select: { name: true, categoryId: true } },
+          modifiers: { include: { modifier: { select: { name: true } } } },
+        },
+      },
+    },
+  });
+
+  return orders.map((order) => ({
+    orderId: order.id,
+    orderNumber: order.orderNumber,
+    type: order.type,
+    tableName: order.table?.name ?? null,
+    cashierName: order.cashier?.fullName ?? null,
+    notes: order.notes,
+    createdAt: order.createdAt.toISOString(),
+    subtotalCents: order.subtotalCents,
+    items: order.items.map((item) => ({
+      id: item.id,
+      productId: item.productId,
+      categoryId: item.product.categoryId,
+      name: item.product.name,
+      quantity: item.qty,
+      round: item.round,
+      modifiers: item.modifiers.map((entry) => entry.modifier.name),
+      lineTotalCents: item.lineTotalCents,
+    })),
+  }));
+}
@@ -0,0 +1,92 @@
+import type { KitchenTicket } from "./kitchen-socket";
+
+/**
+ * The customer-facing pickup screen. It connects to the kitchen socket with
+ * its own role, which only ever receives order numbers, never tickets.
+ */
+export const PICKUP_DISPLAY_ROLE = "PICKUP_DISPLAY";
+
+/** How long an order stays under "Ready" after its last ticket is done. */
+export const PICKUP_READY_MINUTES = 15;
+
+export type PickupReadyOrder = {
+  receiptNo: number;
+  readyAt: string;
+};
+
+export type PickupBoard = {
+  /** Receipt numbers still in the kitchen, oldest first. */
+  preparing: number[];
+  /** Newest first. */
+  ready: PickupReadyOrder[];
+};
+
+/** Dine-in food goes to the table, so only takeout and delivery orders are called out. */
+export function isPickupOrder(ticket: Pick<KitchenTicket, "orderType">) {
+  return ticket.orderType !== "DINE_IN";
+}
+
+function isFresh(readyAt: string, now: Date) {
+  return now.getTime() - new Date(readyAt).getTime() < PICKUP_READY_MINUTES * 60 * 1000;
+}
+
+/**
+ * An order is ready once none of its station tickets is left in the queue;
+ * the board shows it for PICKUP_READY_MINUTES after the last one was done.
+ */
+export function buildPickupBoard(
+  active: Iterable<KitchenTicket>,
+  completed: Iterable<KitchenTicket>,
+  now = new Date(),
+): PickupBoard {
+  const preparing = new Map<number, string>();
+  for (const ticket of active) {
+    if (isPickupOrder(ticket)) {
+      const firedAt = preparing.get(ticket.receiptNo);
+      preparing.set(ticket.receiptNo, firedAt && firedAt < ticket.createdAt ? firedAt : ticket.createdAt);
+    }
+  }
+
+  const ready = new Map<number, string>();
+  for (const ticket of completed) {
+    if (!isPickupOrder(ticket) || !ticket.completedAt || preparing.has(ticket.receiptNo)) {
+      continue;
+    }
+    const readyAt = ready.get(ticket.receiptNo);
+    if (!readyAt || readyAt < ticket.completedAt) {
+      ready.set(ticket.receiptNo, ticket.completedAt);
+    }
+  }
+
+  return {
+    preparing: Array.from(preparing)
+      .sort((a, b) => a[1].localeCompare(b[1]))
+      .map(([receiptNo]) => receiptNo),
+    ready: withoutExpired(
+      Array.from(ready, ([receiptNo, readyAt]) => ({ receiptNo, readyAt })).sort((a, b) =>
+        b.readyAt.localeCompare(a.readyAt),
+      ),
+      now,
+    ),
+  };
+}
+
+/** The display drops expired orders on its own clock between updates. */
+export function withoutExpired(ready: PickupReadyOrder[], now = new Date()) {
+  return ready.filter((order) => isFresh(order.readyAt, now));
+}
+
+/** Fetches a socket token for the pickup display; `key` is the display link's, when the store set one. */
+export async function fetchPickupSocketToken(key: string | null): Promise<string | null> {
+  try {
+    const query = key ? `?${new URLSearchParams({ key })}` : "";
+    const response = await fetch(`/api/pickup-token${query}`, { cache: "no-store" });
+    if (!response.ok) {
+      return null;
+    }
+    const payload = (await response.json()) as { token: string };
+    return payload.token;
+  } catch {
+    return null;
+  }
+}
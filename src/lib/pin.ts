@@ -0,0 +1,28 @@
+import { randomBytes, scryptSync, timingSafeEqual } from "crypto";
+
+const KEY_LENGTH = 32;
+const PIN_PATTERN = /^\d{4,8}$/;
+
+export function isValidPin(pin: unknown): pin is string {
+  return typeof pin === "string" && PIN_PATTERN.test(pin);
+}
+
+/** Hashes a staff PIN as `scrypt$salt$hash` for storage in User.pinHash. */
+export function hashPin(pin: string) {
+  const salt = randomBytes(16);
+  const hash = scryptSync(pin, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString("base64")}$${hash.toString("base64")}`;
+}
+
+export function verifyPin(pin: string, storedHash: string | null | undefined) {
+  if (!storedHash) {
+    return false;
+  }
+  const [scheme, saltText, hashText] = storedHash.split("$");
+  if (scheme !== "scrypt" || !saltText || !hashText) {
+    return false;
+  }
+  const expected = Buffer.from(hashText, "base64");
+  const actual = scryptSync(pin, Buffer.from(saltText, "base64"), expected.length);
+  return timingSafeEqual(expected, actual);
+}
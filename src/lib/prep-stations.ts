@@ -0,0 +1,17 @@
+// Mirrors the PrepStation enum in prisma/schema.prisma, for client components
+// and the socket server.
+export const PREP_STATIONS = ["KITCHEN", "BAR"] as const;
+
+export type PrepStation = (typeof PREP_STATIONS)[number];
+
+export const PREP_STATION_LABELS: Record<PrepStation, string> = {
+  KITCHEN: "Hot kitchen",
+  BAR: "Barista bar",
+};
+
+/** Where products and tickets from before stations existed are made. */
+export const DEFAULT_PREP_STATION: PrepStation = "KITCHEN";
+
+export function isPrepStation(value: unknown): value is PrepStation {
+  return typeof value === "string" && (PREP_STATIONS as readonly string[]).includes(value);
+}
@@ -0,0 +1,144 @@
+import { zonedParts } from "./business-day";
+import { ticketStation, type KitchenTicket } from "./kitchen-socket";
+import type { PrepStation } from "./prep-stations";
+import { prisma } from "./prisma";
+import { loadStoreProfile } from "./store-config";
+import { percentile } from "./ticket-timing";
+
+export type PrepTimeStats = {
+  /** Tickets for the hour and station rows, item lines for the product rows. */
+  count: number;
+  averageSeconds: number;
+  p90Seconds: number;
+};
+
+export type PrepTimeReport = {
+  /** Hour of day (0-23) the tickets were fired, on the store's clock. */
+  byHour: Array<PrepTimeStats & { hour: number }>;
+  byProduct: Array<PrepTimeStats & { productId: string | null; name: string }>;
+  byStation: Array<PrepTimeStats & { station: PrepStation }>;
+};
+
+function toDate(value: string | undefined) {
+  const date = value ? new Date(value) : null;
+  return date && !Number.isNaN(date.getTime()) ? date : null;
+}
+
+/**
+ * Stores how long each item on a finished station ticket took. Called by the
+ * socket server once per ticket; a resent ticket is skipped by the
+ * (ticketId, itemId) key.
+ */
+export async function recordPrepTimes(ticket: KitchenTicket) {
+  const firedAt = toDate(ticket.createdAt);
+  const ticketDoneAt = toDate(ticket.completedAt);
+  if (!firedAt || !ticketDoneAt) {
+    return 0;
+  }
+  const rows = ticket.items.map((item) => {
+    const completedAt = toDate(item.doneAt) ?? ticketDoneAt;
+    return {
+      ticketId: ticket.id,
+      itemId: item.id,
+      receiptNo: ticket.receiptNo,
+      round: ticket.round ?? 1,
+      station: ticketStation(ticket),
+      productId: item.productId ?? null,
+      productName: item.name,
+      categoryId: item.categoryId ?? null,
+      quantity: item.quantity,
+      firedAt,
+      startedAt: toDate(ticket.startedAt),
+      completedAt,
+      prepSeconds: Math.max(0, Math.round((completedAt.getTime() - firedAt.getTime()) / 1000)),
+    };
+  });
+  const result = await prisma.kitchenPrepTime.createMany({ data: rows, skipDuplicates: true });
+  return result.count;
+}
+
+/** Drops a recalled ticket's times; they are recorded again when it is done for real. */
+export async function forgetPrepTimes(ticketId: string) {
+  const result = await prisma.kitchenPrepTime.deleteMany({ where: { ticketId } });
+  return result.count;
+}
+
+function summarize(seconds: number[]): PrepTimeStats {
+  const total = seconds.reduce((sum, value) => sum + value, 0);
+  return {
+    count: seconds.length,
+    averageSeconds: seconds.length > 0 ? Math.round(total / seconds.length) : 0,
+    p90Seconds: percentile(seconds, 90),
+  };
+}
+
+function groupSeconds<K>(entries: Array<{ key: K; seconds: number }>) {
+  const groups = new Map<K, number[]>();
+  for (const entry of entries) {
+    const seconds = groups.get(entry.key) ?? [];
+    seconds.push(entry.seconds);
+    groups.set(entry.key, seconds);
+  }
+  return groups;
+}
+
+/**
+ * Prep times for items finished between `from` and `to`. A ticket takes as
+ * long as its slowest item, so hour and station rows count tickets while
+ * product rows count item lines.
+ */
+export async function prepTimeReport(from: Date, to: Date): Promise<PrepTimeReport> {
+  const [rows, store] = await Promise.all([
+    prisma.kitchenPrepTime.findMany({
+      where: { completedAt: { gte: from, lt: to } },
+      select: {
+        ticketId: true,
+        station: true,
+        productId: true,
+        productName: true,
+        firedAt: true,
+        prepSeconds: true,
+      },
+    }),
+    loadStoreProfile(),
+  ]);
+
+  const tickets = new Map<string, { station: PrepStation; firedAt: Date; seconds: number }>();
+  for (const row of rows) {
+    const ticket = tickets.get(row.ticketId);
+    if (!ticket || row.prepSeconds > ticket.seconds) {
+      tickets.set(row.ticketId, { station: row.station, firedAt: row.firedAt, seconds: row.prepSeconds });
+    }
+  }
+
+  const byHour = groupSeconds(
+    Array.from(tickets.values()).map((ticket) => ({
+      key: zonedParts(ticket.firedAt, store.timeZone).hour,
+      seconds: ticket.seconds,
+    })),
+  );
+  const byStation = groupSeconds(
+    Array.from(tickets.values()).map((ticket) => ({ key: ticket.station, seconds: ticket.seconds })),
+  );
+  // Products are keyed by id, falling back to the name for tickets sent without one.
+  const names = new Map<string, { productId: string | null; name: string }>();
+  const byProduct = groupSeconds(
+    rows.map((row) => {
+      const key = row.productId ?? `name:${row.productName}`;
+      names.set(key, { productId: row.productId, name: row.productName });
+      return { key, seconds: row.prepSeconds };
+    }),
+  );
+
+  return {
+    byHour: Array.from(byHour, ([hour, seconds]) => ({ hour, ...summarize(seconds) })).sort(
+      (a, b) => a.hour - b.hour,
+    ),
+    byProduct: Array.from(byProduct, ([key, seconds]) => ({ ...names.get(key)!, ...summarize(seconds) })).sort(
+      (a, b) => b.averageSeconds - a.averageSeconds,
+    ),
+    byStation: Array.from(byStation, ([station, seconds]) => ({ station, ...summarize(seconds) })).sort((a, b) =>
+      a.station.localeCompare(b.station),
+    ),
+  };
+}
@@ -0,0 +1,91 @@
+import { Socket } from "net";
+import { OrderError } from "./order-error";
+
+export class PrinterError extends OrderError {
+  constructor(message: string, status = 502) {
+    super(message, status);
+    this.name = "PrinterError";
+  }
+}
+
+/** Somewhere ESC/POS print jobs can be sent. */
+export type PrinterSink = {
+  /** Shown to staff, e.g. "192.168.1.50:9100". */
+  name: string;
+  print(job: Uint8Array): Promise<void>;
+};
+
+/** A fake printer that keeps every job in memory, for trying receipts out offline. */
+export type MemoryPrinter = PrinterSink & {
+  jobs: Uint8Array[];
+  clear(): void;
+};
+
+const DEFAULT_PRINTER_PORT = 9100;
+const PRINT_TIMEOUT_MS = 5000;
+
+/** A receipt printer listening for raw jobs on TCP, port 9100 on most models. */
+export function createNetworkPrinter(host: string, port = DEFAULT_PRINTER_PORT): PrinterSink {
+  const name = `${host}:${port}`;
+  return {
+    name,
+    print(job) {
+      return new Promise((resolve, reject) => {
+        const socket = new Socket();
+        const fail = (reason: string) => {
+          socket.destroy();
+          reject(new PrinterError(`Receipt printer ${name} ${reason}.`));
+        };
+        socket.setTimeout(PRINT_TIMEOUT_MS, () => fail("did not answer"));
+        socket.once("error", (error) => fail(`failed: ${error.message}`));
+        socket.connect(port, host, () => {
+          socket.end(job, () => {
+            socket.destroy();
+            resolve();
+          });
+        });
+      });
+    },
+  };
+}
+
+export function createMemoryPrinter(name = "memory"): MemoryPrinter {
+  const jobs: Uint8Array[] = [];
+  return {
+    name,
+    jobs,
+    async print(job) {
+      jobs.push(job);
+    },
+    clear() {
+      jobs.length = 0;
+    },
+  };
+}
+
+const globalForPrinters = globalThis as unknown as {
+  memoryPrinter?: MemoryPrinter;
+};
+
+/** The in-memory printer POS_RECEIPT_PRINTER=memory sends jobs to. */
+export function getMemoryPrinter() {
+  globalForPrinters.memoryPrinter ??= createMemoryPrinter();
+  return globalForPrinters.memoryPrinter;
+}
+
+/**
+ * The printer named by POS_RECEIPT_PRINTER: "host" or "host:port" for a
+ * network printer, "memory" for the fake one, unset for none.
+ */
+export function getReceiptPrinter(): PrinterSink | null {
+  const target = process.env.POS_RECEIPT_PRINTER?.trim();
+  if (!target) {
+    return null;
+  }
+  if (target === "memory") {
+    return getMemoryPrinter();
+  }
+  const [host, port] = target.split(":");
+  const parsedPort = Number(port);
+  return createNetworkPrinter(host, Number.isInteger(parsedPort) && parsedPort > 0 ? parsedPort : DEFAULT_PRINTER_PORT);
+}
@@ -0,0 +1,247 @@
+import { storeClock } from "./business-day";
+import { percentOfCents } from "./order-pricing";
+
+export type PromotionType = "COMBO_PRICE" | "CATEGORY_PERCENT" | "BUY_X_GET_Y";
+
+export const PROMOTION_TYPES: readonly PromotionType[] = [
+  "COMBO_PRICE",
+  "CATEGORY_PERCENT",
+  "BUY_X_GET_Y",
+];
+
+export function isPromotionType(value: unknown): value is PromotionType {
+  return typeof value === "string" && PROMOTION_TYPES.includes(value as PromotionType);
+}
+
+/** One product or one whole category; a combo needs each row `quantity` times. */
+export type PromotionScopeRule = {
+  productId: string | null;
+  categoryId: string | null;
+  quantity: number;
+};
+
+export type PromotionRule = {
+  id: string;
+  name: string;
+  type: PromotionType;
+  priority: number;
+  /** 0 = Sunday; empty means every day. */
+  daysOfWeek: number[];
+  /** Minutes after midnight; both null means all day. */
+  startMinute: number | null;
+  endMinute: number | null;
+  percentOff: number | null;
+  comboPriceCents: number | null;
+  buyQty: number | null;
+  getQty: number | null;
+  scope: PromotionScopeRule[];
+};
+
+/** A cart or tab line as the engine sees it; unitCents includes modifiers. */
+export type PromotionLine = {
+  key: string;
+  productId: string;
+  categoryId: string | null;
+  unitCents: number;
+  quantity: number;
+};
+
+export type AppliedPromotion = {
+  promotionId: string;
+  name: string;
+  discountCents: number;
+};
+
+export type PromotionResult = {
+  discountCents: number;
+  /** Savings per line key, largest first. Lines without a promotion are absent. */
+  byLine: Record<string, AppliedPromotion[]>;
+  applied: AppliedPromotion[];
+};
+
+type Unit = {
+  key: string;
+  productId: string;
+  categoryId: string | null;
+  unitCents: number;
+  claimedBy: PromotionRule | null;
+  discountCents: number;
+};
+
+export const MINUTES_PER_DAY = 24 * 60;
+
+export function formatMinute(minute: number) {
+  const hours = Math.floor(minute / 60);
+  return `${String(hours).padStart(2, "0")}:${String(minute % 60).padStart(2, "0")}`;
+}
+
+/**
+ * True while the rule's schedule is open at `at`, on the store's clock in
+ * `timeZone`. A window that ends before it starts runs past midnight, and
+ * the weekday is the one the window started on.
+ */
+export function isPromotionActive(rule: PromotionRule, at: Date, timeZone: string) {
+  const { weekday: day, minute } = storeClock(at, timeZone);
+  const { startMinute, endMinute } = rule;
+  const onDay = (weekday: number) =>
+    rule.daysOfWeek.length === 0 || rule.daysOfWeek.includes(weekday);
+
+  if (startMinute === null || endMinute === null) {
+    return onDay(day);
+  }
+  if (startMinute <= endMinute) {
+    return onDay(day) && minute >= startMinute && minute < endMinute;
+  }
+  if (minute >= startMinute) {
+    return onDay(day);
+  }
+  return minute < endMinute && onDay((day + 6) % 7);
+}
+
+function matchesScope(scope: PromotionScopeRule, unit: Unit) {
+  if (scope.productId) {
+    return scope.productId === unit.productId;
+  }
+  return scope.categoryId !== null && scope.categoryId === unit.categoryId;
+}
+
+function claim(unit: Unit, rule: PromotionRule, discountCents: number) {
+  unit.claimedBy = rule;
+  unit.discountCents = Math.min(unit.unitCents, Math.max(0, discountCents));
+}
+
+function applyPercent(rule: PromotionRule, units: Unit[]) {
+  const percent = Math.min(100, Math.max(0, rule.percentOff ?? 0));
+  if (percent === 0) {
+    return;
+  }
+  for (const unit of units) {
+    claim(unit, rule, percentOfCents(unit.unitCents, percent));
+  }
+}
+
+// Groups the eligible items most expensive first, so the free ones in each
+// group are always the cheapest the guest bought.
+function applyBuyXGetY(rule: PromotionRule, units: Unit[]) {
+  const buy = rule.buyQty ?? 0;
+  const get = rule.getQty ?? 0;
+  if (buy < 1 || get < 1) {
+    return;
+  }
+  const sorted = [...units].sort((a, b) => b.unitCents - a.unitCents);
+  const size = buy + get;
+  for (let start = 0; start + size <= sorted.length; start += size) {
+    sorted.slice(start, start + size).forEach((unit, index) => {
+      claim(unit, rule, index < buy ? 0 : unit.unitCents);
+    });
+  }
+}
+
+// Builds combos from the most expensive matching items while the combo is
+// still cheaper than buying them separately.
+function applyCombo(rule: PromotionRule, units: Unit[]) {
+  const comboCents = rule.comboPriceCents;
+  const slots = rule.scope.flatMap((scope) =>
+    Array.from({ length: Math.max(1, scope.quantity) }, () => scope),
+  );
+  if (comboCents === null || comboCents < 0 || slots.length === 0) {
+    return;
+  }
+  const sorted = [...units].sort((a, b) => b.unitCents - a.unitCents);
+
+  for (;;) {
+    const picked: Unit[] = [];
+    for (const slot of slots) {
+      const unit = sorted.find(
+        (candidate) =>
+          candidate.claimedBy === null && !picked.includes(candidate) && matchesScope(slot, candidate),
+      );
+      if (!unit) {
+        return;
+      }
+      picked.push(unit);
+    }
+
+    const fullCents = picked.reduce((sum, unit) => sum + unit.unitCents, 0);
+    const savingsCents = fullCents - comboCents;
+    if (savingsCents <= 0) {
+      return;
+    }
+    let remaining = savingsCents;
+    picked.forEach((unit, index) => {
+      const share =
+        index === picked.length - 1
+          ? remaining
+          : Math.floor((savingsCents * unit.unitCents) / fullCents);
+      claim(unit, rule, share);
+      remaining -= share;
+    });
+  }
+}
+
+function mergeApplied(entries: AppliedPromotion[], rule: PromotionRule, discountCents: number) {
+  const existing = entries.find((entry) => entry.promotionId === rule.id);
+  if (existing) {
+    existing.discountCents += discountCents;
+  } else {
+    entries.push({ promotionId: rule.id, name: rule.name, discountCents });
+  }
+}
+
+/**
+ * Prices a cart against the promotions open at `at`. Rules run by priority
+ * and each item takes part in at most one promotion, so deals never stack.
+ * The waiter screen and order creation both call this, so the two agree.
+ */
+export function applyPromotions(
+  rules: readonly PromotionRule[],
+  lines: readonly PromotionLine[],
+  at: Date,
+  timeZone: string,
+): PromotionResult {
+  const units: Unit[] = lines.flatMap((line) =>
+    Array.from({ length: Math.max(0, line.quantity) }, () => ({
+      key: line.key,
+      productId: line.productId,
+      categoryId: line.categoryId,
+      unitCents: line.unitCents,
+      claimedBy: null,
+      discountCents: 0,
+    })),
+  );
+
+  const active = rules
+    .filter((rule) => isPromotionActive(rule, at, timeZone))
+    .sort((a, b) => b.priority - a.priority || a.name.localeCompare(b.name));
+
+  for (const rule of active) {
+    const eligible = units.filter(
+      (unit) => unit.claimedBy === null && rule.scope.some((scope) => matchesScope(scope, unit)),
+    );
+    if (rule.type === "CATEGORY_PERCENT") {
+      applyPercent(rule, eligible);
+    } else if (rule.type === "BUY_X_GET_Y") {
+      applyBuyXGetY(rule, eligible);
+    } else {
+      applyCombo(rule, eligible);
+    }
+  }
+
+  const byLine: Record<string, AppliedPromotion[]> = {};
+  const applied: AppliedPromotion[] = [];
+  let discountCents = 0;
+  for (const unit of units) {
+    if (!unit.claimedBy || unit.discountCents === 0) {
+      continue;
+    }
+    discountCents += unit.discountCents;
+    byLine[unit.key] ??= [];
+    mergeApplied(byLine[unit.key], unit.claimedBy, unit.discountCents);
+    mergeApplied(applied, unit.claimedBy, unit.discountCents);
+  }
+  for (const entries of Object.values(byLine)) {
+    entries.sort((a, b) => b.discountCents - a.discountCents);
+  }
+
+  return { discountCents, byLine, applied };
+}
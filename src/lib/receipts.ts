@@ -0,0 +1,402 @@
+import { formatMoney } from "./money";
+import { describeDestination, type OrderTypeCode } from "./order-types";
+import type { StoreProfile } from "./store-settings";
+import { formatTaxRate, type TaxBreakdownLine } from "./tax";
+
+/**
+ * A receipt as printed from the persisted order, and the three ways it is
+ * rendered: 80mm thermal HTML for the browser, ESC/POS bytes for network
+ * printers, and plain text for email. All three come from the same rows, so
+ * they never disagree about what was sold.
+ */
+
+export type ReceiptLine = {
+  name: string;
+  quantity: number;
+  modifiers: string[];
+  notes: string | null;
+  /** Before promotions, modifiers included. */
+  lineTotalCents: number;
+  promotionCents: number;
+};
+
+export type ReceiptPayment = {
+  method: string;
+  /** Negative for refunds. */
+  amountCents: number;
+};
+
+export type ReceiptDocument = {
+  store: StoreProfile;
+  orderNumber: number;
+  orderType: OrderTypeCode;
+  tableName: string | null;
+  status: string;
+  cashierName: string | null;
+  notes: string | null;
+  /** ISO timestamp of the sale. */
+  createdAt: string;
+  lines: ReceiptLine[];
+  subtotalCents: number;
+  promotionCents: number;
+  discountName: string | null;
+  discountCents: number;
+  taxInclusive: boolean;
+  taxLines: TaxBreakdownLine[];
+  totalCents: number;
+  payments: ReceiptPayment[];
+  refundedCents: number;
+  /** Set on copies printed after the sale; they say "REPRINT" top and bottom. */
+  reprintedAt: string | null;
+};
+
+export type ReceiptFormat = "html" | "text" | "escpos";
+
+export const RECEIPT_FORMATS: readonly ReceiptFormat[] = ["html", "text", "escpos"];
+
+/** Characters per line in font A on an 80mm printer. */
+export const RECEIPT_WIDTH = 48;
+
+export function isReceiptFormat(value: unknown): value is ReceiptFormat {
+  return typeof value === "string" && (RECEIPT_FORMATS as readonly string[]).includes(value);
+}
+
+type ReceiptRow =
+  | { kind: "title"; text: string }
+  | { kind: "center"; text: string; bold?: boolean }
+  | { kind: "text"; text: string }
+  | { kind: "amount"; label: string; amount: string; bold?: boolean }
+  | { kind: "rule" };
+
+const PAYMENT_LABELS: Record<string, string> = {
+  CASH: "Cash",
+  CARD: "Card",
+  MOBILE: "Mobile",
+  OTHER: "Other",
+};
+
+function formatReceiptTime(at: string, store: StoreProfile) {
+  return new Date(at).toLocaleString(store.money.locale, {
+    timeZone: store.timeZone,
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+function splitLines(text: string) {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+// The layout every format renders: the same rows in the same order.
+function receiptRows(receipt: ReceiptDocument): ReceiptRow[] {
+  const { store } = receipt;
+  const money = (cents: number) => formatMoney(cents, store.money);
+  const rows: ReceiptRow[] = [];
+  const reprintBanner: ReceiptRow = { kind: "center", text: "*** REPRINT ***", bold: true };
+
+  if (receipt.reprintedAt) {
+    rows.push(reprintBanner);
+  }
+  rows.push({ kind: "title", text: store.displayName });
+  for (const line of splitLines(store.address)) {
+    rows.push({ kind: "center", text: line });
+  }
+  for (const line of splitLines(store.receiptHeader)) {
+    rows.push({ kind: "center", text: line });
+  }
+  rows.push({ kind: "rule" });
+  rows.push({ kind: "amount", label: `Receipt #${receipt.orderNumber}`, amount: "", bold: true });
+  rows.push({ kind: "text", text: describeDestination(receipt.orderType, receipt.tableName) });
+  rows.push({ kind: "text", text: formatReceiptTime(receipt.createdAt, store) });
+  if (receipt.cashierName) {
+    rows.push({ kind: "text", text: `Served by ${receipt.cashierName}` });
+  }
+  rows.push({ kind: "rule" });
+
+  for (const line of receipt.lines) {
+    rows.push({ kind: "amount", label: `${line.quantity}x ${line.name}`, amount: money(line.lineTotalCents) });
+    for (const modifier of line.modifiers) {
+      rows.push({ kind: "text", text: `   + ${modifier}` });
+    }
+    if (line.notes) {
+      rows.push({ kind: "text", text: `   "${line.notes}"` });
+    }
+    if (line.promotionCents > 0) {
+      rows.push({ kind: "amount", label: "   Promotion", amount: `-${money(line.promotionCents)}` });
+    }
+  }
+  rows.push({ kind: "rule" });
+
+  rows.push({ kind: "amount", label: "Subtotal", amount: money(receipt.subtotalCents) });
+  if (receipt.promotionCents > 0) {
+    rows.push({ kind: "amount", label: "Promotions", amount: `-${money(receipt.promotionCents)}` });
+  }
+  if (receipt.discountCents > 0) {
+    rows.push({
+      kind: "amount",
+      label: receipt.discountName ? `Discount (${receipt.discountName})` : "Discount",
+      amount: `-${money(receipt.discountCents)}`,
+    });
+  }
+  for (const tax of receipt.taxLines) {
+    rows.push({
+      kind: "amount",
+      label: `${tax.name} ${formatTaxRate(tax.rateBasisPoints)}${receipt.taxInclusive ? " (included)" : ""}`,
+      amount: money(tax.taxCents),
+    });
+  }
+  rows.push({ kind: "amount", label: "TOTAL", amount: money(receipt.totalCents), bold: true });
+
+  for (const payment of receipt.payments) {
+    const label = PAYMENT_LABELS[payment.method] ?? payment.method;
+    rows.push({
+      kind: "amount",
+      label: payment.amountCents < 0 ? `Refund (${label})` : label,
+      amount: money(payment.amountCents),
+    });
+  }
+  if (receipt.refundedCents > 0) {
+    rows.push({
+      kind: "amount",
+      label: "Net paid",
+      amount: money(receipt.totalCents - receipt.refundedCents),
+      bold: true,
+    });
+  }
+  if (receipt.status === "REFUNDED") {
+    rows.push({ kind: "center", text: "REFUNDED", bold: true });
+  }
+  if (receipt.notes) {
+    rows.push({ kind: "text", text: `Note: ${receipt.notes}` });
+  }
+
+  const footer = splitLines(store.receiptFooter);
+  if (footer.length > 0) {
+    rows.push({ kind: "rule" });
+    for (const line of footer) {
+      rows.push({ kind: "center", text: line });
+    }
+  }
+  if (receipt.reprintedAt) {
+    rows.push({ kind: "rule" });
+    rows.push({ kind: "center", text: `Reprinted ${formatReceiptTime(receipt.reprintedAt, store)}` });
+    rows.push(reprintBanner);
+  }
+  return rows;
+}
+
+// Breaks text into lines of at most `width` characters, on spaces when it can.
+function wrap(text: string, width: number) {
+  const lines: string[] = [];
+  let current = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    let rest = word;
+    while (rest.length > width) {
+      if (current) {
+        lines.push(current);
+        current = "";
+      }
+      lines.push(rest.slice(0, width));
+      rest = rest.slice(width);
+    }
+    if (!current) {
+      current = rest;
+    } else if (current.length + 1 + rest.length <= width) {
+      current = `${current} ${rest}`;
+    } else {
+      lines.push(current);
+      current = rest;
+    }
+  }
+  if (current || lines.length === 0) {
+    lines.push(current);
+  }
+  return lines;
+}
+
+function center(text: string, width: number) {
+  return wrap(text, width).map((line) => `${" ".repeat(Math.floor((width - line.length) / 2))}${line}`);
+}
+
+// Label on the left, amount flush right on the first line. Leading spaces
+// on the label are kept so modifiers stay indented under their item.
+function amountLines(label: string, amount: string, width: number) {
+  const indent = label.match(/^ */)?.[0] ?? "";
+  const labelWidth = Math.max(1, width - amount.length - 1 - indent.length);
+  const lines = wrap(label.trim(), labelWidth).map((line) => `${indent}${line}`);
+  lines[0] = `${lines[0]}${" ".repeat(Math.max(1, width - lines[0].length - amount.length))}${amount}`;
+  return lines.map((line) => line.trimEnd());
+}
+
+function textLines(text: string, width: number) {
+  const indent = text.match(/^ */)?.[0] ?? "";
+  return wrap(text.trim(), Math.max(1, width - indent.length)).map((line) => `${indent}${line}`);
+}
+
+/** The receipt as fixed-width text, for email bodies and plain-text downloads. */
+export function renderReceiptText(receipt: ReceiptDocument, width = RECEIPT_WIDTH) {
+  const lines = receiptRows(receipt).flatMap((row) => {
+    switch (row.kind) {
+      case "title":
+      case "center":
+        return center(row.text, width);
+      case "text":
+        return textLines(row.text, width);
+      case "amount":
+        return amountLines(row.label, row.amount, width);
+      case "rule":
+        return ["-".repeat(width)];
+    }
+  });
+  return `${lines.join("\n")}\n`;
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * A standalone page sized for 80mm thermal paper. With `autoPrint` it opens
+ * the browser's print dialog as soon as it loads.
+ */
+export function renderReceiptHtml(receipt: ReceiptDocument, options: { autoPrint?: boolean } = {}) {
+  const body = receiptRows(receipt)
+    .map((row) => {
+      switch (row.kind) {
+        case "title":
+          return `<h1>${escapeHtml(row.text)}</h1>`;
+        case "center":
+          return `<p class="center${row.bold ? " bold" : ""}">${escapeHtml(row.text)}</p>`;
+        case "text":
+          return `<p>${escapeHtml(row.text.trim())}</p>`;
+        case "amount":
+          return `<p class="amount${row.bold ? " bold" : ""}${row.label.startsWith(" ") ? " indent" : ""}"><span>${escapeHtml(row.label.trim())}</span><span>${escapeHtml(row.amount)}</span></p>`;
+        case "rule":
+          return "<hr>";
+      }
+    })
+    .join("\n");
+  const title = `${receipt.reprintedAt ? "REPRINT " : ""}Receipt #${receipt.orderNumber}`;
+  return `<!doctype html>
+<html lang="${escapeHtml(receipt.store.money.locale)}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+@page { size: 80mm auto; margin: 0; }
+* { box-sizing: border-box; }
+body { margin: 0; background: #fff; color: #000; font: 12px/1.35 "Courier New", ui-monospace, monospace; }
+main { width: 80mm; padding: 4mm; }
+h1 { margin: 0 0 2mm; font-size: 16px; text-align: center; }
+p { margin: 0; overflow-wrap: anywhere; }
+hr { margin: 2mm 0; border: 0; border-top: 1px dashed #000; }
+.center { text-align: center; }
+.bold { font-weight: 700; }
+.amount { display: flex; justify-content: space-between; gap: 2mm; }
+.amount span:last-child { white-space: nowrap; }
+.indent { padding-left: 3ch; }
+</style>
+</head>
+<body${options.autoPrint ? ' onload="window.print()"' : ""}>
+<main>
+${body}
+</main>
+</body>
+</html>
+`;
+}
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+// Windows-1252 code points above Latin-1 that receipts are likely to need.
+const CP1252_EXTRAS: Record<string, number> = {
+  "€": 0x80,
+  "‚": 0x82,
+  "„": 0x84,
+  "…": 0x85,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "–": 0x96,
+  "—": 0x97,
+  "™": 0x99,
+};
+
+// Printers are switched to code page 1252 (ESC t 16). Intl's narrow and
+// non-breaking spaces become plain spaces; anything else unknown prints "?".
+function encodeCp1252(text: string) {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0) ?? 0x3f;
+    if (char === "\u00a0" || char === "\u202f" || char === "\u2009") {
+      bytes.push(0x20);
+    } else if (code < 0x80 || (code >= 0xa0 && code <= 0xff)) {
+      bytes.push(code);
+    } else {
+      bytes.push(CP1252_EXTRAS[char] ?? 0x3f);
+    }
+  }
+  return bytes;
+}
+
+/**
+ * ESC/POS commands for an Epson-compatible 80mm printer: initialize, pick
+ * code page 1252, print the rows with centering, bold and a double-size
+ * title, then feed and cut.
+ */
+export function renderReceiptEscPos(receipt: ReceiptDocument, width = RECEIPT_WIDTH): Uint8Array {
+  const bytes: number[] = [ESC, 0x40, ESC, 0x74, 16];
+  const align = (mode: 0 | 1) => bytes.push(ESC, 0x61, mode);
+  const bold = (on: boolean) => bytes.push(ESC, 0x45, on ? 1 : 0);
+  const line = (text: string) => bytes.push(...encodeCp1252(text), LF);
+
+  for (const row of receiptRows(receipt)) {
+    switch (row.kind) {
+      case "title":
+        align(1);
+        bold(true);
+        bytes.push(GS, 0x21, 0x11);
+        wrap(row.text, Math.floor(width / 2)).forEach(line);
+        bytes.push(GS, 0x21, 0x00);
+        bold(false);
+        align(0);
+        break;
+      case "center":
+        align(1);
+        bold(Boolean(row.bold));
+        wrap(row.text, width).forEach(line);
+        bold(false);
+        align(0);
+        break;
+      case "text":
+        textLines(row.text, width).forEach(line);
+        break;
+      case "amount":
+        bold(Boolean(row.bold));
+        amountLines(row.label, row.amount, width).forEach(line);
+        bold(false);
+        break;
+      case "rule":
+        line("-".repeat(width));
+        break;
+    }
+  }
+  // Feed past the tear bar, then a partial cut.
+  bytes.push(ESC, 0x64, 4, GS, 0x56, 0x42, 0x00);
+  return Uint8Array.from(bytes);
+}
+
+/** A mailto: link that opens a plain-text receipt as an email to the guest. */
+export function receiptMailto(email: string, subject: string, text: string) {
+  return `mailto:${encodeURIComponent(email.trim())}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(text)}`;
+}
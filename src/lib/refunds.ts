@@ -0,0 +1,261 @@
+import { InventoryMovementType, OrderStatus, PaymentMethod, type OrderType } from "@prisma/client";
+import { OrderError, requireOpenShift } from "./orders";
+import { prisma } from "./prisma";
+import { restock, stockChangeFor } from "./stock";
+
+export type RefundLineInput = {
+  orderItemId: string;
+  quantity: number;
+};
+
+export type RefundInput = {
+  cashierId: string;
+  approverId: string;
+  /** Tender to return money through; defaults to the order's main payment method. */
+  method: PaymentMethod | null;
+  reason: string | null;
+  lines: RefundLineInput[] | "all";
+};
+
+export type RefundResult = {
+  orderId: string;
+  orderNumber: number;
+  status: OrderStatus;
+  method: PaymentMethod;
+  refundCents: number;
+  refundedCents: number;
+  totalCents: number;
+};
+
+export type VoidResult = {
+  orderId: string;
+  orderNumber: number;
+  tableName: string | null;
+};
+
+export type RefundableOrder = {
+  orderId: string;
+  orderNumber: number;
+  status: OrderStatus;
+  type: OrderType;
+  tableName: string | null;
+  createdAt: string;
+  subtotalCents: number;
+  totalCents: number;
+  refundedCents: number;
+  items: Array<{
+    id: string;
+    name: string;
+    quantity: number;
+    refundedQty: number;
+    modifiers: string[];
+    lineTotalCents: number;
+  }>;
+};
+
+export async function getRefundableOrder(orderNumber: number): Promise<RefundableOrder> {
+  const order = await prisma.order.findUnique({
+    where: { orderNumber },
+    include: {
+      table: true,
+      items: {
+        orderBy: [{ round: "asc" }, { createdAt: "asc" }],
+        include: {
+          product: { select: { name: true } },
+          modifiers: { include: { modifier: { select: { name: true } } } },
+        },
+      },
+    },
+  });
+  if (!order) {
+    throw new OrderError(`Order #${orderNumber} was not found.`, 404);
+  }
+
+  return {
+    orderId: order.id,
+    orderNumber: order.orderNumber,
+    status: order.status,
+    type: order.type,
+    tableName: order.table?.name ?? null,
+    createdAt: order.createdAt.toISOString(),
+    subtotalCents: order.subtotalCents,
+    totalCents: order.totalCents,
+    refundedCents: order.refundedCents,
+    items: order.items.map((item) => ({
+      id: item.id,
+      name: item.product.name,
+      quantity: item.qty,
+      refundedQty: item.refundedQty,
+      modifiers: item.modifiers.map((entry) => entry.modifier.name),
+      lineTotalCents: item.lineTotalCents,
+    })),
+  };
+}
+
+/**
+ * Refunds some or all items of a paid order. Each line's share of the order
+ * total (after its promotion, then discount and tax) is returned as a
+ * negative Payment row; the final refund on an order takes whatever is left
+ * so rounding never drifts.
+ */
+export async function refundOrder(orderNumber: number, input: RefundInput): Promise<RefundResult> {
+  return prisma.$transaction(async (tx) => {
+    const order = await tx.order.findUnique({
+      where: { orderNumber },
+      include: { items: true, payments: true },
+    });
+    if (!order) {
+      throw new OrderError(`Order #${orderNumber} was not found.`, 404);
+    }
+    if (order.status !== OrderStatus.PAID) {
+      throw new OrderError(
+        order.status === OrderStatus.OPEN
+          ? `Order #${orderNumber} has not been paid; void it instead.`
+          : `Order #${orderNumber} is already ${order.status.toLowerCase()}.`,
+        409,
+      );
+    }
+
+    const requested = new Map<string, number>();
+    if (input.lines === "all") {
+      for (const item of order.items) {
+        requested.set(item.id, item.qty - item.refundedQty);
+      }
+    } else {
+      for (const line of input.lines) {
+        requested.set(line.orderItemId, (requested.get(line.orderItemId) ?? 0) + line.quantity);
+      }
+    }
+
+    let grossCents = 0;
+    const updates: Array<{ id: string; refundedQty: number }> = [];
+    const returned: Array<{ productId: string; quantity: number }> = [];
+    for (const [orderItemId, quantity] of requested) {
+      const item = order.items.find((entry) => entry.id === orderItemId);
+      if (!item) {
+        throw new OrderError(`Item ${orderItemId} is not part of order #${orderNumber}.`);
+      }
+      if (quantity > item.qty - item.refundedQty) {
+        throw new OrderError(`Only ${item.qty - item.refundedQty} of that item can still be refunded.`);
+      }
+      if (quantity > 0) {
+        grossCents += Math.round(((item.lineTotalCents - item.promotionCents) * quantity) / item.qty);
+        updates.push({ id: item.id, refundedQty: item.refundedQty + quantity });
+        returned.push({ productId: item.productId, quantity });
+      }
+    }
+    if (updates.length === 0) {
+      throw new OrderError("Choose at least one item to refund.");
+    }
+
+    const fullyRefunded = order.items.every(
+      (item) => (updates.find((update) => update.id === item.id)?.refundedQty ?? item.refundedQty) >= item.qty,
+    );
+    const remainingCents = order.totalCents - order.refundedCents;
+    const netSubtotalCents = order.subtotalCents - order.promotionCents;
+    const refundCents = fullyRefunded
+      ? remainingCents
+      : Math.min(
+          remainingCents,
+          netSubtotalCents > 0 ? Math.round((grossCents * order.totalCents) / netSubtotalCents) : 0,
+        );
+
+    const largestTender = order.payments
+      .filter((payment) => payment.amountCents > 0)
+      .sort((a, b) => b.amountCents - a.amountCents)[0];
+    const method = input.method ?? largestTender?.method ?? PaymentMethod.CASH;
+    if (method === PaymentMethod.CASH && refundCents > 0) {
+      // Cash leaves this user's drawer, so it must count against an open shift.
+      await requireOpenShift(tx, input.cashierId);
+    }
+
+    // Two terminals refunding the same order at once would double-pay.
+    const status = fullyRefunded ? OrderStatus.REFUNDED : OrderStatus.PAID;
+    const claimed = await tx.order.updateMany({
+      where: { id: order.id, status: OrderStatus.PAID, refundedCents: order.refundedCents },
+      data: { status, refundedCents: order.refundedCents + refundCents },
+    });
+    if (claimed.count === 0) {
+      throw new OrderError(`Order #${orderNumber} changed while refunding. Reload and try again.`, 409);
+    }
+    for (const update of updates) {
+      await tx.orderItem.update({ where: { id: update.id }, data: { refundedQty: update.refundedQty } });
+    }
+    await restock(tx, stockChangeFor(returned), {
+      type: InventoryMovementType.REFUND,
+      userId: input.cashierId,
+      orderId: order.id,
+      reason: input.reason,
+    });
+    if (refundCents > 0) {
+      await tx.payment.create({
+        data: {
+          orderId: order.id,
+          cashierId: input.cashierId,
+          approvedById: input.approverId,
+          method,
+          amountCents: -refundCents,
+          reason: input.reason,
+        },
+      });
+    }
+
+    return {
+      orderId: order.id,
+      orderNumber,
+      status,
+      method,
+      refundCents,
+      refundedCents: order.refundedCents + refundCents,
+      totalCents: order.totalCents,
+    };
+  });
+}
+
+/** Voids an unpaid (OPEN) order. Paid orders have to be refunded instead. */
+export async function voidOrder(
+  orderId: string,
+  input: { approverId: string; reason: string | null },
+): Promise<VoidResult> {
+  return prisma.$transaction(async (tx) => {
+    const order = await tx.order.findUnique({
+      where: { id: orderId },
+      include: { table: true, items: true },
+    });
+    if (!order) {
+      throw new OrderError("Order not found.", 404);
+    }
+
+    const voided = await tx.order.updateMany({
+      where: { id: orderId, status: OrderStatus.OPEN },
+      data: { status: OrderStatus.CANCELLED, voidedById: input.approverId, voidReason: input.reason },
+    });
+    if (voided.count === 0) {
+      throw new OrderError(
+        order.status === OrderStatus.PAID
+          ? `Order #${order.orderNumber} is paid; refund it instead.`
+          : `Order #${order.orderNumber} is already ${order.status.toLowerCase()}.`,
+        409,
+      );
+    }
+    await restock(
+      tx,
+      stockChangeFor(order.items.map((item) => ({ productId: item.productId, quantity: item.qty }))),
+      { type: InventoryMovementType.VOID, userId: input.approverId, orderId, reason: input.reason },
+    );
+
+    return { orderId, orderNumber: order.orderNumber, tableName: order.table?.name ?? null };
+  });
+}
+
+/**
+ * Whether `orderNumber` was voided through voidOrder, i.e. with an approver
+ * on record. The socket server checks this before pulling tickets.
+ */
+export async function isVoidedOrder(orderNumber: number) {
+  const order = await prisma.order.findUnique({
+    where: { orderNumber },
+    select: { status: true, voidedById: true },
+  });
+  return order?.status === OrderStatus.CANCELLED && order.voidedById !== null;
+}
@@ -0,0 +1,9 @@
+// Mirrors the UserRole enum in prisma/schema.prisma. Kept free of
+// @prisma/client so client components and the socket server can import it.
+export const STAFF_ROLES = ["ADMIN", "MANAGER", "CASHIER", "WAITER", "COOK"] as const;
+
+export type StaffRole = (typeof STAFF_ROLES)[number];
+
+export function isStaffRole(value: unknown): value is StaffRole {
+  return typeof value === "string" && (STAFF_ROLES as readonly string[]).includes(value);
+}
@@ -0,0 +1,37 @@
+import { cookies } from "next/headers";
+import { isStaffRole, type StaffRole } from "./roles";
+import { signToken, verifyToken } from "./signed-token";
+
+export const SESSION_COOKIE = "pos_session";
+export const SESSION_TTL_SECONDS = 12 * 60 * 60;
+
+export type StaffSession = {
+  sub: string;
+  name: string;
+  role: StaffRole;
+};
+
+export function createSessionToken(session: StaffSession) {
+  return signToken(session, "session", SESSION_TTL_SECONDS);
+}
+
+export const sessionCookieOptions = {
+  httpOnly: true,
+  sameSite: "lax" as const,
+  secure: process.env.NODE_ENV === "production",
+  path: "/",
+  maxAge: SESSION_TTL_SECONDS,
+};
+
+export function parseSessionToken(token: string | null | undefined): StaffSession | null {
+  const claims = verifyToken<StaffSession>(token, "session");
+  if (!claims || typeof claims.sub !== "string" || !isStaffRole(claims.role)) {
+    return null;
+  }
+  return { sub: claims.sub, name: String(claims.name ?? ""), role: claims.role };
+}
+
+export async function getSession() {
+  const store = await cookies();
+  return parseSessionToken(store.get(SESSION_COOKIE)?.value);
+}
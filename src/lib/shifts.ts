@@ -0,0 +1,131 @@
+import { PaymentMethod, type Prisma } from "@prisma/client";
+import { OrderError } from "./orders";
+import { prisma } from "./prisma";
+
+export class ShiftError extends OrderError {
+  constructor(message: string, status = 400) {
+    super(message, status);
+    this.name = "ShiftError";
+  }
+}
+
+export type ShiftSummary = {
+  id: string;
+  openedAt: string;
+  closedAt: string | null;
+  openingCashCents: number;
+  cashSalesCents: number;
+  expectedCashCents: number;
+  closingCashCents: number | null;
+  varianceCents: number | null;
+  notes: string | null;
+};
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+type ShiftRow = {
+  id: string;
+  userId: string;
+  openedAt: Date;
+  closedAt: Date | null;
+  openingCashCents: number;
+  closingCashCents: number | null;
+  varianceCents: number | null;
+  notes: string | null;
+};
+
+export function findOpenShift(db: Db, userId: string) {
+  return db.shift.findFirst({
+    where: { userId, closedAt: null },
+    orderBy: { openedAt: "desc" },
+  });
+}
+
+/** Cash this user took in payments between the shift opening and `until`. */
+async function cashSalesCents(db: Db, shift: ShiftRow, until: Date | null) {
+  const result = await db.payment.aggregate({
+    where: {
+      cashierId: shift.userId,
+      method: PaymentMethod.CASH,
+      createdAt: until ? { gte: shift.openedAt, lte: until } : { gte: shift.openedAt },
+    },
+    _sum: { amountCents: true },
+  });
+  return result._sum.amountCents ?? 0;
+}
+
+async function summarize(db: Db, shift: ShiftRow): Promise<ShiftSummary> {
+  const cashSales = await cashSalesCents(db, shift, shift.closedAt);
+  return {
+    id: shift.id,
+    openedAt: shift.openedAt.toISOString(),
+    closedAt: shift.closedAt?.toISOString() ?? null,
+    openingCashCents: shift.openingCashCents,
+    cashSalesCents: cashSales,
+    expectedCashCents: shift.openingCashCents + cashSales,
+    closingCashCents: shift.closingCashCents,
+    varianceCents: shift.varianceCents,
+    notes: shift.notes,
+  };
+}
+
+export async function getCurrentShift(userId: string): Promise<ShiftSummary | null> {
+  const shift = await findOpenShift(prisma, userId);
+  return shift ? summarize(prisma, shift) : null;
+}
+
+export async function openShift(
+  userId: string,
+  openingCashCents: number,
+  notes: string | null,
+): Promise<ShiftSummary> {
+  return prisma.$transaction(async (tx) => {
+    // Held until commit, so a second tablet opening a shift for this user
+    // waits here and then finds this one.
+    await tx.$queryRaw`SELECT "id" FROM "User" WHERE "id" = ${userId} FOR UPDATE`;
+    if (await findOpenShift(tx, userId)) {
+      throw new ShiftError("You already have an open shift. Close it before starting another.", 409);
+    }
+    const shift = await tx.shift.create({ data: { userId, openingCashCents, notes } });
+    return summarize(tx, shift);
+  });
+}
+
+/**
+ * Closes the user's open shift against the counted drawer. Expected cash is
+ * the opening float plus every CASH payment the user took since opening.
+ */
+export async function closeShift(
+  userId: string,
+  closingCashCents: number,
+  notes: string | null,
+): Promise<ShiftSummary> {
+  return prisma.$transaction(async (tx) => {
+    const shift = await findOpenShift(tx, userId);
+    if (!shift) {
+      throw new ShiftError("There is no open shift to close.", 409);
+    }
+
+    const closedAt = new Date();
+    const expectedCashCents = shift.openingCashCents + (await cashSalesCents(tx, shift, closedAt));
+    const varianceCents = closingCashCents - expectedCashCents;
+    const combinedNotes = [shift.notes, notes].filter(Boolean).join("\n") || null;
+
+    // Guard against the same shift being closed from two terminals.
+    const closed = await tx.shift.updateMany({
+      where: { id: shift.id, closedAt: null },
+      data: { closedAt, closingCashCents, expectedCashCents, varianceCents, notes: combinedNotes },
+    });
+    if (closed.count === 0) {
+      throw new ShiftError("This shift was already closed.", 409);
+    }
+
+    return summarize(tx, {
+      ...shift,
+      closedAt,
+      closingCashCents,
+      varianceCents,
+      notes: combinedNotes,
+    });
+  });
+}
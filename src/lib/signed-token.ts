@@ -0,0 +1,73 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+const DEV_SECRET = "dev-only-pos-auth-secret";
+let warnedAboutDevSecret = false;
+
+export type TokenAudience = "session" | "kitchen-ws";
+
+type TokenEnvelope = {
+  aud: TokenAudience;
+  exp: number;
+};
+
+function getAuthSecret() {
+  const secret = process.env.POS_AUTH_SECRET;
+  if (secret && secret.trim().length > 0) {
+    return secret;
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("POS_AUTH_SECRET is not set in your environment.");
+  }
+  if (!warnedAboutDevSecret) {
+    warnedAboutDevSecret = true;
+    console.warn("POS_AUTH_SECRET is not set; using an insecure development secret.");
+  }
+  return DEV_SECRET;
+}
+
+function sign(body: string) {
+  return createHmac("sha256", getAuthSecret()).update(body).digest("base64url");
+}
+
+/** Issues a compact `body.signature` token that expires after `ttlSeconds`. */
+export function signToken<T extends object>(payload: T, audience: TokenAudience, ttlSeconds: number) {
+  const envelope: T & TokenEnvelope = {
+    ...payload,
+    aud: audience,
+    exp: Math.floor(Date.now() / 1000) + ttlSeconds,
+  };
+  const body = Buffer.from(JSON.stringify(envelope)).toString("base64url");
+  return `${body}.${sign(body)}`;
+}
+
+export function verifyToken<T extends object>(
+  token: string | null | undefined,
+  audience: TokenAudience,
+): (T & TokenEnvelope) | null {
+  if (!token) {
+    return null;
+  }
+  const [body, signature] = token.split(".");
+  if (!body || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(body));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(Buffer.from(body, "base64url").toString("utf8")) as T & TokenEnvelope;
+    if (claims.aud !== audience || typeof claims.exp !== "number") {
+      return null;
+    }
+    if (claims.exp * 1000 <= Date.now()) {
+      return null;
+    }
+    return claims;
+  } catch {
+    return null;
+  }
+}
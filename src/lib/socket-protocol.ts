@@ -0,0 +1,373 @@
+import type {
+  KitchenSocketMessage,
+  KitchenSocketMessageType,
+  KitchenTicket,
+  KitchenTicketItem,
+  KitchenTicketStatus,
+  LowStockRecord,
+  OrderReadyNotice,
+  SaleRecord,
+} from "./kitchen-socket";
+import { isMinorUnits } from "./money";
+import { ORDER_TYPES } from "./order-types";
+import type { PickupBoard, PickupReadyOrder } from "./pickup";
+import { PREP_STATIONS } from "./prep-stations";
+
+/**
+ * The kitchen socket's wire format, used by every screen and the socket
+ * server. A frame is the JSON envelope `{ v, type, payload, ref? }`. Both
+ * sides read frames through `decodeFrame`, which checks the payload against
+ * its message type, so a bad frame is answered with an ERROR naming the
+ * field instead of being trusted or dropped.
+ */
+
+/** Bumped whenever a payload changes shape; the server refuses frames from other versions. */
+export const PROTOCOL_VERSION = 1;
+
+export const SOCKET_ERROR_CODES = [
+  "bad_frame",
+  "unsupported_version",
+  "unknown_type",
+  "invalid_payload",
+  "forbidden",
+  "not_found",
+  // The server failed on a frame it had accepted, e.g. the journal could not be written.
+  "internal",
+] as const;
+
+export type SocketErrorCode = (typeof SOCKET_ERROR_CODES)[number];
+
+export type SocketErrorPayload = {
+  /** The `ref` of the frame being refused, when it had one. */
+  ref?: string;
+  /** The refused frame's type, when it could be read. */
+  type?: string;
+  code: SocketErrorCode;
+  message: string;
+};
+
+export type DecodedFrame =
+  | { ok: true; message: KitchenSocketMessage; ref?: string }
+  | { ok: false; error: SocketErrorPayload };
+
+export class SocketProtocolError extends Error {
+  constructor(
+    message: string,
+    readonly code: SocketErrorCode = "invalid_payload",
+  ) {
+    super(message);
+    this.name = "SocketProtocolError";
+  }
+}
+
+const MAX_REF_LENGTH = 64;
+const TICKET_STATUSES: readonly KitchenTicketStatus[] = ["new", "in_progress", "done"];
+
+type Fields = Record<string, unknown>;
+
+function fail(path: string, expected: string): never {
+  throw new SocketProtocolError(`${path} must be ${expected}.`);
+}
+
+function readObject(value: unknown, path: string): Fields {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    fail(path, "an object");
+  }
+  return value as Fields;
+}
+
+function readString(value: unknown, path: string) {
+  if (typeof value !== "string" || value.trim().length === 0) {
+    fail(path, "a non-empty string");
+  }
+  return value;
+}
+
+function readOptionalString(value: unknown, path: string) {
+  return value === undefined || value === null ? undefined : readString(value, path);
+}
+
+function readNullableString(value: unknown, path: string) {
+  return value === undefined || value === null || value === "" ? null : readString(value, path);
+}
+
+function readCount(value: unknown, path: string, minimum: number) {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < minimum) {
+    fail(path, minimum > 0 ? "a positive whole number" : "a whole number of 0 or more");
+  }
+  return value;
+}
+
+function readBoolean(value: unknown, path: string) {
+  if (typeof value !== "boolean") {
+    fail(path, "true or false");
+  }
+  return value;
+}
+
+/** Any date string is accepted and passed on as ISO 8601. */
+function readTime(value: unknown, path: string) {
+  const date = typeof value === "string" ? new Date(value) : null;
+  if (!date || Number.isNaN(date.getTime())) {
+    fail(path, "a date and time");
+  }
+  return date.toISOString();
+}
+
+function readOptionalTime(value: unknown, path: string) {
+  return value === undefined || value === null ? undefined : readTime(value, path);
+}
+
+function readOneOf<T extends string>(value: unknown, path: string, options: readonly T[]): T {
+  if (typeof value !== "string" || !(options as readonly string[]).includes(value)) {
+    fail(path, `one of ${options.join(", ")}`);
+  }
+  return value as T;
+}
+
+function readOptionalOneOf<T extends string>(value: unknown, path: string, options: readonly T[]) {
+  return value === undefined || value === null ? undefined : readOneOf(value, path, options);
+}
+
+function readArray<T>(value: unknown, path: string, readEntry: (entry: unknown, path: string) => T) {
+  if (!Array.isArray(value)) {
+    fail(path, "a list");
+  }
+  return value.map((entry, index) => readEntry(entry, `${path}[${index}]`));
+}
+
+function readTicketItem(value: unknown, path: string): KitchenTicketItem {
+  const item = readObject(value, path);
+  const done = item.done === undefined ? false : readBoolean(item.done, `${path}.done`);
+  return {
+    id: readString(item.id, `${path}.id`),
+    name: readString(item.name, `${path}.name`),
+    quantity: readCount(item.quantity, `${path}.quantity`, 1),
+    modifiers: item.modifiers === undefined ? [] : readArray(item.modifiers, `${path}.modifiers`, readString),
+    station: readOptionalOneOf(item.station, `${path}.station`, PREP_STATIONS),
+    done,
+    doneAt: done ? readOptionalTime(item.doneAt, `${path}.doneAt`) : undefined,
+    productId: readOptionalString(item.productId, `${path}.productId`),
+    categoryId: readNullableString(item.categoryId, `${path}.categoryId`),
+  };
+}
+
+/** A kitchen ticket off the wire or out of the server's journal. */
+export function readTicket(value: unknown, path = "ticket"): KitchenTicket {
+  const ticket = readObject(value, path);
+  const items = readArray(ticket.items, `${path}.items`, readTicketItem);
+  if (items.length === 0) {
+    fail(`${path}.items`, "a list with at least one item");
+  }
+  return {
+    id: readString(ticket.id, `${path}.id`),
+    receiptNo: readCount(ticket.receiptNo, `${path}.receiptNo`, 1),
+    round: ticket.round === undefined ? 1 : readCount(ticket.round, `${path}.round`, 1),
+    createdAt: readTime(ticket.createdAt, `${path}.createdAt`),
+    note: readNullableString(ticket.note, `${path}.note`),
+    // Tickets journaled before order types existed were all dine-in.
+    orderType: readOptionalOneOf(ticket.orderType, `${path}.orderType`, ORDER_TYPES) ?? "DINE_IN",
+    tableName: readNullableString(ticket.tableName, `${path}.tableName`),
+    status: readOptionalOneOf(ticket.status, `${path}.status`, TICKET_STATUSES) ?? "new",
+    station: readOptionalOneOf(ticket.station, `${path}.station`, PREP_STATIONS),
+    startedAt: readOptionalTime(ticket.startedAt, `${path}.startedAt`),
+    completedAt: readOptionalTime(ticket.completedAt, `${path}.completedAt`),
+    sentBy: readOptionalString(ticket.sentBy, `${path}.sentBy`),
+    items,
+  };
+}
+
+export function readSale(value: unknown, path = "sale"): SaleRecord {
+  const sale = readObject(value, path);
+  if (!isMinorUnits(sale.totalCents)) {
+    fail(`${path}.totalCents`, "a whole number of minor units");
+  }
+  return {
+    id: readString(sale.id, `${path}.id`),
+    receiptNo: readCount(sale.receiptNo, `${path}.receiptNo`, 1),
+    kind: readOptionalOneOf(sale.kind, `${path}.kind`, ["sale", "refund"] as const),
+    waiterId: readOptionalString(sale.waiterId, `${path}.waiterId`),
+    waiterName: readString(sale.waiterName, `${path}.waiterName`),
+    totalCents: sale.totalCents,
+    createdAt: readTime(sale.createdAt, `${path}.createdAt`),
+  };
+}
+
+function readLowStock(value: unknown, path: string): LowStockRecord {
+  const alert = readObject(value, path);
+  return {
+    productId: readString(alert.productId, `${path}.productId`),
+    name: readString(alert.name, `${path}.name`),
+    stockQty: readCount(alert.stockQty, `${path}.stockQty`, 0),
+    reorderLevel: readCount(alert.reorderLevel, `${path}.reorderLevel`, 0),
+    createdAt: readTime(alert.createdAt, `${path}.createdAt`),
+  };
+}
+
+function readReadyNotice(value: unknown, path: string): OrderReadyNotice {
+  const notice = readObject(value, path);
+  return {
+    receiptNo: readCount(notice.receiptNo, `${path}.receiptNo`, 1),
+    round: readCount(notice.round, `${path}.round`, 1),
+    orderType: readOneOf(notice.orderType, `${path}.orderType`, ORDER_TYPES),
+    tableName: readNullableString(notice.tableName, `${path}.tableName`),
+    readyAt: readTime(notice.readyAt, `${path}.readyAt`),
+  };
+}
+
+function readPickupReady(value: unknown, path: string): PickupReadyOrder {
+  const order = readObject(value, path);
+  return {
+    receiptNo: readCount(order.receiptNo, `${path}.receiptNo`, 1),
+    readyAt: readTime(order.readyAt, `${path}.readyAt`),
+  };
+}
+
+function readPickupBoard(value: unknown, path: string): PickupBoard {
+  const board = readObject(value, path);
+  return {
+    preparing: readArray(board.preparing, `${path}.preparing`, (entry, entryPath) => readCount(entry, entryPath, 1)),
+    ready: readArray(board.ready, `${path}.ready`, readPickupReady),
+  };
+}
+
+function readTicketList(value: unknown, path: string) {
+  return readArray(value, path, readTicket);
+}
+
+function readChangeNotice(value: unknown, path: string) {
+  return { updatedAt: readTime(readObject(value, path).updatedAt, `${path}.updatedAt`) };
+}
+
+type PayloadOf<T extends KitchenSocketMessageType> = Extract<KitchenSocketMessage, { type: T }>["payload"];
+
+/** One reader per message type; a type added to KitchenSocketMessage without one will not compile. */
+const PAYLOAD_READERS: { [T in KitchenSocketMessageType]: (payload: unknown, path: string) => PayloadOf<T> } = {
+  NEW_ORDER: readTicket,
+  ORDER_SNAPSHOT: readTicketList,
+  COMPLETED_SNAPSHOT: readTicketList,
+  UPDATE_ORDER_STATUS: (value, path) => {
+    const payload = readObject(value, path);
+    return {
+      id: readString(payload.id, `${path}.id`),
+      status: readOneOf(payload.status, `${path}.status`, TICKET_STATUSES),
+      at: readOptionalTime(payload.at, `${path}.at`),
+    };
+  },
+  BUMP_ITEM: (value, path) => {
+    const payload = readObject(value, path);
+    return {
+      ticketId: readString(payload.ticketId, `${path}.ticketId`),
+      itemId: readString(payload.itemId, `${path}.itemId`),
+      done: readBoolean(payload.done, `${path}.done`),
+      at: readOptionalTime(payload.at, `${path}.at`),
+    };
+  },
+  RECALL_ORDER: (value, path) => {
+    const payload = readObject(value, path);
+    return {
+      id: readString(payload.id, `${path}.id`),
+      ticket: payload.ticket === undefined ? undefined : readTicket(payload.ticket, `${path}.ticket`),
+    };
+  },
+  ORDER_READY: readReadyNotice,
+  PICKUP_BOARD: readPickupBoard,
+  ORDER_VOIDED: (value, path) => ({
+    receiptNo: readCount(readObject(value, path).receiptNo, `${path}.receiptNo`, 1),
+  }),
+  NEW_SALE: readSale,
+  NEW_REFUND: readSale,
+  LOW_STOCK: readLowStock,
+  CATALOG_CHANGED: readChangeNotice,
+  STORE_SETTINGS_CHANGED: readChangeNotice,
+  SALES_SNAPSHOT: (value, path) => {
+    const payload = readObject(value, path);
+    return {
+      day: readString(payload.day, `${path}.day`),
+      sales: readArray(payload.sales, `${path}.sales`, readSale),
+    };
+  },
+  ACK: (value, path) => {
+    const payload = readObject(value, path);
+    return {
+      ref: readOptionalString(payload.ref, `${path}.ref`),
+      type: readString(payload.type, `${path}.type`),
+    };
+  },
+  ERROR: (value, path) => {
+    const payload = readObject(value, path);
+    return {
+      ref: readOptionalString(payload.ref, `${path}.ref`),
+      type: readOptionalString(payload.type, `${path}.type`),
+      code: readOneOf(payload.code, `${path}.code`, SOCKET_ERROR_CODES),
+      message: readString(payload.message, `${path}.message`),
+    };
+  },
+};
+
+export function isMessageType(value: unknown): value is KitchenSocketMessageType {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(PAYLOAD_READERS, value);
+}
+
+// The table pairs each type with its reader, which TypeScript cannot follow
+// through a lookup by a runtime type, hence the cast.
+function readMessage(type: KitchenSocketMessageType, payload: unknown) {
+  const reader = PAYLOAD_READERS[type] as (payload: unknown, path: string) => KitchenSocketMessage["payload"];
+  return { type, payload: reader(payload, "payload") } as KitchenSocketMessage;
+}
+
+let framesTagged = 0;
+
+/** A `ref` unique to this page load, for matching the server's ACK or ERROR to the frame. */
+export function nextFrameRef() {
+  framesTagged += 1;
+  return `${Date.now().toString(36)}-${framesTagged}`;
+}
+
+/** Serializes `message` for the socket; `ref` is echoed back in the server's ACK or ERROR. */
+export function encodeFrame(message: KitchenSocketMessage, ref?: string) {
+  return JSON.stringify(ref ? { v: PROTOCOL_VERSION, ...message, ref } : { v: PROTOCOL_VERSION, ...message });
+}
+
+export function decodeFrame(raw: string): DecodedFrame {
+  let frame: Fields;
+  try {
+    frame = readObject(JSON.parse(raw), "frame");
+  } catch {
+    return { ok: false, error: { code: "bad_frame", message: "The frame is not a JSON object." } };
+  }
+
+  const ref =
+    typeof frame.ref === "string" && frame.ref.length > 0 && frame.ref.length <= MAX_REF_LENGTH ? frame.ref : undefined;
+  const type = typeof frame.type === "string" ? frame.type : undefined;
+  const refuse = (code: SocketErrorCode, message: string): DecodedFrame => ({
+    ok: false,
+    error: { ref, type, code, message },
+  });
+
+  if (frame.v !== PROTOCOL_VERSION) {
+    return refuse(
+      "unsupported_version",
+      `Protocol version ${String(frame.v ?? "(none)")} is not supported; this side speaks version ${PROTOCOL_VERSION}.`,
+    );
+  }
+  if (!isMessageType(type)) {
+    return refuse("unknown_type", `Unknown message type ${type ?? "(none)"}.`);
+  }
+  try {
+    return { ok: true, message: readMessage(type, frame.payload), ref };
+  } catch (error) {
+    if (error instanceof SocketProtocolError) {
+      return refuse(error.code, error.message);
+    }
+    throw error;
+  }
+}
+
+/** Status-line text for an ERROR the server sent back. */
+export function describeSocketError(error: SocketErrorPayload) {
+  if (error.code === "internal") {
+    return `The kitchen server could not apply ${error.type ?? "a message"}: ${error.message}`;
+  }
+  return `The kitchen server refused ${error.type ?? "a message"}: ${error.message}`;
+}
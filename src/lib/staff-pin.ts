@@ -0,0 +1,64 @@
+import type { User } from "@prisma/client";
+import { verifyPin } from "./pin";
+import { prisma } from "./prisma";
+
+const MAX_PIN_ATTEMPTS = 5;
+const LOCKOUT_MINUTES = 5;
+
+export type StaffPinCheck =
+  | { ok: true; user: User }
+  | { ok: false; status: 401 | 423; error: string };
+
+function lockedOut(lockedUntil: Date, now: Date): StaffPinCheck {
+  const minutes = Math.ceil((lockedUntil.getTime() - now.getTime()) / 60000);
+  return { ok: false, status: 423, error: `Too many wrong PINs. Try again in ${minutes} minute(s).` };
+}
+
+/**
+ * Checks an active user's PIN and applies the shared lockout: five wrong
+ * PINs lock the user for five minutes, whether at login or when approving.
+ */
+export async function checkStaffPin(userId: string, pin: string): Promise<StaffPinCheck> {
+  const user = await prisma.user.findFirst({ where: { id: userId, isActive: true } });
+  if (!user || !user.pinHash) {
+    return { ok: false, status: 401, error: "Unknown or inactive user." };
+  }
+
+  const now = new Date();
+  if (user.lockedUntil && user.lockedUntil > now) {
+    return lockedOut(user.lockedUntil, now);
+  }
+
+  return prisma.$transaction(async (tx): Promise<StaffPinCheck> => {
+    // Every check counts as an attempt before the PIN is compared. The
+    // increment re-checks the lock and holds the row until this transaction
+    // ends, so parallel guesses are taken one at a time and none gets past a
+    // lock another one has just set.
+    const counted = await tx.user.updateMany({
+      where: { id: user.id, OR: [{ lockedUntil: null }, { lockedUntil: { lte: now } }] },
+      data: { failedPinAttempts: { increment: 1 } },
+    });
+    const current = await tx.user.findUniqueOrThrow({ where: { id: user.id } });
+    if (counted.count === 0) {
+      return lockedOut(current.lockedUntil ?? now, now);
+    }
+
+    if (verifyPin(pin, current.pinHash)) {
+      const cleared = await tx.user.update({
+        where: { id: user.id },
+        data: { failedPinAttempts: 0, lockedUntil: null },
+      });
+      return { ok: true, user: cleared };
+    }
+
+    if (current.failedPinAttempts >= MAX_PIN_ATTEMPTS) {
+      await tx.user.update({
+        where: { id: user.id },
+        data: { failedPinAttempts: 0, lockedUntil: new Date(now.getTime() + LOCKOUT_MINUTES * 60000) },
+      });
+      return { ok: false, status: 423, error: `Too many wrong PINs. Locked for ${LOCKOUT_MINUTES} minutes.` };
+    }
+    const left = MAX_PIN_ATTEMPTS - current.failedPinAttempts;
+    return { ok: false, status: 401, error: `Wrong PIN. ${left} attempt(s) left.` };
+  });
+}
@@ -0,0 +1,83 @@
+import type { Prisma } from "@prisma/client";
+import { recordMovement, type MovementContext } from "./inventory";
+import { OrderError } from "./order-error";
+
+type Tx = Prisma.TransactionClient;
+
+/** Quantity of each product an order takes out of (or puts back into) stock. */
+export type StockChange = Map<string, number>;
+
+export type LowStockAlert = {
+  productId: string;
+  name: string;
+  stockQty: number;
+  reorderLevel: number;
+};
+
+export function stockChangeFor(lines: Array<{ productId: string; quantity: number }>): StockChange {
+  const change: StockChange = new Map();
+  for (const line of lines) {
+    change.set(line.productId, (change.get(line.productId) ?? 0) + line.quantity);
+  }
+  return change;
+}
+
+/**
+ * Decrements tracked products inside the order transaction and writes the
+ * matching ledger rows. The conditional update refuses to go below zero, so
+ * two terminals cannot both sell the last item. Returns alerts for products
+ * that just crossed their reorder level.
+ */
+export async function deductStock(
+  tx: Tx,
+  change: StockChange,
+  context: MovementContext,
+): Promise<LowStockAlert[]> {
+  const products = await tx.product.findMany({
+    where: { id: { in: Array.from(change.keys()) }, trackStock: true },
+    select: { id: true, name: true, stockQty: true, reorderLevel: true },
+  });
+
+  const alerts: LowStockAlert[] = [];
+  for (const product of products) {
+    const quantity = change.get(product.id) ?? 0;
+    const updated = await tx.product.updateMany({
+      where: { id: product.id, stockQty: { gte: quantity } },
+      data: { stockQty: { decrement: quantity } },
+    });
+    if (updated.count === 0) {
+      const current = await tx.product.findUnique({ where: { id: product.id }, select: { stockQty: true } });
+      const left = current?.stockQty ?? 0;
+      throw new OrderError(
+        left > 0 ? `Only ${left} ${product.name} left in stock.` : `${product.name} is sold out.`,
+        409,
+      );
+    }
+
+    const after = await tx.product.findUnique({ where: { id: product.id }, select: { stockQty: true } });
+    const stockQty = after?.stockQty ?? 0;
+    await recordMovement(tx, product.id, -quantity, stockQty, context);
+    if (stockQty <= product.reorderLevel && stockQty + quantity > product.reorderLevel) {
+      alerts.push({ productId: product.id, name: product.name, stockQty, reorderLevel: product.reorderLevel });
+    }
+  }
+  return alerts;
+}
+
+/** Puts refunded or voided quantities back on the shelf for tracked products. */
+export async function restock(tx: Tx, change: StockChange, context: MovementContext) {
+  const tracked = await tx.product.findMany({
+    where: { id: { in: Array.from(change.keys()) }, trackStock: true },
+    select: { id: true },
+  });
+  for (const { id } of tracked) {
+    const quantity = change.get(id) ?? 0;
+    if (quantity > 0) {
+      const updated = await tx.product.update({
+        where: { id },
+        data: { stockQty: { increment: quantity } },
+      });
+      await recordMovement(tx, id, quantity, updated.stockQty, context);
+    }
+  }
+}
@@ -0,0 +1,227 @@
+import type { Prisma } from "@prisma/client";
+import { isTimeZone } from "./business-day";
+import { DEFAULT_MONEY_FORMAT, isMoneyFormat, type MoneyFormat } from "./money";
+import { OrderError } from "./order-error";
+import { prisma } from "./prisma";
+import { DEFAULT_STORE_PROFILE, type StoreProfile } from "./store-settings";
+import {
+  isTaxRounding,
+  percentToBasisPoints,
+  type TaxRate,
+  type TaxRounding,
+  type TaxSetup,
+} from "./tax";
+
+export class StoreSettingsError extends OrderError {
+  constructor(message: string, status = 400) {
+    super(message, status);
+    this.name = "StoreSettingsError";
+  }
+}
+
+/** Everything on /admin/settings: the public profile plus the tax defaults. */
+export type StoreSettings = StoreProfile & {
+  defaultTaxProfileId: string | null;
+  taxInclusive: boolean;
+  taxRounding: TaxRounding;
+};
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+const STORE_SETTINGS_ID = "store";
+const DEFAULT_TAX_PERCENT = 8.25;
+const MAX_TEXT_LENGTH = 500;
+
+export function getTaxPercent() {
+  const parsed = Number.parseFloat(process.env.POS_TAX_PERCENT ?? "");
+  if (!Number.isFinite(parsed) || parsed < 0 || parsed > 100) {
+    return DEFAULT_TAX_PERCENT;
+  }
+  return parsed;
+}
+
+/** The last-resort rate, for stores that have not picked a default tax profile. */
+export function getDefaultTaxRate(): TaxRate {
+  return { name: "Tax", basisPoints: percentToBasisPoints(getTaxPercent()) };
+}
+
+function envMoneyFormat(): MoneyFormat {
+  const format = {
+    currency: (process.env.POS_CURRENCY ?? DEFAULT_MONEY_FORMAT.currency).toUpperCase(),
+    locale: process.env.POS_LOCALE ?? DEFAULT_MONEY_FORMAT.locale,
+  };
+  return isMoneyFormat(format) ? format : DEFAULT_MONEY_FORMAT;
+}
+
+// The POS_* variables describe the store until the settings are first saved.
+function envSettings(): StoreSettings {
+  const rounding = process.env.POS_TAX_ROUNDING;
+  const timeZone = process.env.POS_TIMEZONE ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+  return {
+    ...DEFAULT_STORE_PROFILE,
+    displayName: process.env.POS_STORE_NAME || DEFAULT_STORE_PROFILE.displayName,
+    money: envMoneyFormat(),
+    timeZone: isTimeZone(timeZone) ? timeZone : DEFAULT_STORE_PROFILE.timeZone,
+    defaultTaxProfileId: null,
+    taxInclusive: process.env.POS_TAX_INCLUSIVE === "true",
+    taxRounding: isTaxRounding(rounding) ? rounding : "order",
+  };
+}
+
+export async function loadStoreSettings(db: Db = prisma): Promise<StoreSettings> {
+  const row = await db.storeSettings.findUnique({ where: { id: STORE_SETTINGS_ID } });
+  if (!row) {
+    return envSettings();
+  }
+  const money = { currency: row.currency, locale: row.locale };
+  return {
+    displayName: row.displayName,
+    address: row.address,
+    money: isMoneyFormat(money) ? money : DEFAULT_MONEY_FORMAT,
+    timeZone: isTimeZone(row.timeZone) ? row.timeZone : DEFAULT_STORE_PROFILE.timeZone,
+    businessDayCutoffHour: row.businessDayCutoffHour,
+    receiptHeader: row.receiptHeader,
+    receiptFooter: row.receiptFooter,
+    defaultTaxProfileId: row.defaultTaxProfileId,
+    taxInclusive: row.taxInclusive,
+    taxRounding: isTaxRounding(row.taxRounding) ? row.taxRounding : "order",
+  };
+}
+
+/** The part of the settings any signed-out screen may see. */
+export function toStoreProfile(settings: StoreSettings): StoreProfile {
+  return {
+    displayName: settings.displayName,
+    address: settings.address,
+    money: settings.money,
+    timeZone: settings.timeZone,
+    businessDayCutoffHour: settings.businessDayCutoffHour,
+    receiptHeader: settings.receiptHeader,
+    receiptFooter: settings.receiptFooter,
+  };
+}
+
+export async function loadStoreProfile(db: Db = prisma): Promise<StoreProfile> {
+  return toStoreProfile(await loadStoreSettings(db));
+}
+
+/** A retired default profile is ignored, like a retired product or category profile. */
+export async function loadTaxSetup(db: Db = prisma, store?: StoreSettings): Promise<TaxSetup> {
+  const settings = store ?? (await loadStoreSettings(db));
+  const profile = settings.defaultTaxProfileId
+    ? await db.taxProfile.findUnique({ where: { id: settings.defaultTaxProfileId } })
+    : null;
+  return {
+    defaultProfile: profile?.isActive
+      ? {
+          id: profile.id,
+          name: profile.name,
+          rateBasisPoints: profile.rateBasisPoints,
+          takeoutBasisPoints: profile.takeoutBasisPoints,
+          deliveryBasisPoints: profile.deliveryBasisPoints,
+        }
+      : null,
+    fallbackRate: getDefaultTaxRate(),
+    settings: { inclusive: settings.taxInclusive, rounding: settings.taxRounding },
+  };
+}
+
+function readText(body: Record<string, unknown>, key: string, label: string, required = false) {
+  const value = body[key];
+  if (value !== undefined && value !== null && typeof value !== "string") {
+    throw new StoreSettingsError(`${label} must be text.`);
+  }
+  const text = (value ?? "").trim();
+  if (required && !text) {
+    throw new StoreSettingsError(`${label} is required.`);
+  }
+  if (text.length > MAX_TEXT_LENGTH) {
+    throw new StoreSettingsError(`${label} must be at most ${MAX_TEXT_LENGTH} characters.`);
+  }
+  return text;
+}
+
+/** Validates a full settings form sent by /admin/settings. */
+export function parseStoreSettings(body: Record<string, unknown>): StoreSettings {
+  const money = {
+    currency: readText(body, "currency", "Currency", true).toUpperCase(),
+    locale: readText(body, "locale", "Locale", true),
+  };
+  if (!isMoneyFormat(money)) {
+    throw new StoreSettingsError("Currency must be an ISO 4217 code such as USD, and the locale one like en-US.");
+  }
+  const timeZone = readText(body, "timeZone", "Timezone", true);
+  if (!isTimeZone(timeZone)) {
+    throw new StoreSettingsError("Timezone must be an IANA zone such as America/New_York.");
+  }
+  const cutoff = body.businessDayCutoffHour;
+  if (typeof cutoff !== "number" || !Number.isInteger(cutoff) || cutoff < 0 || cutoff > 23) {
+    throw new StoreSettingsError("Business day cutoff must be an hour from 0 to 23.");
+  }
+  const defaultTaxProfileId = body.defaultTaxProfileId;
+  if (defaultTaxProfileId !== null && defaultTaxProfileId !== undefined && typeof defaultTaxProfileId !== "string") {
+    throw new StoreSettingsError("defaultTaxProfileId must be a tax profile id.");
+  }
+  if (!isTaxRounding(body.taxRounding)) {
+    throw new StoreSettingsError('taxRounding must be "line" or "order".');
+  }
+  return {
+    displayName: readText(body, "displayName", "Store name", true),
+    address: readText(body, "address", "Address"),
+    money,
+    timeZone,
+    businessDayCutoffHour: cutoff,
+    receiptHeader: readText(body, "receiptHeader", "Receipt header"),
+    receiptFooter: readText(body, "receiptFooter", "Receipt footer"),
+    defaultTaxProfileId: defaultTaxProfileId || null,
+    taxInclusive: body.taxInclusive === true,
+    taxRounding: body.taxRounding,
+  };
+}
+
+export async function saveStoreSettings(settings: StoreSettings): Promise<StoreSettings> {
+  if (settings.defaultTaxProfileId) {
+    const profile = await prisma.taxProfile.findUnique({
+      where: { id: settings.defaultTaxProfileId },
+      select: { isActive: true },
+    });
+    if (!profile?.isActive) {
+      throw new StoreSettingsError("Pick an active tax profile as the default.");
+    }
+  }
+  // Amounts are stored as bare minor units, so a new currency would reprice
+  // every order and drawer already on record.
+  const current = await loadStoreSettings();
+  if (settings.money.currency !== current.money.currency) {
+    const [order, shift] = await Promise.all([
+      prisma.order.findFirst({ select: { id: true } }),
+      prisma.shift.findFirst({ select: { id: true } }),
+    ]);
+    if (order || shift) {
+      throw new StoreSettingsError(
+        `The currency cannot change from ${current.money.currency} once orders or shifts have been recorded in it.`,
+        409,
+      );
+    }
+  }
+  const data = {
+    displayName: settings.displayName,
+    address: settings.address,
+    currency: settings.money.currency,
+    locale: settings.money.locale,
+    timeZone: settings.timeZone,
+    businessDayCutoffHour: settings.businessDayCutoffHour,
+    receiptHeader: settings.receiptHeader,
+    receiptFooter: settings.receiptFooter,
+    defaultTaxProfileId: settings.defaultTaxProfileId,
+    taxInclusive: settings.taxInclusive,
+    taxRounding: settings.taxRounding,
+  };
+  await prisma.storeSettings.upsert({
+    where: { id: STORE_SETTINGS_ID },
+    create: { id: STORE_SETTINGS_ID, ...data },
+    update: data,
+  });
+  return loadStoreSettings();
+}
+
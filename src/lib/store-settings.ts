@@ -0,0 +1,34 @@
+import type { BusinessDayClock } from "./business-day";
+import { DEFAULT_MONEY_FORMAT, type MoneyFormat } from "./money";
+
+/** The store settings every screen and the socket server work from. */
+export type StoreProfile = BusinessDayClock & {
+  displayName: string;
+  address: string;
+  money: MoneyFormat;
+  receiptHeader: string;
+  receiptFooter: string;
+};
+
+export const DEFAULT_STORE_PROFILE: StoreProfile = {
+  displayName: "Cafe POS",
+  address: "",
+  money: DEFAULT_MONEY_FORMAT,
+  timeZone: "UTC",
+  businessDayCutoffHour: 0,
+  receiptHeader: "",
+  receiptFooter: "",
+};
+
+/** Loads the store profile for a client screen; null when the server cannot be reached. */
+export async function fetchStoreProfile(): Promise<StoreProfile | null> {
+  try {
+    const response = await fetch("/api/store", { cache: "no-store" });
+    if (!response.ok) {
+      return null;
+    }
+    return (await response.json()) as StoreProfile;
+  } catch {
+    return null;
+  }
+}
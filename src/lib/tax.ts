@@ -0,0 +1,128 @@
+import type { OrderTypeCode } from "./order-types";
+
+/** "line" rounds each line's tax to the cent; "order" rounds once per rate. */
+export type TaxRounding = "line" | "order";
+
+export type TaxSettings = {
+  /** Menu prices already include tax. */
+  inclusive: boolean;
+  rounding: TaxRounding;
+};
+
+/** A TaxProfile row as pricing needs it; rates are basis points (825 = 8.25%). */
+export type TaxProfileRates = {
+  id: string;
+  name: string;
+  rateBasisPoints: number;
+  takeoutBasisPoints: number | null;
+  deliveryBasisPoints: number | null;
+};
+
+export type TaxRate = {
+  name: string;
+  basisPoints: number;
+};
+
+export type TaxableLine = {
+  /** What the guest pays for the line after promotions and discounts. */
+  amountCents: number;
+  rate: TaxRate;
+};
+
+export type TaxBreakdownLine = {
+  name: string;
+  rateBasisPoints: number;
+  /** Net of tax, whether or not prices included it. */
+  taxableCents: number;
+  taxCents: number;
+};
+
+export function isTaxRounding(value: unknown): value is TaxRounding {
+  return value === "line" || value === "order";
+}
+
+export function percentToBasisPoints(percent: number) {
+  return Math.round(percent * 100);
+}
+
+/** 825 -> "8.25%" */
+export function formatTaxRate(basisPoints: number) {
+  return `${(basisPoints / 100).toFixed(2).replace(/\.?0+$/, "")}%`;
+}
+
+/** Takeout and delivery fall back to the profile's main rate when they have none of their own. */
+export function resolveTaxRate(
+  profile: TaxProfileRates | null,
+  orderType: OrderTypeCode,
+  fallback: TaxRate,
+): TaxRate {
+  if (!profile) {
+    return fallback;
+  }
+  const override =
+    orderType === "TAKEOUT"
+      ? profile.takeoutBasisPoints
+      : orderType === "DELIVERY"
+        ? profile.deliveryBasisPoints
+        : null;
+  return { name: profile.name, basisPoints: override ?? profile.rateBasisPoints };
+}
+
+/** The store-wide tax defaults a sale is priced with. */
+export type TaxSetup = {
+  /** Taxes products with no profile on themselves or their category. */
+  defaultProfile: TaxProfileRates | null;
+  /** Used when there is no default profile either. */
+  fallbackRate: TaxRate;
+  settings: TaxSettings;
+};
+
+/** A product's own or category profile, else the store default profile, else the fallback rate. */
+export function taxRateFor(setup: TaxSetup, profile: TaxProfileRates | null, orderType: OrderTypeCode) {
+  return resolveTaxRate(profile ?? setup.defaultProfile, orderType, setup.fallbackRate);
+}
+
+/**
+ * Tax on lines that are already net of promotions and discounts, grouped by
+ * rate. Inclusive prices have the tax backed out of them instead of added.
+ */
+export function computeTaxes(lines: readonly TaxableLine[], settings: TaxSettings) {
+  const groups = new Map<string, TaxBreakdownLine & { exactCents: number }>();
+
+  for (const line of lines) {
+    const { basisPoints } = line.rate;
+    const exactCents = settings.inclusive
+      ? (line.amountCents * basisPoints) / (10000 + basisPoints)
+      : (line.amountCents * basisPoints) / 10000;
+    const key = `${line.rate.name}|${basisPoints}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = { name: line.rate.name, rateBasisPoints: basisPoints, taxableCents: 0, taxCents: 0, exactCents: 0 };
+      groups.set(key, group);
+    }
+    group.taxableCents += line.amountCents;
+    group.exactCents += exactCents;
+    if (settings.rounding === "line") {
+      group.taxCents += Math.round(exactCents);
+    }
+  }
+
+  const breakdown: TaxBreakdownLine[] = [];
+  for (const group of groups.values()) {
+    const taxCents = settings.rounding === "line" ? group.taxCents : Math.round(group.exactCents);
+    if (group.taxableCents === 0 && taxCents === 0) {
+      continue;
+    }
+    breakdown.push({
+      name: group.name,
+      rateBasisPoints: group.rateBasisPoints,
+      taxableCents: settings.inclusive ? group.taxableCents - taxCents : group.taxableCents,
+      taxCents,
+    });
+  }
+
+  return {
+    taxCents: breakdown.reduce((sum, line) => sum + line.taxCents, 0),
+    breakdown,
+  };
+}
@@ -0,0 +1,78 @@
+/**
+ * Kitchen ticket timing shared by the board and the prep-time reports. A
+ * ticket's clock starts when it is fired, and its category thresholds decide
+ * when the board turns it amber, then red.
+ */
+
+/** Minutes a ticket may wait before it turns amber (`warn`), then red (`late`). */
+export type PrepThresholds = {
+  warnMinutes: number;
+  lateMinutes: number;
+};
+
+/** A category's own thresholds; null falls back to the defaults. */
+export type CategoryPrepThresholds = {
+  prepWarnMinutes: number | null;
+  prepLateMinutes: number | null;
+};
+
+export type PrepUrgency = "on_time" | "warn" | "late";
+
+export const DEFAULT_PREP_THRESHOLDS: PrepThresholds = { warnMinutes: 5, lateMinutes: 10 };
+
+/** The most a threshold can be set to in the catalog editor. */
+export const MAX_PREP_MINUTES = 240;
+
+const MINUTE_MS = 60 * 1000;
+
+export function categoryThresholds(category: CategoryPrepThresholds | undefined): PrepThresholds {
+  return {
+    warnMinutes: category?.prepWarnMinutes ?? DEFAULT_PREP_THRESHOLDS.warnMinutes,
+    lateMinutes: category?.prepLateMinutes ?? DEFAULT_PREP_THRESHOLDS.lateMinutes,
+  };
+}
+
+/**
+ * A ticket goes by its strictest category, so a slow sandwich cannot keep a
+ * waiting espresso from turning red. Items without a category use the defaults.
+ */
+export function ticketThresholds(
+  categoryIds: Array<string | null | undefined>,
+  byCategory: ReadonlyMap<string, CategoryPrepThresholds>,
+): PrepThresholds {
+  if (categoryIds.length === 0) {
+    return DEFAULT_PREP_THRESHOLDS;
+  }
+  return categoryIds
+    .map((id) => categoryThresholds(id ? byCategory.get(id) : undefined))
+    .reduce((strictest, next) => ({
+      warnMinutes: Math.min(strictest.warnMinutes, next.warnMinutes),
+      lateMinutes: Math.min(strictest.lateMinutes, next.lateMinutes),
+    }));
+}
+
+export function prepUrgency(elapsedMs: number, thresholds: PrepThresholds): PrepUrgency {
+  if (elapsedMs >= thresholds.lateMinutes * MINUTE_MS) {
+    return "late";
+  }
+  return elapsedMs >= thresholds.warnMinutes * MINUTE_MS ? "warn" : "on_time";
+}
+
+/** 247000 -> "4:07"; an hour or more shows hours too, "1:02:03". */
+export function formatElapsed(elapsedMs: number) {
+  const totalSeconds = Math.max(0, Math.floor(elapsedMs / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, "0");
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+/** Nearest-rank percentile of `values` (0 for none); `percent` is 0-100. */
+export function percentile(values: number[], percent: number) {
+  if (values.length === 0) {
+    return 0;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((percent / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
@@ -0,0 +1,23 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { canAccessPage } from "./lib/access";
+import { parseSessionToken, SESSION_COOKIE } from "./lib/session";
+
+export function proxy(request: NextRequest) {
+  const session = parseSessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+  const { pathname } = request.nextUrl;
+
+  if (session && canAccessPage(session.role, pathname)) {
+    return NextResponse.next();
+  }
+
+  const loginUrl = new URL("/login", request.url);
+  loginUrl.searchParams.set("next", pathname);
+  if (session) {
+    loginUrl.searchParams.set("denied", "1");
+  }
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  matcher: ["/waiter/:path*", "/kitchen/:path*", "/admin/:path*", "/components/kitchen/:path*"],
+};